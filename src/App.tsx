@@ -1,34 +1,61 @@
 import { useState } from 'react';
-import { LayoutDashboard, Package, ShoppingCart, Users, Building2, FileText, Target } from 'lucide-react';
+import { LayoutDashboard, Package, ShoppingCart, Users, Building2, FileText, Target, LogOut, UserCog, Receipt, Settings as SettingsIcon, ShieldCheck, CalendarClock, Hourglass } from 'lucide-react';
 import Dashboard from './components/Dashboard';
 import Suppliers from './components/Suppliers';
 import Inventory from './components/Inventory';
+import AgingInventory from './components/AgingInventory';
 import Sales from './components/Sales';
 import Customers from './components/Customers';
 import PurchaseOrders from './components/PurchaseOrders';
 import Targets from './components/Targets';
+import Team from './components/Team';
+import TaxReport from './components/TaxReport';
+import Warranty from './components/Warranty';
+import Reservations from './components/Reservations';
+import Settings from './components/Settings';
+import { supabase } from './lib/supabase';
+import { useWorkspace } from './lib/workspace';
+import { canAccessPage, type Page } from './lib/permissions';
+import type { AgingBucket } from './lib/aging';
 import { fr } from './lib/translations';
 
-type Page = 'dashboard' | 'targets' | 'suppliers' | 'purchase_orders' | 'inventory' | 'sales' | 'customers';
-
 function App() {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const [agingBucket, setAgingBucket] = useState<AgingBucket | 'all'>('all');
+  const { session, workspace, role } = useWorkspace();
   const t = fr;
 
-  const navigation = [
+  const allNavigation: { id: Page; label: string; icon: typeof LayoutDashboard }[] = [
     { id: 'dashboard', label: t.nav.dashboard, icon: LayoutDashboard },
     { id: 'targets', label: 'Targets', icon: Target },
     { id: 'suppliers', label: t.nav.suppliers, icon: Building2 },
     { id: 'purchase_orders', label: 'Bons de commande', icon: FileText },
     { id: 'inventory', label: t.nav.inventory, icon: Package },
+    { id: 'aging', label: t.nav.aging, icon: Hourglass },
     { id: 'sales', label: t.nav.sales, icon: ShoppingCart },
+    { id: 'reservations', label: t.nav.reservations, icon: CalendarClock },
     { id: 'customers', label: t.nav.customers, icon: Users },
+    { id: 'warranty', label: t.nav.warranty, icon: ShieldCheck },
+    { id: 'taxes', label: t.nav.taxes, icon: Receipt },
+    { id: 'team', label: t.nav.team, icon: UserCog },
+    { id: 'settings', label: t.nav.settings, icon: SettingsIcon },
   ];
+  const navigation = allNavigation.filter((item) => canAccessPage(role, item.id));
+
+  // The Dashboard's aging buckets open the aging view on that bucket
+  const openAging = (bucket: AgingBucket) => {
+    setAgingBucket(bucket);
+    setCurrentPage('aging');
+  };
 
   const renderPage = () => {
+    if (!canAccessPage(role, currentPage)) {
+      return <Dashboard onOpenAging={openAging} />;
+    }
+
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard />;
+        return <Dashboard onOpenAging={openAging} />;
       case 'targets':
         return <Targets />;
       case 'suppliers':
@@ -37,12 +64,24 @@ function App() {
         return <PurchaseOrders />;
       case 'inventory':
         return <Inventory />;
+      case 'aging':
+        return <AgingInventory bucket={agingBucket} onBucketChange={setAgingBucket} />;
       case 'sales':
         return <Sales />;
+      case 'reservations':
+        return <Reservations />;
       case 'customers':
         return <Customers />;
+      case 'warranty':
+        return <Warranty />;
+      case 'taxes':
+        return <TaxReport />;
+      case 'team':
+        return <Team />;
+      case 'settings':
+        return <Settings />;
       default:
-        return <Dashboard />;
+        return <Dashboard onOpenAging={openAging} />;
     }
   };
 
@@ -51,7 +90,7 @@ function App() {
       <aside className="w-64 bg-[#1a1d29] text-white flex flex-col">
         <div className="p-6 border-b border-gray-800">
           <h1 className="text-xl font-bold">UnitFlow</h1>
-          <p className="text-xs text-gray-400 mt-1">Espace de travail d'Elena</p>
+          <p className="text-xs text-gray-400 mt-1">{workspace.name}</p>
         </div>
 
         <nav className="flex-1 p-4">
@@ -60,7 +99,7 @@ function App() {
             return (
               <button
                 key={item.id}
-                onClick={() => setCurrentPage(item.id as Page)}
+                onClick={() => setCurrentPage(item.id)}
                 className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg mb-2 transition-colors ${
                   currentPage === item.id
                     ? 'bg-blue-600 text-white'
@@ -73,6 +112,20 @@ function App() {
             );
           })}
         </nav>
+
+        <div className="p-4 border-t border-gray-800">
+          <p className="text-xs text-gray-400 truncate" title={session.user.email}>
+            {session.user.email}
+          </p>
+          <p className="text-xs text-gray-500 mb-2">{t.team.roles[role]}</p>
+          <button
+            onClick={() => supabase.auth.signOut()}
+            className="w-full flex items-center gap-3 px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-800 transition-colors"
+          >
+            <LogOut size={18} />
+            <span className="text-sm font-medium">{t.auth.signOut}</span>
+          </button>
+        </div>
       </aside>
 
       <main className="flex-1 overflow-auto">
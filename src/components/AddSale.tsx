@@ -1,25 +1,45 @@
 import { useState, useEffect } from 'react';
 import { Check, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { recordSale, releaseExpiredReservations } from '../lib/sales';
+import { useWorkspace } from '../lib/workspace';
+import { computeTaxes } from '../lib/tax';
+import { formatMoney } from '../lib/currency';
+import { getWarrantyExpiry, warrantyOptions } from '../lib/warranty';
+import { loadComparables, suggestPrice, type PriceSuggestion } from '../lib/pricing';
+import { fr } from '../lib/translations';
 import type { Database } from '../lib/database.types';
 
 type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
 type Customer = Database['public']['Tables']['customers']['Row'];
 type SaleInsert = Database['public']['Tables']['sales']['Insert'];
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+type Sale = Database['public']['Tables']['sales']['Row'];
+type Reservation = Database['public']['Tables']['reservations']['Row'] & {
+  customers: Pick<Customer, 'name'> | null;
+};
 
 interface AddSaleProps {
   onCancel: () => void;
-  onSuccess: () => void;
+  onSuccess: (sale: Sale) => void;
 }
 
 function AddSale({ onCancel, onSuccess }: AddSaleProps) {
+  const { can, workspace } = useWorkspace();
   const [items, setItems] = useState<InventoryItem[]>([]);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [taxIncluded, setTaxIncluded] = useState(false);
+  const [suggestion, setSuggestion] = useState<PriceSuggestion | null>(null);
+  // Pre-tax price the sale price was prefilled with
+  const [prefilledPrice, setPrefilledPrice] = useState<number | null>(null);
   const [formData, setFormData] = useState<Partial<SaleInsert>>({
     sale_price: 0,
     sale_date: new Date().toISOString().split('T')[0],
     payment_method: 'cash',
     channel: 'walk-in',
+    warranty_months: 0,
   });
   const [searchTerm, setSearchTerm] = useState('');
   const [isAddingCustomer, setIsAddingCustomer] = useState(false);
@@ -34,19 +54,83 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
   useEffect(() => {
     loadAvailableItems();
     loadCustomers();
+    loadTaxRates();
   }, []);
 
+  // Reserved units can be sold too, through their reservation
   const loadAvailableItems = async () => {
-    const { data, error } = await supabase
-      .from('inventory_items')
-      .select('*')
-      .eq('status', 'in_stock')
-      .order('item_id');
+    await releaseExpiredReservations();
 
-    if (error) {
-      console.error('Error loading items:', error);
+    const [itemsResult, reservationsResult] = await Promise.all([
+      supabase
+        .from('inventory_items')
+        .select('*')
+        .in('status', ['in_stock', 'reserved'])
+        .order('item_id'),
+      supabase
+        .from('reservations')
+        .select('*, customers (name)')
+        .eq('status', 'active'),
+    ]);
+
+    if (itemsResult.error || reservationsResult.error) {
+      console.error('Error loading items:', itemsResult.error || reservationsResult.error);
     } else {
-      setItems(data || []);
+      const active = (reservationsResult.data || []) as Reservation[];
+      setReservations(active);
+      setItems((itemsResult.data || []).filter((item) =>
+        item.status === 'in_stock' || active.some((reservation) => reservation.item_id === item.id)
+      ));
+    }
+  };
+
+  // Units set aside for clearance or wholesale sell on that channel
+  const handleItemChange = (itemId: string) => {
+    const reservation = reservations.find((r) => r.item_id === itemId);
+    const item = items.find((i) => i.id === itemId);
+    setFormData({
+      ...formData,
+      item_id: itemId,
+      customer_id: reservation ? reservation.customer_id : formData.customer_id,
+      channel: item?.disposition || formData.channel,
+    });
+    setSuggestion(null);
+    setPrefilledPrice(null);
+
+    if (item) {
+      prefillPrice(item);
+    }
+  };
+
+  // The asking price becomes the starting sale price, or the suggested list
+  // price for units without one
+  const prefillPrice = async (item: InventoryItem) => {
+    const askingPrice = item.asking_price;
+    if (askingPrice !== null) {
+      setPrefilledPrice(askingPrice);
+      setFormData((current) => (current.item_id === item.id ? { ...current, sale_price: withTaxes(askingPrice, taxIncluded) } : current));
+    }
+
+    const { data, error } = await loadComparables(item);
+    if (error) return;
+
+    const suggested = suggestPrice(item, data.units, data.sales, workspace.target_margin_percent);
+    setSuggestion(suggested);
+    if (askingPrice === null) {
+      setPrefilledPrice(suggested.price);
+      setFormData((current) => (current.item_id === item.id ? { ...current, sale_price: withTaxes(suggested.price, taxIncluded) } : current));
+    }
+  };
+
+  // Prefilled prices are pre-tax; a tax-included price carries the taxes too
+  const withTaxes = (price: number, included: boolean): number =>
+    included ? computeTaxes(price, taxRates, false).total : price;
+
+  // A prefilled price follows the toggle; a price typed by the seller stays
+  const handleTaxIncludedChange = (included: boolean) => {
+    setTaxIncluded(included);
+    if (prefilledPrice !== null && formData.sale_price === withTaxes(prefilledPrice, taxIncluded)) {
+      setFormData({ ...formData, sale_price: withTaxes(prefilledPrice, included) });
     }
   };
 
@@ -63,6 +147,20 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
     }
   };
 
+  const loadTaxRates = async () => {
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading tax rates:', error);
+    } else {
+      setTaxRates(data || []);
+    }
+  };
+
   const handleAddCustomer = async () => {
     if (!newCustomer.name || !newCustomer.phone) {
       alert('Please fill in name and phone');
@@ -100,29 +198,18 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
       return;
     }
 
-    const { error: saleError } = await supabase
-      .from('sales')
-      .insert([formData as SaleInsert]);
+    const { data, error } = await recordSale(formData as SaleInsert, taxIncluded, reservation?.id || null);
 
-    if (saleError) {
-      console.error('Error adding sale:', saleError);
-      alert('Error adding sale');
+    if (error) {
+      alert(error.message);
+      if (error.code === 'item_not_sellable' || error.code === 'item_not_found' || error.code === 'reservation_not_active') {
+        setFormData({ ...formData, item_id: '' });
+        loadAvailableItems();
+      }
       return;
     }
 
-    const { error: updateError } = await supabase
-      .from('inventory_items')
-      .update({
-        status: 'sold',
-        sold_date: new Date().toISOString(),
-      })
-      .eq('id', formData.item_id);
-
-    if (updateError) {
-      console.error('Error updating item status:', updateError);
-    }
-
-    onSuccess();
+    onSuccess(data);
   };
 
   const filteredItems = items.filter(item =>
@@ -131,8 +218,12 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
     (item.serial_number && item.serial_number.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  const taxes = computeTaxes(formData.sale_price || 0, taxRates, taxIncluded);
+  const askingPrice = items.find((item) => item.id === formData.item_id)?.asking_price ?? null;
+  const reservation = reservations.find((r) => r.item_id === formData.item_id);
+
   const paymentMethods = ['cash', 'interac', 'credit_card', 'bank_transfer'];
-  const channels = ['walk-in', 'marketplace', 'instagram', 'shopify', 'referral', 'other'];
+  const channels = ['walk-in', 'marketplace', 'instagram', 'shopify', 'referral', 'clearance', 'wholesale', 'other'];
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6 mb-6">
@@ -152,17 +243,22 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
             />
             <select
               value={formData.item_id || ''}
-              onChange={(e) => setFormData({ ...formData, item_id: e.target.value })}
+              onChange={(e) => handleItemChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
             >
               <option value="">Select Item</option>
               {filteredItems.map((item) => (
                 <option key={item.id} value={item.id}>
-                  {item.item_id} - {item.model_family} {item.screen_size}" ({item.chip}, {item.ram_gb}GB, {item.storage_gb}GB) - ${item.purchase_cost.toFixed(2)}
+                  {item.item_id} - {item.model_family} {item.screen_size}" ({item.chip}, {item.ram_gb}GB, {item.storage_gb}GB){can('view_costs') && ` - ${formatMoney(item.purchase_cost, item.currency)}`}{item.status === 'reserved' && ' - RESERVED'}
                 </option>
               ))}
             </select>
+            {reservation && (
+              <p className="text-xs text-blue-700 mt-1">
+                Reserved for {reservation.customers?.name || 'a customer'} with a ${reservation.deposit_amount.toFixed(2)} deposit, applied to this sale
+              </p>
+            )}
           </div>
 
           <div className="col-span-2">
@@ -259,6 +355,28 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
               step="0.01"
               required
             />
+            {askingPrice !== null && (
+              <p className="text-xs text-gray-500 mt-1">
+                {fr.pricing.askingPrice}: {formatMoney(askingPrice, workspace.base_currency)}
+              </p>
+            )}
+            {suggestion && (
+              <p className="text-xs text-gray-500 mt-1">
+                Suggested price: {formatMoney(suggestion.price, workspace.base_currency)}
+                {suggestion.comparables.length > 0
+                  ? ` (${suggestion.comparables.length} comparable sale${suggestion.comparables.length > 1 ? 's' : ''})`
+                  : ' (target margin, no comparable sales)'}
+              </p>
+            )}
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={taxIncluded}
+                onChange={(e) => handleTaxIncludedChange(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Price includes taxes
+            </label>
           </div>
 
           <div>
@@ -308,6 +426,61 @@ function AddSale({ onCancel, onSuccess }: AddSaleProps) {
             </select>
           </div>
 
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Warranty
+            </label>
+            <div className="flex items-center gap-3">
+              <select
+                value={formData.warranty_months}
+                onChange={(e) => setFormData({ ...formData, warranty_months: parseInt(e.target.value) })}
+                className="w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {warrantyOptions.map((months) => (
+                  <option key={months} value={months}>
+                    {months === 0 ? 'No warranty' : `${months} months`}
+                  </option>
+                ))}
+              </select>
+              {!!formData.warranty_months && formData.sale_date && (
+                <span className="text-sm text-gray-600">
+                  Expires {new Date(getWarrantyExpiry(formData.sale_date, formData.warranty_months)).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+          </div>
+
+          {taxRates.length > 0 && (
+            <div className="col-span-2 bg-gray-50 border border-gray-200 rounded-md p-3 text-sm">
+              <div className="flex justify-between text-gray-600">
+                <span>Subtotal</span>
+                <span>${taxes.subtotal.toFixed(2)}</span>
+              </div>
+              {taxes.lines.map((line) => (
+                <div key={line.name} className="flex justify-between text-gray-600">
+                  <span>{line.name} ({line.rate}%)</span>
+                  <span>${line.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 mt-1 pt-1">
+                <span>Total</span>
+                <span>${taxes.total.toFixed(2)}</span>
+              </div>
+              {reservation && (
+                <>
+                  <div className="flex justify-between text-gray-600">
+                    <span>Deposit paid</span>
+                    <span>-${reservation.deposit_amount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-gray-900">
+                    <span>Balance due</span>
+                    <span>${(taxes.total - reservation.deposit_amount).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="col-span-2">
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Notes
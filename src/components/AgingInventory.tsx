@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { Tag } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { getLandedCost } from '../lib/profit';
+import { formatMoney } from '../lib/currency';
+import { agingBuckets, getAgeDays, getAgingBucket, type AgingBucket, type Disposition } from '../lib/aging';
+import { releaseExpiredReservations } from '../lib/sales';
+import { applyMarkdowns, loadSuggestions, type PriceSuggestion } from '../lib/pricing';
+import { fr } from '../lib/translations';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type RepriceMode = keyof typeof fr.aging.repriceModes;
+
+interface AgingInventoryProps {
+  bucket: AgingBucket | 'all';
+  onBucketChange: (bucket: AgingBucket | 'all') => void;
+}
+
+function AgingInventory({ bucket, onBucketChange }: AgingInventoryProps) {
+  const t = fr.aging;
+  const tc = fr.common;
+  const { can, workspace } = useWorkspace();
+  const baseCurrency = workspace.base_currency;
+  const showCosts = can('view_costs');
+  const canEdit = can('edit_inventory');
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [suggestions, setSuggestions] = useState<Record<string, PriceSuggestion>>({});
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [repriceMode, setRepriceMode] = useState<RepriceMode>('suggested');
+  const [repriceValue, setRepriceValue] = useState('');
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [bucket]);
+
+  // Oldest units first
+  const loadItems = async () => {
+    setLoading(true);
+    await releaseExpiredReservations();
+    await applyMarkdowns();
+
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('status', 'in_stock')
+      .order('purchase_date');
+
+    if (error) {
+      console.error('Error loading items:', error);
+    } else {
+      setItems(data || []);
+      setSuggestions(await loadSuggestions(data || [], workspace.target_margin_percent));
+    }
+    setSelectedIds([]);
+    setLoading(false);
+  };
+
+  const now = new Date();
+  const bucketOf = (item: InventoryItem) => getAgingBucket(getAgeDays(item, now));
+  const visibleItems = items.filter((item) => bucket === 'all' || bucketOf(item) === bucket);
+  const selectedItems = visibleItems.filter((item) => selectedIds.includes(item.id));
+  const allSelected = visibleItems.length > 0 && selectedItems.length === visibleItems.length;
+
+  const capitalOf = (units: InventoryItem[]) => units.reduce((sum, item) => sum + getLandedCost(item), 0);
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(selectedIds.includes(itemId)
+      ? selectedIds.filter((id) => id !== itemId)
+      : [...selectedIds, itemId]);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : visibleItems.map((item) => item.id));
+  };
+
+  // Percentage cuts apply to the asking price, or to the suggested price of
+  // units without one
+  const getNewPrice = (item: InventoryItem): number | null => {
+    const value = parseFloat(repriceValue);
+    switch (repriceMode) {
+      case 'suggested':
+        return suggestions[item.id]?.price ?? null;
+      case 'percent': {
+        const base = item.asking_price ?? suggestions[item.id]?.price;
+        return base === undefined ? null : Math.round(base * (1 - value / 100) * 100) / 100;
+      }
+      case 'fixed':
+        return value;
+    }
+  };
+
+  const handleReprice = async () => {
+    const value = parseFloat(repriceValue);
+    if (repriceMode === 'percent' && !(value > 0 && value < 100)) {
+      alert('La baisse doit être entre 0 et 100 %');
+      return;
+    }
+    if (repriceMode === 'fixed' && !(value >= 0)) {
+      alert('Le prix doit être un montant positif');
+      return;
+    }
+
+    const prices = selectedItems.flatMap((item) => {
+      const price = getNewPrice(item);
+      return price === null ? [] : [{ item, price }];
+    });
+
+    if (showCosts) {
+      const belowCost = prices.filter(({ item, price }) => price < getLandedCost(item));
+      if (belowCost.length > 0 && !window.confirm(
+        `${belowCost.length} unité(s) seront sous leur coût de revient (${belowCost.map(({ item }) => item.item_id).join(', ')}). Continuer?`
+      )) return;
+    }
+
+    const results = await Promise.all(prices.map(({ item, price }) =>
+      supabase
+        .from('inventory_items')
+        .update({ asking_price: price, updated_at: new Date().toISOString() })
+        .eq('id', item.id)
+    ));
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error('Error repricing items:', failed.error);
+      alert('Erreur lors du changement de prix de certaines unités');
+    }
+    setRepriceValue('');
+    loadItems();
+  };
+
+  const handleDisposition = async (disposition: Disposition | null) => {
+    const { error } = await supabase
+      .from('inventory_items')
+      .update({ disposition, updated_at: new Date().toISOString() })
+      .in('id', selectedItems.map((item) => item.id));
+
+    if (error) {
+      console.error('Error updating dispositions:', error);
+      alert('Erreur lors de la mise à jour des unités');
+    } else {
+      loadItems();
+    }
+  };
+
+  const bucketTiles: { key: AgingBucket | 'all'; label: string; background: string; text: string; units: InventoryItem[] }[] = [
+    { key: 'all', label: t.all, background: 'bg-gray-50', text: 'text-gray-900', units: items },
+    ...agingBuckets.map((agingBucket) => ({
+      key: agingBucket.key,
+      label: `${agingBucket.key} ${fr.dashboard.days}`,
+      background: agingBucket.background,
+      text: agingBucket.text,
+      units: items.filter((item) => bucketOf(item) === agingBucket.key),
+    })),
+  ];
+
+  return (
+    <div className="p-8 bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+          <p className="text-gray-600 mt-1">{t.subtitle}</p>
+          <p className="text-sm text-gray-600 italic mt-4">{t.helperText}</p>
+        </div>
+
+        <div className="grid grid-cols-5 gap-3 mb-6">
+          {bucketTiles.map((tile) => (
+            <button
+              key={tile.key}
+              onClick={() => onBucketChange(tile.key)}
+              className={`${tile.background} p-4 rounded-lg text-left transition-shadow ${
+                bucket === tile.key ? 'ring-2 ring-blue-500' : 'hover:ring-2 hover:ring-gray-300'
+              }`}
+            >
+              <p className="text-sm text-gray-600">{tile.label}</p>
+              <p className={`text-2xl font-bold ${tile.text}`}>{tile.units.length} <span className="text-sm font-medium">{t.units}</span></p>
+              {showCosts && (
+                <p className="text-xs text-gray-600 mt-1">
+                  {t.capitalTiedUp}: {formatMoney(capitalOf(tile.units), baseCurrency)}
+                </p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {canEdit && selectedItems.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-blue-900">
+              {selectedItems.length} {t.selected}
+              {showCosts && ` (${formatMoney(capitalOf(selectedItems), baseCurrency)})`}
+            </span>
+            <select
+              value={repriceMode}
+              onChange={(e) => setRepriceMode(e.target.value as RepriceMode)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(t.repriceModes) as RepriceMode[]).map((mode) => (
+                <option key={mode} value={mode}>{t.repriceModes[mode]}</option>
+              ))}
+            </select>
+            {repriceMode !== 'suggested' && (
+              <input
+                type="number"
+                value={repriceValue}
+                onChange={(e) => setRepriceValue(e.target.value)}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={repriceMode === 'percent' ? '10' : '0.00'}
+                min="0"
+                step={repriceMode === 'percent' ? '0.5' : '0.01'}
+              />
+            )}
+            <button
+              onClick={handleReprice}
+              className="flex items-center gap-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              <Tag size={16} />
+              {t.reprice}
+            </button>
+            <div className="flex gap-2 ml-auto">
+              <button
+                onClick={() => handleDisposition('clearance')}
+                className="bg-orange-100 text-orange-800 px-3 py-2 rounded-lg hover:bg-orange-200 transition-colors text-sm font-medium"
+              >
+                {t.moveToClearance}
+              </button>
+              <button
+                onClick={() => handleDisposition('wholesale')}
+                className="bg-purple-100 text-purple-800 px-3 py-2 rounded-lg hover:bg-purple-200 transition-colors text-sm font-medium"
+              >
+                {t.markForWholesale}
+              </button>
+              <button
+                onClick={() => handleDisposition(null)}
+                className="bg-gray-200 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-300 transition-colors text-sm font-medium"
+              >
+                {t.backToRetail}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+            <p className="text-gray-500">{tc.loading}...</p>
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    {canEdit && (
+                      <th className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={toggleAll}
+                          className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                        />
+                      </th>
+                    )}
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.inventory.itemId}</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.inventory.model}</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.daysInStock}</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.disposition}</th>
+                    {showCosts && (
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.inventory.cost}</th>
+                    )}
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.pricing.askingPrice}</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.pricing.suggestedPrice}</th>
+                    {showCosts && (
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.capitalTiedUp}</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleItems.map((item) => {
+                    const days = getAgeDays(item, now);
+                    const agingBucket = agingBuckets.find((candidate) => candidate.key === getAgingBucket(days))!;
+                    return (
+                      <tr key={item.id} className={selectedIds.includes(item.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                        {canEdit && (
+                          <td className="px-4 py-3 text-center">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(item.id)}
+                              onChange={() => toggleSelected(item.id)}
+                              className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                        )}
+                        <td className="px-4 py-3 text-sm font-mono font-semibold text-gray-900">{item.item_id}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-gray-900">{item.model_family} {item.screen_size}" {item.year}</div>
+                          <div className="text-gray-500">{item.chip} / {item.ram_gb}GB / {item.storage_gb}GB · Grade {item.condition_grade}</div>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <span className={`inline-flex px-2 py-1 text-sm font-semibold rounded ${agingBucket.background} ${agingBucket.text}`}>
+                            {days}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {item.disposition ? t.dispositions[item.disposition as Disposition] : t.retail}
+                        </td>
+                        {showCosts && (
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{formatMoney(item.purchase_cost, item.currency)}</td>
+                        )}
+                        <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                          {item.asking_price === null ? '-' : formatMoney(item.asking_price, baseCurrency)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-blue-600">
+                          {suggestions[item.id] ? formatMoney(suggestions[item.id].price, baseCurrency) : '-'}
+                        </td>
+                        {showCosts && (
+                          <td className="px-4 py-3 text-sm text-right text-gray-900">{formatMoney(getLandedCost(item), baseCurrency)}</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                  {visibleItems.length === 0 && (
+                    <tr>
+                      <td colSpan={6 + (canEdit ? 1 : 0) + (showCosts ? 2 : 0)} className="px-4 py-8 text-center text-gray-500">
+                        {t.noItems}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <footer className="mt-8 text-center text-sm text-gray-500">
+        {tc.footer}
+      </footer>
+    </div>
+  );
+}
+
+export default AgingInventory;
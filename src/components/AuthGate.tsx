@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { WorkspaceContext } from '../lib/workspace';
+import { can, type Role } from '../lib/permissions';
+import { fr } from '../lib/translations';
+import Login from './Login';
+
+type Workspace = Database['public']['Tables']['workspaces']['Row'];
+type Membership = { workspace: Workspace; role: Role };
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+function AuthGate({ children }: AuthGateProps) {
+  const tc = fr.common;
+  // undefined = still checking the stored session
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  // undefined = membership not loaded yet
+  const [membership, setMembership] = useState<Membership | null | undefined>(undefined);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setMembership(undefined);
+      return;
+    }
+
+    const loadWorkspace = async () => {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select(`
+          role,
+          workspaces (*)
+        `)
+        .eq('user_id', userId)
+        .order('created_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading workspace:', error);
+        setMembership(null);
+      } else {
+        setMembership(data?.workspaces ? { workspace: data.workspaces, role: data.role as Role } : null);
+      }
+    };
+
+    loadWorkspace();
+  }, [userId]);
+
+  if (session === undefined || (session && membership === undefined)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="text-gray-500">{tc.loading}...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Login />;
+  }
+
+  if (!membership) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-8 text-center max-w-md">
+          <p className="text-gray-700 mb-4">{fr.auth.noWorkspace}</p>
+          <button
+            onClick={() => supabase.auth.signOut()}
+            className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+          >
+            {fr.auth.signOut}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        session,
+        workspace: membership.workspace,
+        role: membership.role,
+        can: (permission) => can(membership.role, permission),
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export default AuthGate;
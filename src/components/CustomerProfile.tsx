@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { ArrowLeft, DollarSign, ShoppingBag } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { getLandedCost, getNetRevenue, getSaleProfit } from '../lib/profit';
+import { formatMoney } from '../lib/currency';
 
 type Customer = Database['public']['Tables']['customers']['Row'];
 type Sale = Database['public']['Tables']['sales']['Row'] & {
@@ -14,6 +17,10 @@ interface CustomerProfileProps {
 }
 
 function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
+  const { can, workspace } = useWorkspace();
+  const baseCurrency = workspace.base_currency;
+  const showCosts = can('view_costs');
+  const showProfit = can('view_profit');
   const [customer, setCustomer] = useState<Customer | null>(null);
   const [sales, setSales] = useState<Sale[]>([]);
   const [loading, setLoading] = useState(true);
@@ -67,10 +74,10 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
     );
   }
 
-  const totalSpent = sales.reduce((sum, sale) => sum + sale.sale_price, 0);
+  const totalSpent = sales.reduce((sum, sale) => sum + getNetRevenue(sale), 0);
   const totalProfit = sales.reduce((sum, sale) => {
     if (sale.inventory_items) {
-      return sum + (sale.sale_price - sale.inventory_items.purchase_cost);
+      return sum + getSaleProfit(sale, sale.inventory_items);
     }
     return sum;
   }, 0);
@@ -132,7 +139,7 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
           </div>
         </div>
 
-        <div className="grid grid-cols-4 gap-6 mb-8">
+        <div className={`grid ${showProfit ? 'grid-cols-4' : 'grid-cols-3'} gap-6 mb-8`}>
           <div className="bg-white rounded-lg shadow-md p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -147,21 +154,23 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Spent</p>
-                <p className="text-3xl font-bold text-gray-900 mt-2">${totalSpent.toFixed(2)}</p>
+                <p className="text-3xl font-bold text-gray-900 mt-2">{formatMoney(totalSpent, baseCurrency)}</p>
               </div>
               <DollarSign className="text-green-600" size={40} />
             </div>
           </div>
 
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">Total Profit</p>
-                <p className="text-3xl font-bold text-gray-900 mt-2">${totalProfit.toFixed(2)}</p>
+          {showProfit && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Total Profit</p>
+                  <p className="text-3xl font-bold text-gray-900 mt-2">{formatMoney(totalProfit, baseCurrency)}</p>
+                </div>
+                <DollarSign className="text-blue-600" size={40} />
               </div>
-              <DollarSign className="text-blue-600" size={40} />
             </div>
-          </div>
+          )}
 
           <div className="bg-white rounded-lg shadow-md p-6">
             <div>
@@ -188,15 +197,19 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Model
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Cost
-                  </th>
+                  {showCosts && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Cost
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Sale Price
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Profit
-                  </th>
+                  {showProfit && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Profit
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Channel
                   </th>
@@ -205,7 +218,7 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
               <tbody className="bg-white divide-y divide-gray-200">
                 {sales.map((sale) => {
                   const profit = sale.inventory_items
-                    ? sale.sale_price - sale.inventory_items.purchase_cost
+                    ? getSaleProfit(sale, sale.inventory_items)
                     : 0;
 
                   return (
@@ -223,17 +236,26 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
                           ? `${sale.inventory_items.model_family} ${sale.inventory_items.screen_size}"`
                           : 'N/A'}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        ${sale.inventory_items?.purchase_cost.toFixed(2) || '0.00'}
-                      </td>
+                      {showCosts && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatMoney(sale.inventory_items ? getLandedCost(sale.inventory_items) : 0, baseCurrency)}
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
-                        ${sale.sale_price.toFixed(2)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold">
-                        <span className={profit >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          ${profit.toFixed(2)}
-                        </span>
+                        {formatMoney(sale.sale_price, baseCurrency)}
+                        {sale.refund_total > 0 && (
+                          <p className="text-xs font-normal text-orange-600">
+                            Refunded: -{formatMoney(sale.refund_total, baseCurrency)}
+                          </p>
+                        )}
                       </td>
+                      {showProfit && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold">
+                          <span className={profit >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            {formatMoney(profit, baseCurrency)}
+                          </span>
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
                           {sale.channel}
@@ -244,7 +266,7 @@ function CustomerProfile({ customerId, onBack }: CustomerProfileProps) {
                 })}
                 {sales.length === 0 && (
                   <tr>
-                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={7 - (showCosts ? 0 : 1) - (showProfit ? 0 : 1)} className="px-6 py-8 text-center text-gray-500">
                       No purchase history found.
                     </td>
                   </tr>
@@ -3,15 +3,22 @@ import { Plus, Edit2, User } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
 import CustomerProfile from './CustomerProfile';
+import ExportMenu from './ExportMenu';
+import { useWorkspace } from '../lib/workspace';
+import { getNetRevenue } from '../lib/profit';
+import type { ExportColumn } from '../lib/export';
 import { fr } from '../lib/translations';
 
 type Customer = Database['public']['Tables']['customers']['Row'];
 type CustomerInsert = Database['public']['Tables']['customers']['Insert'];
+type CustomerSale = Pick<Database['public']['Tables']['sales']['Row'], 'customer_id' | 'sale_price' | 'refund_total' | 'unit_returned' | 'sale_date'>;
 
 function Customers() {
   const t = fr.customers;
   const tc = fr.common;
+  const { can } = useWorkspace();
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerSales, setCustomerSales] = useState<CustomerSale[]>([]);
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
@@ -25,6 +32,7 @@ function Customers() {
 
   useEffect(() => {
     loadCustomers();
+    loadCustomerSales();
   }, []);
 
   const loadCustomers = async () => {
@@ -40,6 +48,20 @@ function Customers() {
     }
   };
 
+  // Purchase totals for the export
+  const loadCustomerSales = async () => {
+    const { data, error } = await supabase
+      .from('sales')
+      .select('customer_id, sale_price, refund_total, unit_returned, sale_date')
+      .not('customer_id', 'is', null);
+
+    if (error) {
+      console.error('Error loading customer sales:', error);
+    } else {
+      setCustomerSales(data || []);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -126,6 +148,30 @@ function Customers() {
     { value: 'other', label: t.other },
   ];
 
+  const salesOf = (customer: Customer) => customerSales.filter((sale) => sale.customer_id === customer.id);
+
+  const exportColumns: ExportColumn<Customer>[] = [
+    { key: 'name', header: t.name, value: (customer) => customer.name },
+    { key: 'phone', header: t.phone, value: (customer) => customer.phone },
+    { key: 'email', header: t.email, value: (customer) => customer.email },
+    { key: 'customer_type', header: t.customerType, value: (customer) => customer.customer_type },
+    { key: 'source', header: t.source, value: (customer) => customer.source },
+    { key: 'ig_handle', header: t.igHandle, value: (customer) => customer.ig_handle },
+    { key: 'preferred_contact', header: t.preferredContact, value: (customer) => customer.preferred_contact },
+    { key: 'total_purchases', header: t.totalPurchases, value: (customer) => salesOf(customer).length },
+    {
+      key: 'total_spent',
+      header: t.totalSpent,
+      value: (customer) => salesOf(customer).reduce((sum, sale) => sum + getNetRevenue(sale), 0),
+    },
+    {
+      key: 'last_purchase',
+      header: t.lastPurchase,
+      value: (customer) => salesOf(customer).map((sale) => sale.sale_date).sort().pop(),
+    },
+    { key: 'notes', header: tc.notes, value: (customer) => customer.notes },
+  ];
+
   return (
     <div className="p-8 bg-white min-h-screen">
       <div className="max-w-7xl mx-auto">
@@ -135,15 +181,18 @@ function Customers() {
               <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
               <p className="text-gray-600 mt-1">{t.subtitle}</p>
             </div>
-            {!isAddingNew && !editingId && (
-              <button
-                onClick={() => setIsAddingNew(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-              >
-                <Plus size={18} />
-                {t.addCustomer}
-              </button>
-            )}
+            <div className="flex gap-3">
+              <ExportMenu name="clients" columns={exportColumns} rows={customers} />
+              {!isAddingNew && !editingId && can('manage_customers') && (
+                <button
+                  onClick={() => setIsAddingNew(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Plus size={18} />
+                  {t.addCustomer}
+                </button>
+              )}
+            </div>
           </div>
           <p className="text-sm text-gray-600 italic">{t.helperText}</p>
         </div>
@@ -342,12 +391,14 @@ function Customers() {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    <button
-                      onClick={() => handleEdit(customer)}
-                      className="text-blue-600 hover:text-blue-800"
-                    >
-                      <Edit2 size={18} />
-                    </button>
+                    {can('manage_customers') && (
+                      <button
+                        onClick={() => handleEdit(customer)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        <Edit2 size={18} />
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -2,6 +2,11 @@ import { useState, useEffect } from 'react';
 import { DollarSign, Package, ShoppingCart, TrendingUp, Users } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { getLandedCost, getNetRevenue, getSaleProfit } from '../lib/profit';
+import { formatMoney } from '../lib/currency';
+import { releaseExpiredReservations } from '../lib/sales';
+import { agingBuckets, getAgeDays, getAgingBucket, type AgingBucket } from '../lib/aging';
 import { fr } from '../lib/translations';
 import TargetWidget from './TargetWidget';
 
@@ -9,15 +14,23 @@ type InventoryItem = Database['public']['Tables']['inventory_items']['Row'] & {
   suppliers?: Database['public']['Tables']['suppliers']['Row'];
 };
 type Sale = Database['public']['Tables']['sales']['Row'] & {
-  inventory_items?: Database['public']['Tables']['inventory_items']['Row'];
-  customers?: Database['public']['Tables']['customers']['Row'];
+  inventory_items?: Database['public']['Tables']['inventory_items']['Row'] | null;
+  customers?: Database['public']['Tables']['customers']['Row'] | null;
 };
 
 type DateRange = 'today' | 'week' | 'month' | 'last_month' | 'all';
 
-function Dashboard() {
+interface DashboardProps {
+  onOpenAging?: (bucket: AgingBucket) => void;
+}
+
+function Dashboard({ onOpenAging }: DashboardProps) {
   const t = fr.dashboard;
   const tc = fr.common;
+  const { can, workspace } = useWorkspace();
+  const baseCurrency = workspace.base_currency;
+  const showProfit = can('view_profit');
+  const showCosts = can('view_costs');
   const [dateRange, setDateRange] = useState<DateRange>('month');
   const [sales, setSales] = useState<Sale[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
@@ -48,6 +61,7 @@ function Dashboard() {
 
   const loadData = async () => {
     setLoading(true);
+    await releaseExpiredReservations();
 
     let salesQuery = supabase
       .from('sales')
@@ -88,14 +102,15 @@ function Dashboard() {
   };
 
   const calculateStats = () => {
-    const totalRevenue = sales.reduce((sum, sale) => sum + sale.sale_price, 0);
+    const totalRevenue = sales.reduce((sum, sale) => sum + getNetRevenue(sale), 0);
     const totalProfit = sales.reduce((sum, sale) => {
       if (sale.inventory_items) {
-        return sum + (sale.sale_price - sale.inventory_items.purchase_cost);
+        return sum + getSaleProfit(sale, sale.inventory_items);
       }
       return sum;
     }, 0);
-    const unitsSold = sales.length;
+    // A returned unit is no longer sold, even though its sale stays in the history
+    const unitsSold = sales.filter(sale => !sale.unit_returned).length;
     const avgMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
 
     return { totalRevenue, totalProfit, unitsSold, avgMargin };
@@ -107,15 +122,15 @@ function Dashboard() {
     sales.forEach(sale => {
       if (sale.inventory_items) {
         const model = `${sale.inventory_items.model_family} ${sale.inventory_items.screen_size}"`;
-        const profit = sale.sale_price - sale.inventory_items.purchase_cost;
+        const profit = getSaleProfit(sale, sale.inventory_items);
 
         if (!modelStats[model]) {
           modelStats[model] = { units: 0, profit: 0, margin: 0, revenue: 0 };
         }
 
-        modelStats[model].units += 1;
+        modelStats[model].units += sale.unit_returned ? 0 : 1;
         modelStats[model].profit += profit;
-        modelStats[model].revenue += sale.sale_price;
+        modelStats[model].revenue += getNetRevenue(sale);
       }
     });
 
@@ -142,7 +157,7 @@ function Dashboard() {
     sales.forEach(sale => {
       if (sale.inventory_items && sale.inventory_items.suppliers) {
         const supplierName = sale.inventory_items.suppliers.supplier_name;
-        const profit = sale.sale_price - sale.inventory_items.purchase_cost;
+        const profit = getSaleProfit(sale, sale.inventory_items);
         const purchaseDate = new Date(sale.inventory_items.purchase_date);
         const saleDate = new Date(sale.sale_date);
         const daysToSell = Math.floor((saleDate.getTime() - purchaseDate.getTime()) / (1000 * 60 * 60 * 24));
@@ -151,10 +166,12 @@ function Dashboard() {
           supplierStats[supplierName] = { units: 0, profit: 0, margin: 0, revenue: 0, avgDays: 0, totalDays: 0 };
         }
 
-        supplierStats[supplierName].units += 1;
         supplierStats[supplierName].profit += profit;
-        supplierStats[supplierName].revenue += sale.sale_price;
-        supplierStats[supplierName].totalDays += daysToSell;
+        supplierStats[supplierName].revenue += getNetRevenue(sale);
+        if (!sale.unit_returned) {
+          supplierStats[supplierName].units += 1;
+          supplierStats[supplierName].totalDays += daysToSell;
+        }
       }
     });
 
@@ -175,14 +192,14 @@ function Dashboard() {
     sales.forEach(sale => {
       if (sale.customers) {
         const customerName = sale.customers.name;
-        const profit = sale.inventory_items ? sale.sale_price - sale.inventory_items.purchase_cost : 0;
+        const profit = sale.inventory_items ? getSaleProfit(sale, sale.inventory_items) : 0;
 
         if (!customerStats[customerName]) {
           customerStats[customerName] = { purchases: 0, spent: 0, profit: 0, lastPurchase: sale.sale_date };
         }
 
         customerStats[customerName].purchases += 1;
-        customerStats[customerName].spent += sale.sale_price;
+        customerStats[customerName].spent += getNetRevenue(sale);
         customerStats[customerName].profit += profit;
 
         if (new Date(sale.sale_date) > new Date(customerStats[customerName].lastPurchase)) {
@@ -198,9 +215,9 @@ function Dashboard() {
 
   const getInventoryStats = () => {
     const inStock = inventory.filter(item => item.status === 'in_stock');
-    const totalValue = inStock.reduce((sum, item) => sum + item.purchase_cost, 0);
+    const totalValue = inStock.reduce((sum, item) => sum + getLandedCost(item), 0);
 
-    const agingBuckets = {
+    const bucketCounts: Record<AgingBucket, number> = {
       '0-30': 0,
       '31-60': 0,
       '61-90': 0,
@@ -209,13 +226,7 @@ function Dashboard() {
 
     const now = new Date();
     inStock.forEach(item => {
-      const purchaseDate = new Date(item.purchase_date);
-      const days = Math.floor((now.getTime() - purchaseDate.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (days <= 30) agingBuckets['0-30'] += 1;
-      else if (days <= 60) agingBuckets['31-60'] += 1;
-      else if (days <= 90) agingBuckets['61-90'] += 1;
-      else agingBuckets['90+'] += 1;
+      bucketCounts[getAgingBucket(getAgeDays(item, now))] += 1;
     });
 
     const modelCounts: Record<string, { count: number; value: number }> = {};
@@ -225,13 +236,13 @@ function Dashboard() {
         modelCounts[model] = { count: 0, value: 0 };
       }
       modelCounts[model].count += 1;
-      modelCounts[model].value += item.purchase_cost;
+      modelCounts[model].value += getLandedCost(item);
     });
 
     return {
       totalUnits: inStock.length,
       totalValue,
-      agingBuckets,
+      agingBuckets: bucketCounts,
       modelCounts: Object.entries(modelCounts).sort((a, b) => b[1].count - a[1].count),
     };
   };
@@ -261,12 +272,7 @@ function Dashboard() {
           <p className="text-2xl text-gray-700 mb-2">{t.greeting}</p>
         </div>
         {/* Widget Targets */}
-<TargetWidget
-  revenue={stats.totalRevenue}
-  profit={stats.totalProfit}
-  units={stats.unitsSold}
-  margin={stats.avgMargin}
-/>
+        <TargetWidget />
 
         <div className="flex justify-between items-center mb-8">
           <div>
@@ -288,28 +294,30 @@ function Dashboard() {
           </div>
         </div>
 
-        <div className="grid grid-cols-4 gap-6 mb-8">
+        <div className={`grid ${showProfit ? 'grid-cols-4' : 'grid-cols-2'} gap-6 mb-8`}>
           <div className="bg-white border border-gray-200 rounded-lg p-6">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">{fr.sales.totalRevenue}</p>
                 {dateRange === 'month' && <p className="text-xs text-gray-500">{t.period}</p>}
-                <p className="text-3xl font-bold text-gray-900 mt-2">${stats.totalRevenue.toFixed(2)}</p>
+                <p className="text-3xl font-bold text-gray-900 mt-2">{formatMoney(stats.totalRevenue, baseCurrency)}</p>
               </div>
               <DollarSign className="text-green-600" size={40} />
             </div>
           </div>
 
+          {showProfit && (
           <div className="bg-white border border-gray-200 rounded-lg p-6">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">{fr.sales.totalProfit}</p>
                 {dateRange === 'month' && <p className="text-xs text-gray-500">{t.period}</p>}
-                <p className="text-3xl font-bold text-gray-900 mt-2">${stats.totalProfit.toFixed(2)}</p>
+                <p className="text-3xl font-bold text-gray-900 mt-2">{formatMoney(stats.totalProfit, baseCurrency)}</p>
               </div>
               <TrendingUp className="text-blue-600" size={40} />
             </div>
           </div>
+          )}
 
           <div className="bg-white border border-gray-200 rounded-lg p-6">
             <div className="flex items-center justify-between">
@@ -322,6 +330,7 @@ function Dashboard() {
             </div>
           </div>
 
+          {showProfit && (
           <div className="bg-white border border-gray-200 rounded-lg p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -332,8 +341,10 @@ function Dashboard() {
               <TrendingUp className="text-green-600" size={40} />
             </div>
           </div>
+          )}
         </div>
 
+        {showProfit && (
         <div className="grid grid-cols-2 gap-6 mb-8">
           <div className="bg-white border border-gray-200 rounded-lg p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">{t.topModelsByProfit}</h2>
@@ -352,7 +363,7 @@ function Dashboard() {
                     <tr key={idx}>
                       <td className="px-4 py-3 text-sm text-gray-900">{model}</td>
                       <td className="px-4 py-3 text-sm text-gray-900">{data.units}</td>
-                      <td className="px-4 py-3 text-sm font-semibold text-green-600">${data.profit.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm font-semibold text-green-600">{formatMoney(data.profit, baseCurrency)}</td>
                       <td className="px-4 py-3 text-sm text-gray-900">{data.margin.toFixed(1)}%</td>
                     </tr>
                   ))}
@@ -385,7 +396,7 @@ function Dashboard() {
                     <tr key={idx}>
                       <td className="px-4 py-3 text-sm text-gray-900">{supplier}</td>
                       <td className="px-4 py-3 text-sm text-gray-900">{data.units}</td>
-                      <td className="px-4 py-3 text-sm font-semibold text-green-600">${data.profit.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm font-semibold text-green-600">{formatMoney(data.profit, baseCurrency)}</td>
                       <td className="px-4 py-3 text-sm text-gray-900">{data.avgDays}</td>
                     </tr>
                   ))}
@@ -401,6 +412,7 @@ function Dashboard() {
             </div>
           </div>
         </div>
+        )}
 
         <div className="grid grid-cols-2 gap-6 mb-8">
           <div className="bg-white border border-gray-200 rounded-lg p-6">
@@ -412,7 +424,9 @@ function Dashboard() {
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{fr.sales.customer}</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{t.purchases}</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{t.spent}</th>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{fr.sales.profit}</th>
+                    {showProfit && (
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{fr.sales.profit}</th>
+                    )}
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
@@ -420,13 +434,15 @@ function Dashboard() {
                     <tr key={idx}>
                       <td className="px-4 py-3 text-sm text-gray-900">{customer}</td>
                       <td className="px-4 py-3 text-sm text-gray-900">{data.purchases}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900">${data.spent.toFixed(2)}</td>
-                      <td className="px-4 py-3 text-sm font-semibold text-green-600">${data.profit.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{formatMoney(data.spent, baseCurrency)}</td>
+                      {showProfit && (
+                        <td className="px-4 py-3 text-sm font-semibold text-green-600">{formatMoney(data.profit, baseCurrency)}</td>
+                      )}
                     </tr>
                   ))}
                   {topCustomers.length === 0 && (
                     <tr>
-                      <td colSpan={4} className="px-4 py-6 text-center text-gray-500 text-sm">
+                      <td colSpan={showProfit ? 4 : 3} className="px-4 py-6 text-center text-gray-500 text-sm">
                         {t.noData}
                       </td>
                     </tr>
@@ -447,31 +463,27 @@ function Dashboard() {
                     <p className="text-2xl font-bold text-gray-900">{inventoryStats.totalUnits}</p>
                   </div>
                 </div>
-                <div className="text-right">
-                  <p className="text-sm font-medium text-gray-600">{t.totalValue}</p>
-                  <p className="text-2xl font-bold text-gray-900">${inventoryStats.totalValue.toFixed(2)}</p>
-                </div>
+                {showCosts && (
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-600">{t.totalValue}</p>
+                    <p className="text-2xl font-bold text-gray-900">{formatMoney(inventoryStats.totalValue, baseCurrency)}</p>
+                  </div>
+                )}
               </div>
 
               <div>
                 <p className="text-sm font-medium text-gray-700 mb-2">{t.inventoryAging}</p>
                 <div className="grid grid-cols-2 gap-2">
-                  <div className="bg-green-50 p-3 rounded">
-                    <p className="text-xs text-gray-600">0-30 {t.days}</p>
-                    <p className="text-lg font-semibold text-green-700">{inventoryStats.agingBuckets['0-30']}</p>
-                  </div>
-                  <div className="bg-yellow-50 p-3 rounded">
-                    <p className="text-xs text-gray-600">31-60 {t.days}</p>
-                    <p className="text-lg font-semibold text-yellow-700">{inventoryStats.agingBuckets['31-60']}</p>
-                  </div>
-                  <div className="bg-orange-50 p-3 rounded">
-                    <p className="text-xs text-gray-600">61-90 {t.days}</p>
-                    <p className="text-lg font-semibold text-orange-700">{inventoryStats.agingBuckets['61-90']}</p>
-                  </div>
-                  <div className="bg-red-50 p-3 rounded">
-                    <p className="text-xs text-gray-600">90+ {t.days}</p>
-                    <p className="text-lg font-semibold text-red-700">{inventoryStats.agingBuckets['90+']}</p>
-                  </div>
+                  {agingBuckets.map((bucket) => (
+                    <button
+                      key={bucket.key}
+                      onClick={() => onOpenAging?.(bucket.key)}
+                      className={`${bucket.background} p-3 rounded text-left hover:ring-2 hover:ring-gray-300 transition-shadow`}
+                    >
+                      <p className="text-xs text-gray-600">{bucket.key} {t.days}</p>
+                      <p className={`text-lg font-semibold ${bucket.text}`}>{inventoryStats.agingBuckets[bucket.key]}</p>
+                    </button>
+                  ))}
                 </div>
               </div>
             </div>
@@ -486,7 +498,9 @@ function Dashboard() {
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">{fr.inventory.model}</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.unitsInStock}</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.totalCostValue}</th>
+                  {showCosts && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.totalCostValue}</th>
+                  )}
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
@@ -494,12 +508,14 @@ function Dashboard() {
                   <tr key={idx}>
                     <td className="px-6 py-4 text-sm text-gray-900">{model}</td>
                     <td className="px-6 py-4 text-sm text-gray-900">{data.count}</td>
-                    <td className="px-6 py-4 text-sm font-semibold text-gray-900">${data.value.toFixed(2)}</td>
+                    {showCosts && (
+                      <td className="px-6 py-4 text-sm font-semibold text-gray-900">{formatMoney(data.value, baseCurrency)}</td>
+                    )}
                   </tr>
                 ))}
                 {inventoryStats.modelCounts.length === 0 && (
                   <tr>
-                    <td colSpan={3} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={showCosts ? 3 : 2} className="px-6 py-8 text-center text-gray-500">
                       {t.noInventory}
                     </td>
                   </tr>
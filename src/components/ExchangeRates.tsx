@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Plus, Trash2, Upload } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { currencies } from '../lib/currency';
+import { parseCsv } from '../lib/csv';
+import { fr } from '../lib/translations';
+
+type ExchangeRate = Database['public']['Tables']['exchange_rates']['Row'];
+type ExchangeRateInsert = Database['public']['Tables']['exchange_rates']['Insert'];
+type RateSource = keyof typeof fr.settings.rateSources;
+
+function ExchangeRates() {
+  const t = fr.settings;
+  const tc = fr.common;
+  const { workspace } = useWorkspace();
+  const baseCurrency = workspace.base_currency;
+  const foreignCurrencies = currencies.filter((currency) => currency !== baseCurrency);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [currenciesInUse, setCurrenciesInUse] = useState<string[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState<ExchangeRateInsert>({
+    currency: foreignCurrencies[0],
+    rate_date: new Date().toISOString().split('T')[0],
+    rate: 0,
+  });
+
+  useEffect(() => {
+    loadRates();
+    loadCurrenciesInUse();
+  }, []);
+
+  const loadRates = async () => {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('rate_date', { ascending: false });
+
+    if (error) {
+      console.error('Error loading exchange rates:', error);
+    } else {
+      setRates(data || []);
+    }
+  };
+
+  const loadCurrenciesInUse = async () => {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('currency')
+      .neq('currency', baseCurrency);
+
+    if (error) {
+      console.error('Error loading item currencies:', error);
+    } else {
+      setCurrenciesInUse([...new Set((data || []).map((item) => item.currency))]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.rate || formData.rate <= 0) {
+      alert('Veuillez entrer un taux supérieur à zéro');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert([{ ...formData, source: 'manual' }], { onConflict: 'workspace_id,currency,rate_date' });
+
+    if (error) {
+      console.error('Error saving exchange rate:', error);
+      alert('Erreur lors de l\'enregistrement du taux');
+    } else {
+      setIsAdding(false);
+      loadRates();
+    }
+  };
+
+  // Expects a header row with currency, date and rate columns, in any order
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const [header, ...rows] = parseCsv(await file.text());
+    const columns = (header || []).map((name) => name.trim().toLowerCase());
+    const currencyIndex = columns.indexOf('currency');
+    const dateIndex = columns.indexOf('date');
+    const rateIndex = columns.indexOf('rate');
+
+    if (currencyIndex < 0 || dateIndex < 0 || rateIndex < 0) {
+      alert('Le fichier doit avoir les colonnes currency, date et rate');
+      return;
+    }
+
+    // A later row for the same currency and day wins
+    const importedByDay = new Map<string, ExchangeRateInsert>();
+    const rejected: number[] = [];
+    rows.forEach((row, index) => {
+      const currency = (row[currencyIndex] || '').trim().toUpperCase();
+      const rateDate = (row[dateIndex] || '').trim();
+      const rate = parseFloat((row[rateIndex] || '').trim().replace(',', '.'));
+
+      if (!/^[A-Z]{3}$/.test(currency) || !/^\d{4}-\d{2}-\d{2}$/.test(rateDate) || !(rate > 0)) {
+        rejected.push(index + 2);
+      } else {
+        importedByDay.set(`${currency}|${rateDate}`, { currency, rate_date: rateDate, rate, source: 'csv' });
+      }
+    });
+    const imported = [...importedByDay.values()];
+
+    if (imported.length === 0) {
+      alert('Aucun taux valide dans ce fichier');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(imported, { onConflict: 'workspace_id,currency,rate_date' });
+
+    if (error) {
+      console.error('Error importing exchange rates:', error);
+      alert('Erreur lors de l\'import des taux');
+    } else {
+      alert(
+        `✅ ${imported.length} ${t.ratesImported}` +
+        (rejected.length > 0 ? `\n${t.rowsRejected}: ${rejected.join(', ')}` : '')
+      );
+      loadRates();
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!window.confirm('Supprimer ce taux? Les coûts dans cette devise seront reconvertis.')) return;
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', rate.id);
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      alert('Erreur lors de la suppression du taux');
+    } else {
+      loadRates();
+    }
+  };
+
+  const missingRates = currenciesInUse.filter((currency) => !rates.some((rate) => rate.currency === currency));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold">{t.exchangeRates}</h2>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium cursor-pointer">
+            <Upload size={16} />
+            {t.importCsv}
+            <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+          </label>
+          {!isAdding && (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+              <Plus size={16} />
+              {t.addRate}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">{t.exchangeRatesHelper}</p>
+
+      {missingRates.length > 0 && (
+        <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4 text-sm text-amber-800">
+          <AlertTriangle size={18} />
+          {t.missingRates}: {missingRates.join(', ')}
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.currency}</label>
+              <select
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {foreignCurrencies.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.rateDate}</label>
+              <input
+                type="date"
+                value={formData.rate_date}
+                onChange={(e) => setFormData({ ...formData, rate_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                1 {formData.currency} = ? {baseCurrency}
+              </label>
+              <input
+                type="number"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                step="0.000001"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {tc.save}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {tc.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b border-gray-200">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.rateDate}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.currency}</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.rate}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.rateSource}</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rates.map((rate) => (
+            <tr key={rate.id}>
+              <td className="px-4 py-2 text-sm text-gray-900">
+                {new Date(rate.rate_date).toLocaleDateString('fr-FR')}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-900">{rate.currency}</td>
+              <td className="px-4 py-2 text-sm text-right text-gray-900">
+                1 {rate.currency} = {rate.rate} {baseCurrency}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-600">
+                {t.rateSources[rate.source as RateSource] || rate.source}
+              </td>
+              <td className="px-4 py-2 text-right w-8">
+                <button
+                  onClick={() => handleDelete(rate)}
+                  className="text-red-600 hover:text-red-800"
+                  title={tc.delete}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </td>
+            </tr>
+          ))}
+          {rates.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-4 py-4 text-sm text-gray-500">{t.noRates}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ExchangeRates;
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { exportFormats, exportRows, type ExportColumn, type ExportFormat } from '../lib/export';
+import { fr } from '../lib/translations';
+
+interface ExportMenuProps<T> {
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+function ExportMenu<T>({ name, columns, rows }: ExportMenuProps<T>) {
+  const t = fr.export;
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    exportRows(format, name, columns, rows);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={rows.length === 0}
+        className="flex items-center gap-2 bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+        title={`${rows.length} ${t.rows}`}
+      >
+        <Download size={18} />
+        {t.export}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-40 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+          {exportFormats.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {t.formats[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Plus, Search, Filter } from 'lucide-react';
+import { Plus, Search, Filter, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
 import InventoryItemForm from './InventoryItemForm';
+import InventoryImport from './InventoryImport';
 import InventoryList from './InventoryList';
+import { useWorkspace } from '../lib/workspace';
 import { fr } from '../lib/translations';
 
 type Supplier = Database['public']['Tables']['suppliers']['Row'];
@@ -13,8 +15,10 @@ type InventoryTab = 'in_stock' | 'sold';
 
 function Inventory() {
   const t = fr.inventory;
+  const { can } = useWorkspace();
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [isAddingItem, setIsAddingItem] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -41,6 +45,7 @@ function Inventory() {
 
   const handleItemSaved = () => {
     setIsAddingItem(false);
+    setIsImporting(false);
     setEditingItem(null);
     setRefreshTrigger(prev => prev + 1);
   };
@@ -48,10 +53,12 @@ function Inventory() {
   const handleEdit = (item: InventoryItem) => {
     setEditingItem(item);
     setIsAddingItem(false);
+    setIsImporting(false);
   };
 
   const handleCancel = () => {
     setIsAddingItem(false);
+    setIsImporting(false);
     setEditingItem(null);
   };
 
@@ -91,19 +98,36 @@ function Inventory() {
               <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
               <p className="text-gray-600 mt-1">{t.subtitle}</p>
             </div>
-            {!isAddingItem && !editingItem && (
-              <button
-                onClick={() => setIsAddingItem(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-              >
-                <Plus size={18} />
-                {t.addItem}
-              </button>
+            {!isAddingItem && !isImporting && !editingItem && can('create_inventory') && (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setIsImporting(true)}
+                  className="flex items-center gap-2 bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 transition-colors font-medium"
+                >
+                  <Upload size={18} />
+                  {fr.inventoryImport.importCsv}
+                </button>
+                <button
+                  onClick={() => setIsAddingItem(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Plus size={18} />
+                  {t.addItem}
+                </button>
+              </div>
             )}
           </div>
           <p className="text-sm text-gray-600 italic">{t.helperText}</p>
         </div>
 
+        {isImporting && (
+          <InventoryImport
+            suppliers={suppliers}
+            onCancel={handleCancel}
+            onSuccess={handleItemSaved}
+          />
+        )}
+
         {(isAddingItem || editingItem) && (
           <InventoryItemForm
             suppliers={suppliers}
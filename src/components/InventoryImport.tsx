@@ -0,0 +1,375 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Check, Upload } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { detectDelimiter, parseCsv } from '../lib/csv';
+import { formatMoney } from '../lib/currency';
+import {
+  buildImportRows,
+  guessMapping,
+  optionalFields,
+  requiredFields,
+  type ImportField,
+  type ImportMapping,
+  type ImportRow,
+} from '../lib/inventoryImport';
+import { fr } from '../lib/translations';
+
+type Supplier = Database['public']['Tables']['suppliers']['Row'];
+type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'];
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+interface InventoryImportProps {
+  suppliers: Supplier[];
+  onCancel: () => void;
+  onSuccess: () => void;
+}
+
+function InventoryImport({ suppliers, onCancel, onSuccess }: InventoryImportProps) {
+  const t = fr.inventoryImport;
+  const ti = fr.inventory;
+  const tc = fr.common;
+  const { workspace } = useWorkspace();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [supplierId, setSupplierId] = useState('');
+  const [poId, setPoId] = useState('');
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [purchaseDate, setPurchaseDate] = useState(new Date().toISOString().split('T')[0]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const fieldLabels: Record<ImportField, string> = {
+    supplier_item_number: ti.supplierItemNumber,
+    model_family: ti.modelFamily,
+    screen_size: ti.screenSize,
+    chip: ti.chip,
+    ram_gb: ti.ram,
+    storage_gb: ti.storage,
+    year: ti.year,
+    serial_number: ti.serialNumber,
+    color: ti.color,
+    keyboard_layout: ti.keyboardLayout,
+    os_installed: ti.osInstalled,
+    condition_grade: ti.conditionGrade,
+    condition_summary: ti.conditionSummary,
+    battery_cycle_count: ti.batteryCycleCount,
+    battery_health_percent: ti.batteryHealth,
+    purchase_cost: ti.purchaseCost,
+    purchase_date: ti.purchaseDate,
+    notes: tc.notes,
+  };
+
+  useEffect(() => {
+    setPoId('');
+    if (supplierId) {
+      loadPurchaseOrders(supplierId);
+    } else {
+      setPurchaseOrders([]);
+    }
+  }, [supplierId]);
+
+  const loadPurchaseOrders = async (id: string) => {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select('*')
+      .eq('supplier_id', id)
+      .neq('status', 'cancelled')
+      .order('order_date', { ascending: false });
+
+    if (error) {
+      console.error('Error loading POs:', error);
+    } else {
+      setPurchaseOrders(data || []);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!supplierId) {
+      alert('Veuillez sélectionner un fournisseur avant le fichier');
+      return;
+    }
+
+    const text = await file.text();
+    const [header, ...dataRows] = parseCsv(text, detectDelimiter(text));
+
+    if (!header || dataRows.length === 0) {
+      alert('Le fichier est vide ou n\'a qu\'une ligne d\'en-tête');
+      return;
+    }
+
+    setHeaders(header.map((name) => name.trim()));
+    setRows(dataRows);
+    setMapping(guessMapping(header));
+    setStep('map');
+  };
+
+  const handlePreview = async () => {
+    if (!mapping) return;
+
+    const missing = requiredFields.filter((field) => mapping[field] === null);
+    if (missing.length > 0) {
+      alert(`Champs requis sans colonne: ${missing.map((field) => fieldLabels[field]).join(', ')}`);
+      return;
+    }
+
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    if (!supplier) return;
+
+    const itemIds = rows.map((row) => `${supplier.supplier_code}${(row[mapping.supplier_item_number as number] || '').trim()}`);
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('item_id')
+      .in('item_id', itemIds);
+
+    if (error) {
+      console.error('Error checking existing items:', error);
+      alert('Erreur lors de la vérification des articles existants');
+      return;
+    }
+
+    const { data: models, error: modelsError } = await supabase
+      .from('models')
+      .select('*');
+
+    if (modelsError) {
+      console.error('Error loading models:', modelsError);
+      alert('Erreur lors du chargement du catalogue de modèles');
+      return;
+    }
+
+    const po = purchaseOrders.find((p) => p.id === poId);
+    setImportRows(buildImportRows(
+      rows,
+      mapping,
+      {
+        supplierId,
+        supplierCode: supplier.supplier_code,
+        poId: po ? po.id : null,
+        currency: po ? po.currency : supplier.currency,
+        purchaseDate,
+      },
+      new Set((data || []).map((item) => item.item_id)),
+      models || []
+    ));
+    setStep('preview');
+  };
+
+  const validRows = importRows.filter((row) => row.errors.length === 0);
+  const invalidCount = importRows.length - validRows.length;
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    if (invalidCount > 0 && !window.confirm(`${invalidCount} ligne(s) avec erreurs seront ignorées. Continuer?`)) return;
+
+    setIsImporting(true);
+    const { error } = await supabase
+      .from('inventory_items')
+      .insert(validRows.map((row) => row.item));
+    setIsImporting(false);
+
+    if (error) {
+      console.error('Error importing items:', error);
+      alert('Erreur lors de l\'import. Aucun article n\'a été ajouté.');
+    } else {
+      alert(`✅ ${validRows.length} ${t.imported}`);
+      onSuccess();
+    }
+  };
+
+  const renderFieldSelect = (field: ImportField) => (
+    <div key={field}>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{fieldLabels[field]}</label>
+      <select
+        value={mapping?.[field] ?? ''}
+        onChange={(e) => mapping && setMapping({ ...mapping, [field]: e.target.value === '' ? null : parseInt(e.target.value) })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{t.notProvided}</option>
+        {headers.map((header, index) => (
+          <option key={index} value={index}>{header || `#${index + 1}`}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const selectedPo = purchaseOrders.find((p) => p.id === poId);
+  const currency = selectedPo?.currency || suppliers.find((s) => s.id === supplierId)?.currency || workspace.base_currency;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-2">{t.title}</h2>
+      <p className="text-sm text-gray-600 italic mb-4">{t.helperText}</p>
+
+      {step === 'upload' && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{ti.supplier} *</label>
+            <select
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{ti.selectSupplier}</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>
+                  {supplier.supplier_code} - {supplier.supplier_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{ti.purchaseOrder}</label>
+            <select
+              value={poId}
+              onChange={(e) => setPoId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={!supplierId}
+            >
+              <option value="">{ti.noPO}</option>
+              {purchaseOrders.map((po) => (
+                <option key={po.id} value={po.id}>
+                  {po.po_number} - {new Date(po.order_date).toLocaleDateString('fr-FR')} ({po.currency})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.defaultPurchaseDate}</label>
+            <input
+              type="date"
+              value={purchaseDate}
+              onChange={(e) => setPurchaseDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">{t.defaultPurchaseDateHelper}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.file} *</label>
+            <label className={`flex items-center justify-center gap-2 px-3 py-2 border border-dashed rounded-md font-medium ${
+              supplierId ? 'border-blue-400 text-blue-600 hover:bg-blue-50 cursor-pointer' : 'border-gray-300 text-gray-400'
+            }`}>
+              <Upload size={18} />
+              {t.importCsv}
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" disabled={!supplierId} />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="mb-4">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">{t.mapping}</h3>
+          <p className="text-sm text-gray-600 mb-4">{t.mappingHelper} ({rows.length} {t.rows})</p>
+          <p className="text-sm font-medium text-gray-900 mb-2">{t.required}</p>
+          <div className="grid grid-cols-4 gap-3 mb-4">
+            {requiredFields.map(renderFieldSelect)}
+          </div>
+          <p className="text-sm font-medium text-gray-900 mb-2">{t.optional}</p>
+          <div className="grid grid-cols-4 gap-3">
+            {optionalFields.map(renderFieldSelect)}
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="mb-4">
+          <div className="flex gap-4 mb-4 text-sm">
+            <span className="inline-flex items-center gap-1 text-green-700 font-medium">
+              <Check size={16} />
+              {validRows.length} {t.validRows}
+            </span>
+            {invalidCount > 0 && (
+              <span className="inline-flex items-center gap-1 text-red-700 font-medium">
+                <AlertTriangle size={16} />
+                {invalidCount} {t.invalidRows}
+              </span>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.line}</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.itemId}</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.model}</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.specs}</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.condition}</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.cost}</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.errors}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {importRows.map((row) => (
+                  <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                    <td className="px-4 py-2 text-sm text-gray-500">{row.line}</td>
+                    <td className="px-4 py-2 text-sm font-mono text-gray-900">{row.item.item_id}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {row.item.model_family} {row.item.screen_size && `${row.item.screen_size}"`} {row.item.year || ''}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {row.item.chip} / {row.item.ram_gb || '?'}GB / {row.item.storage_gb || '?'}GB
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">Grade {row.item.condition_grade}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">
+                      {Number.isNaN(row.item.purchase_cost) ? '-' : formatMoney(row.item.purchase_cost, currency)}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-red-700">
+                      {row.errors.map((error) => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {step === 'map' && (
+          <button
+            onClick={handlePreview}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            {t.preview}
+          </button>
+        )}
+        {step === 'preview' && (
+          <>
+            <button
+              onClick={handleImport}
+              disabled={validRows.length === 0 || isImporting}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {t.importRows} {validRows.length} {t.rows}
+            </button>
+            <button
+              onClick={() => setStep('map')}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {t.back}
+            </button>
+          </>
+        )}
+        <button
+          onClick={onCancel}
+          className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+        >
+          {tc.cancel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default InventoryImport;
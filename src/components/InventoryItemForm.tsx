@@ -1,13 +1,20 @@
 import { useState, useEffect } from 'react';
-import { Check, X } from 'lucide-react';
+import { Search, Lock, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { conditionGrades } from '../lib/specs';
+import { currencies } from '../lib/currency';
+import { lookupCatalog, macCatalog, type CatalogLookup, type SpecField } from '../lib/macCatalog';
+import { cascadeSpecs, type ModelSpecs } from '../lib/models';
 import { fr } from '../lib/translations';
+import ModelSpecFields from './ModelSpecFields';
 
 type Supplier = Database['public']['Tables']['suppliers']['Row'];
 type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'];
 type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
 type InventoryInsert = Database['public']['Tables']['inventory_items']['Insert'];
+type Model = Database['public']['Tables']['models']['Row'];
 
 interface InventoryItemFormProps {
   suppliers: Supplier[];
@@ -19,25 +26,36 @@ interface InventoryItemFormProps {
 function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: InventoryItemFormProps) {
   const t = fr.inventory;
   const tc = fr.common;
+  const { can, workspace } = useWorkspace();
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [models, setModels] = useState<Model[]>([]);
   const [formData, setFormData] = useState<Partial<InventoryInsert>>({
     supplier_id: '',
     supplier_item_number: '',
-    model_family: 'MacBook Pro',
-    screen_size: '14',
-    chip: 'M1',
-    ram_gb: 8,
-    storage_gb: 256,
+    model_id: null,
+    model_family: '',
+    screen_size: '',
+    chip: '',
+    ram_gb: 0,
+    storage_gb: 0,
     year: new Date().getFullYear(),
     condition_grade: 'A',
     condition_summary: '',
     charger_included: true,
     box_included: false,
     purchase_cost: 0,
+    currency: workspace.base_currency,
     purchase_date: new Date().toISOString().split('T')[0],
     status: 'in_stock',
     po_id: null,
   });
+  const [lookupValue, setLookupValue] = useState('');
+  const [lookupResult, setLookupResult] = useState<CatalogLookup | null>(null);
+  const [lockedFields, setLockedFields] = useState<SpecField[]>([]);
+
+  useEffect(() => {
+    loadModels();
+  }, []);
 
   useEffect(() => {
     if (editingItem) {
@@ -65,6 +83,60 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
     }
   };
 
+  // New items start on the first model of the catalog
+  const loadModels = async () => {
+    const { data, error } = await supabase
+      .from('models')
+      .select('*')
+      .order('model_family')
+      .order('screen_size')
+      .order('year', { ascending: false });
+
+    if (error) {
+      console.error('Error loading models:', error);
+    } else {
+      setModels(data || []);
+      if (!editingItem) {
+        setFormData((current) => ({ ...current, ...cascadeSpecs(data || [], current as ModelSpecs) }));
+      }
+    }
+  };
+
+  // Fills and locks the specs the catalog settles; serials are kept as the
+  // unit's serial number even though they cannot be decoded
+  const handleLookup = () => {
+    const result = lookupCatalog(lookupValue);
+    setLookupResult(result);
+
+    if (result.status === 'found') {
+      const match = models.find((model) =>
+        result.models.some((candidate) => candidate.aNumber === model.a_number && candidate.year === model.year)
+      );
+      const specs = { ...formData, ...result.specs, model_id: match?.id || null } as ModelSpecs;
+      setFormData({
+        ...formData,
+        ...(match ? cascadeSpecs(models, specs) : specs),
+        ...result.specs,
+      });
+      setLockedFields(Object.keys(result.specs) as SpecField[]);
+    } else {
+      setLockedFields([]);
+      if (result.status === 'random_serial' || result.status === 'legacy_serial') {
+        setFormData({ ...formData, serial_number: lookupValue.trim().toUpperCase() });
+      }
+    }
+  };
+
+  const isLocked = (field: SpecField) => lockedFields.includes(field);
+  const selectedModel = models.find((model) => model.id === formData.model_id);
+  const colorOptions = [
+    ...new Set(
+      macCatalog
+        .filter((model) => model.aNumber === selectedModel?.a_number && model.year === selectedModel?.year)
+        .flatMap((model) => model.colors)
+    ),
+  ];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -114,11 +186,6 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
     }
   };
 
-  const modelFamilies = ['MacBook Pro', 'MacBook Air', 'MacBook'];
-  const screenSizes = ['13', '14', '15', '16'];
-  const chips = ['M1', 'M2', 'M3', 'M1 Pro', 'M1 Max', 'M2 Pro', 'M2 Max', 'M3 Pro', 'M3 Max', 'i5', 'i7', 'i9'];
-  const conditionGrades = ['A', 'B', 'C'];
-
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
       <h2 className="text-xl font-semibold mb-4">
@@ -135,7 +202,12 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
                 </label>
                 <select
                   value={formData.supplier_id}
-                  onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value, po_id: null })}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    supplier_id: e.target.value,
+                    po_id: null,
+                    currency: suppliers.find((supplier) => supplier.id === e.target.value)?.currency || formData.currency,
+                  })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   required
                   disabled={!!editingItem}
@@ -170,7 +242,11 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
                 </label>
                 <select
                   value={formData.po_id || ''}
-                  onChange={(e) => setFormData({ ...formData, po_id: e.target.value || null })}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    po_id: e.target.value || null,
+                    currency: purchaseOrders.find((po) => po.id === e.target.value)?.currency || formData.currency,
+                  })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   disabled={!formData.supplier_id}
                 >
@@ -183,93 +259,90 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
                 </select>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.modelFamily} *
-                </label>
-                <select
-                  value={formData.model_family}
-                  onChange={(e) => setFormData({ ...formData, model_family: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {modelFamilies.map((model) => (
-                    <option key={model} value={model}>{model}</option>
-                  ))}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.screenSize} *
-                </label>
-                <select
-                  value={formData.screen_size}
-                  onChange={(e) => setFormData({ ...formData, screen_size: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {screenSizes.map((size) => (
-                    <option key={size} value={size}>{size}"</option>
-                  ))}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.chip} *
-                </label>
-                <select
-                  value={formData.chip}
-                  onChange={(e) => setFormData({ ...formData, chip: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {chips.map((chip) => (
-                    <option key={chip} value={chip}>{chip}</option>
-                  ))}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.ram} *
-                </label>
-                <input
-                  type="number"
-                  value={formData.ram_gb}
-                  onChange={(e) => setFormData({ ...formData, ram_gb: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  min="4"
-                  required
-                />
-              </div>
-
-              <div>
+              <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.storage} *
+                  {t.catalogLookup}
                 </label>
-                <input
-                  type="number"
-                  value={formData.storage_gb}
-                  onChange={(e) => setFormData({ ...formData, storage_gb: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  min="128"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={lookupValue}
+                    onChange={(e) => setLookupValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleLookup();
+                      }
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                    placeholder="A2442, MKGP3LL/A, MacBookPro18,3..."
+                  />
+                  <button
+                    type="button"
+                    onClick={handleLookup}
+                    disabled={!lookupValue.trim()}
+                    className="flex items-center gap-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+                  >
+                    <Search size={16} />
+                    {t.lookup}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{t.catalogLookupHelper}</p>
+
+                {lookupResult?.status === 'found' && (
+                  <div className="flex items-center justify-between gap-2 bg-green-50 border border-green-200 rounded-md p-3 mt-2 text-sm text-green-800">
+                    <span className="flex items-center gap-2">
+                      <Lock size={16} />
+                      {lookupResult.models
+                        .map((model) => `${model.modelFamily} ${model.screenSize}" ${model.year} (${model.aNumber})`)
+                        .join(' / ')}
+                      {lookupResult.partNumber && ` - ${lookupResult.partNumber}`}
+                      {lockedFields.length > 0 && ` - ${t.specsLocked}`}
+                    </span>
+                    {lockedFields.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setLockedFields([])}
+                        className="text-green-700 hover:text-green-900 font-medium"
+                      >
+                        {t.unlockSpecs}
+                      </button>
+                    )}
+                  </div>
+                )}
+                {lookupResult && lookupResult.status !== 'found' && (
+                  <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-md p-3 mt-2 text-sm text-amber-800">
+                    <AlertTriangle size={16} />
+                    {lookupResult.status === 'random_serial' && t.randomSerial}
+                    {lookupResult.status === 'legacy_serial' && (
+                      <>
+                        {t.legacySerial}
+                        {lookupResult.manufactureYear && ` ${t.manufacturedIn} ${lookupResult.manufactureYear}.`}
+                      </>
+                    )}
+                    {lookupResult.status === 'unknown' && t.catalogUnknown}
+                  </div>
+                )}
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.year} *
-                </label>
-                <input
-                  type="number"
-                  value={formData.year}
-                  onChange={(e) => setFormData({ ...formData, year: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  min="2010"
-                  max={new Date().getFullYear() + 1}
-                  required
-                />
-              </div>
+              <ModelSpecFields
+                models={models}
+                specs={formData as ModelSpecs}
+                onChange={(specs) => setFormData({ ...formData, ...specs })}
+                lockedFields={lockedFields}
+              />
+
+              {models.length === 0 ? (
+                <div className="col-span-2 flex items-center gap-2 text-sm text-amber-700">
+                  <AlertTriangle size={16} />
+                  {t.noModels}
+                </div>
+              ) : !formData.model_id && (
+                <div className="col-span-2 flex items-center gap-2 text-sm text-amber-700">
+                  <AlertTriangle size={16} />
+                  {t.notInCatalog}
+                </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -291,8 +364,15 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
                   type="text"
                   value={formData.color || ''}
                   onChange={(e) => setFormData({ ...formData, color: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${isLocked('color') ? 'bg-gray-100 text-gray-600' : ''}`}
+                  disabled={isLocked('color')}
+                  list="catalog-colors"
                 />
+                <datalist id="catalog-colors">
+                  {colorOptions.map((color) => (
+                    <option key={color} value={color} />
+                  ))}
+                </datalist>
               </div>
 
               <div>
@@ -410,32 +490,68 @@ function InventoryItemForm({ suppliers, editingItem, onCancel, onSuccess }: Inve
           <div>
             <h3 className="text-lg font-medium text-gray-900 mb-3">{t.purchaseDetails}</h3>
             <div className="grid grid-cols-2 gap-4">
+              {can('view_costs') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.purchaseCost} *
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.purchase_cost}
+                    onChange={(e) => setFormData({ ...formData, purchase_cost: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    min="0"
+                    step="0.01"
+                    disabled={!can('edit_costs')}
+                    required
+                  />
+                </div>
+              )}
+
+              {can('view_costs') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.currency}
+                  </label>
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    disabled={!can('edit_costs')}
+                  >
+                    {currencies.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.purchaseCost} *
+                  {t.purchaseDate} *
                 </label>
                 <input
-                  type="number"
-                  value={formData.purchase_cost}
-                  onChange={(e) => setFormData({ ...formData, purchase_cost: parseFloat(e.target.value) })}
+                  type="date"
+                  value={formData.purchase_date}
+                  onChange={(e) => setFormData({ ...formData, purchase_date: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  min="0"
-                  step="0.01"
                   required
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t.purchaseDate} *
+                  {fr.pricing.askingPrice} ({workspace.base_currency})
                 </label>
                 <input
-                  type="date"
-                  value={formData.purchase_date}
-                  onChange={(e) => setFormData({ ...formData, purchase_date: e.target.value })}
+                  type="number"
+                  value={formData.asking_price ?? ''}
+                  onChange={(e) => setFormData({ ...formData, asking_price: e.target.value ? parseFloat(e.target.value) : null })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
+                  min="0"
+                  step="0.01"
                 />
+                <p className="text-xs text-gray-500 mt-1">{fr.pricing.askingPriceHelper}</p>
               </div>
 
               <div className="col-span-2">
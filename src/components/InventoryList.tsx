@@ -1,13 +1,27 @@
 import { useState, useEffect } from 'react';
-import { Edit2, Eye, Trash2 } from 'lucide-react';
+import { Edit2, Eye, Trash2, PackageCheck } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { getLandedCost } from '../lib/profit';
+import { formatMoney } from '../lib/currency';
+import { releaseExpiredReservations } from '../lib/sales';
+import { applyMarkdowns, getUpcomingMarkdown } from '../lib/pricing';
+import type { Disposition } from '../lib/aging';
+import ItemCosts from './ItemCosts';
+import SupplierRmas from './SupplierRmas';
+import PriceSuggestion from './PriceSuggestion';
+import PriceHistory from './PriceHistory';
+import ExportMenu from './ExportMenu';
+import type { ExportColumn } from '../lib/export';
 import { fr } from '../lib/translations';
 
 type InventoryItem = Database['public']['Tables']['inventory_items']['Row'] & {
   suppliers?: Database['public']['Tables']['suppliers']['Row'];
 };
 
+type MarkdownRule = Database['public']['Tables']['markdown_rules']['Row'];
+
 type InventoryTab = 'in_stock' | 'sold';
 
 interface InventoryListProps {
@@ -21,17 +35,40 @@ interface InventoryListProps {
 function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activeTab = 'in_stock' }: InventoryListProps) {
   const t = fr.inventory;
   const tc = fr.common;
+  const tp = fr.pricing;
+  const { can, workspace } = useWorkspace();
+  const showCosts = can('view_costs');
   const [items, setItems] = useState<InventoryItem[]>([]);
+  const [markdownRules, setMarkdownRules] = useState<MarkdownRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
   const [deletingItem, setDeletingItem] = useState<InventoryItem | null>(null);
 
+  useEffect(() => {
+    loadMarkdownRules();
+  }, []);
+
   useEffect(() => {
     loadItems();
   }, [searchTerm, statusFilter, refreshTrigger, activeTab]);
 
+  const loadMarkdownRules = async () => {
+    const { data, error } = await supabase
+      .from('markdown_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error loading markdown rules:', error);
+    } else {
+      setMarkdownRules(data || []);
+    }
+  };
+
   const loadItems = async () => {
     setLoading(true);
+    await releaseExpiredReservations();
+    await applyMarkdowns();
     let query = supabase
       .from('inventory_items')
       .select(`
@@ -71,6 +108,25 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
     setLoading(false);
   };
 
+  // The asking price, and the markdown coming next for units in stock
+  const renderAskingPrice = (item: InventoryItem) => {
+    if (item.asking_price === null) return <span className="text-gray-400">-</span>;
+
+    const markdown = getUpcomingMarkdown(item, markdownRules, workspace.markdown_floor_margin_percent);
+    return (
+      <div className="text-sm">
+        <div className="font-medium text-gray-900">{formatMoney(item.asking_price, workspace.base_currency)}</div>
+        {markdown && (
+          <div className={markdown.atFloor ? 'text-gray-500' : 'text-orange-600'} title={tp.nextMarkdown}>
+            {markdown.atFloor
+              ? tp.atFloor
+              : `−${markdown.rule.discount_percent} % → ${formatMoney(markdown.price, workspace.base_currency)} (${markdown.date.toLocaleDateString('fr-FR')})`}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const handleDelete = async (item: InventoryItem) => {
     // Protection: ne pas supprimer si l'item est vendu
     if (item.status === 'sold') {
@@ -103,6 +159,23 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
     setDeletingItem(null);
   };
 
+  // A returned unit goes back on sale once it has been inspected
+  const handleRestock = async (item: InventoryItem) => {
+    if (!window.confirm(fr.returns.restockConfirm)) return;
+
+    const { error } = await supabase
+      .from('inventory_items')
+      .update({ status: 'in_stock', updated_at: new Date().toISOString() })
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error restocking item:', error);
+      alert('Erreur lors de la remise en stock de l\'article.');
+    } else {
+      loadItems();
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const statusColors: Record<string, string> = {
       in_stock: 'bg-green-100 text-green-700',
@@ -129,6 +202,36 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
     );
   };
 
+  const exportColumns: ExportColumn<InventoryItem>[] = [
+    { key: 'item_id', header: t.itemId, value: (item) => item.item_id },
+    { key: 'supplier', header: t.supplier, value: (item) => item.suppliers?.supplier_name },
+    { key: 'supplier_item_number', header: t.supplierItemNumber, value: (item) => item.supplier_item_number },
+    { key: 'model_family', header: t.modelFamily, value: (item) => item.model_family },
+    { key: 'screen_size', header: t.screenSize, value: (item) => item.screen_size },
+    { key: 'chip', header: t.chip, value: (item) => item.chip },
+    { key: 'ram_gb', header: t.ram, value: (item) => item.ram_gb },
+    { key: 'storage_gb', header: t.storage, value: (item) => item.storage_gb },
+    { key: 'year', header: t.year, value: (item) => item.year },
+    { key: 'serial_number', header: t.serialNumber, value: (item) => item.serial_number },
+    { key: 'color', header: t.color, value: (item) => item.color },
+    { key: 'condition_grade', header: t.conditionGrade, value: (item) => item.condition_grade },
+    { key: 'battery_cycle_count', header: t.batteryCycleCount, value: (item) => item.battery_cycle_count },
+    { key: 'battery_health_percent', header: t.batteryHealth, value: (item) => item.battery_health_percent },
+    ...(showCosts ? [
+      { key: 'purchase_cost', header: t.purchaseCost, value: (item: InventoryItem) => item.purchase_cost },
+      { key: 'currency', header: t.currency, value: (item: InventoryItem) => item.currency },
+      { key: 'purchase_cost_base', header: t.purchaseCostBase, value: (item: InventoryItem) => item.purchase_cost_base },
+      { key: 'additional_costs', header: t.costLedger, value: (item: InventoryItem) => item.additional_costs },
+      { key: 'landed_cost', header: t.landedCost, value: (item: InventoryItem) => getLandedCost(item) },
+    ] : []),
+    { key: 'asking_price', header: tp.askingPrice, value: (item) => item.asking_price },
+    { key: 'purchase_date', header: t.purchaseDate, value: (item) => item.purchase_date },
+    { key: 'status', header: tc.status, value: (item) => item.status },
+    { key: 'disposition', header: fr.aging.disposition, value: (item) => item.disposition },
+    { key: 'sold_date', header: 'Date vendu', value: (item) => item.sold_date },
+    { key: 'notes', header: tc.notes, value: (item) => item.notes },
+  ];
+
   if (loading) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-8 text-center">
@@ -139,6 +242,9 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
 
   return (
     <>
+      <div className="flex justify-end mb-3">
+        <ExportMenu name="inventaire" columns={exportColumns} rows={items} />
+      </div>
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
@@ -156,14 +262,19 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   {t.condition}
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  {t.cost}
-                </th>
+                {showCosts && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t.cost}
+                  </th>
+                )}
                 {activeTab === 'sold' && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Date vendu
                   </th>
                 )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {tp.askingPrice}
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   {tc.status}
                 </th>
@@ -196,16 +307,24 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
                       Grade {item.condition_grade}
                     </span>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    ${item.purchase_cost.toFixed(2)}
-                  </td>
+                  {showCosts && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      ${getLandedCost(item).toFixed(2)}
+                    </td>
+                  )}
                   {activeTab === 'sold' && (
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {item.sold_date ? new Date(item.sold_date).toLocaleDateString('fr-FR') : '-'}
                     </td>
                   )}
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {renderAskingPrice(item)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     {getStatusBadge(item.status)}
+                    {item.disposition && (
+                      <div className="text-xs text-gray-500 mt-1">{fr.aging.dispositions[item.disposition as Disposition]}</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
                     <div className="flex items-center gap-3">
@@ -218,13 +337,25 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
                       </button>
                       {activeTab === 'in_stock' && (
                         <>
-                          <button
-                            onClick={() => onEdit(item)}
-                            className="text-blue-600 hover:text-blue-800"
-                            title={tc.edit}
-                          >
-                            <Edit2 size={18} />
-                          </button>
+                          {can('edit_inventory') && item.status === 'returned' && (
+                            <button
+                              onClick={() => handleRestock(item)}
+                              className="text-green-600 hover:text-green-800"
+                              title={fr.returns.restock}
+                            >
+                              <PackageCheck size={18} />
+                            </button>
+                          )}
+                          {can('edit_inventory') && (
+                            <button
+                              onClick={() => onEdit(item)}
+                              className="text-blue-600 hover:text-blue-800"
+                              title={tc.edit}
+                            >
+                              <Edit2 size={18} />
+                            </button>
+                          )}
+                          {can('delete_inventory') && (
                           <button
                             onClick={() => handleDelete(item)}
                             className={`${
@@ -237,6 +368,7 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
                           >
                             <Trash2 size={18} />
                           </button>
+                          )}
                         </>
                       )}
                     </div>
@@ -245,7 +377,7 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
               ))}
               {items.length === 0 && (
                 <tr>
-                  <td colSpan={activeTab === 'sold' ? 8 : 7} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={(activeTab === 'sold' ? 9 : 8) - (showCosts ? 0 : 1)} className="px-6 py-8 text-center text-gray-500">
                     {activeTab === 'sold' 
                       ? 'Aucun article vendu trouvé.' 
                       : t.noItems}
@@ -339,10 +471,12 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
                 </div>
               )}
 
-              <div>
-                <label className="text-sm font-medium text-gray-500">{t.purchaseCost}</label>
-                <p className="text-gray-900 font-semibold">${selectedItem.purchase_cost.toFixed(2)}</p>
-              </div>
+              {showCosts && (
+                <div>
+                  <label className="text-sm font-medium text-gray-500">{t.purchaseCost}</label>
+                  <p className="text-gray-900 font-semibold">{formatMoney(selectedItem.purchase_cost, selectedItem.currency)}</p>
+                </div>
+              )}
 
               <div>
                 <label className="text-sm font-medium text-gray-500">{t.purchaseDate}</label>
@@ -379,6 +513,16 @@ function InventoryList({ searchTerm, statusFilter, refreshTrigger, onEdit, activ
               )}
             </div>
 
+            {['in_stock', 'reserved'].includes(selectedItem.status) && <PriceSuggestion item={selectedItem} />}
+
+            <PriceHistory item={selectedItem} />
+
+            {showCosts && <ItemCosts item={selectedItem} onChange={loadItems} />}
+
+            {showCosts && selectedItem.status === 'doa' && (
+              <SupplierRmas item={selectedItem} onChange={loadItems} />
+            )}
+
             <div className="mt-6 flex justify-end">
               <button
                 onClick={() => setSelectedItem(null)}
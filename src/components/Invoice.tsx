@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { Printer, Mail, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import {
+  describeUnit,
+  emailInvoice,
+  formatInvoiceNumber,
+  getPaymentMethodLabel,
+  type InvoiceSale,
+} from '../lib/invoice';
+import { fr } from '../lib/translations';
+
+type Workspace = Database['public']['Tables']['workspaces']['Row'];
+
+interface InvoiceProps {
+  saleId: string;
+  onClose: () => void;
+}
+
+function Invoice({ saleId, onClose }: InvoiceProps) {
+  const t = fr.invoice;
+  const tc = fr.common;
+  const { workspace } = useWorkspace();
+  const [sale, setSale] = useState<InvoiceSale | null>(null);
+  const [business, setBusiness] = useState<Workspace | null>(null);
+
+  useEffect(() => {
+    loadInvoice();
+  }, [saleId]);
+
+  const loadInvoice = async () => {
+    const [saleResult, businessResult] = await Promise.all([
+      supabase
+        .from('sales')
+        .select(`
+          *,
+          inventory_items (*),
+          customers (*),
+          sale_taxes (*)
+        `)
+        .eq('id', saleId)
+        .single(),
+      supabase
+        .from('workspaces')
+        .select('*')
+        .eq('id', workspace.id)
+        .single(),
+    ]);
+
+    if (saleResult.error) {
+      console.error('Error loading sale:', saleResult.error);
+      alert('Erreur lors du chargement de la facture');
+      onClose();
+      return;
+    }
+    if (businessResult.error) {
+      console.error('Error loading business details:', businessResult.error);
+    }
+
+    setSale(saleResult.data);
+    setBusiness(businessResult.data || workspace);
+  };
+
+  const handleEmail = async () => {
+    if (!sale || !business) return;
+
+    const to = window.prompt(t.emailPrompt, sale.customers?.email || '');
+    if (!to) return;
+
+    try {
+      await emailInvoice(sale, business, to);
+    } catch (error) {
+      console.error('Error sending invoice:', error);
+      alert('Erreur lors de l\'envoi de la facture');
+    }
+  };
+
+  const item = sale?.inventory_items;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto print:max-h-none print:overflow-visible print:rounded-none">
+        <div className="flex justify-end gap-2 p-4 border-b border-gray-200 print:hidden">
+          <button
+            onClick={() => window.print()}
+            disabled={!sale}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            <Printer size={18} />
+            {t.print}
+          </button>
+          <button
+            onClick={handleEmail}
+            disabled={!sale}
+            className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium disabled:opacity-50"
+          >
+            <Mail size={18} />
+            {t.email}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 px-2" title={tc.close}>
+            <X size={24} />
+          </button>
+        </div>
+
+        {!sale || !business ? (
+          <p className="p-8 text-center text-gray-500">{tc.loading}...</p>
+        ) : (
+          <div id="invoice" className="p-8">
+            {!business.business_name && (
+              <p className="mb-6 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3 print:hidden">
+                {t.missingBusiness}
+              </p>
+            )}
+
+            <div className="flex justify-between items-start mb-8">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">{business.business_name || business.name}</h2>
+                {business.business_address && (
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{business.business_address}</p>
+                )}
+                {business.business_phone && <p className="text-sm text-gray-600">{business.business_phone}</p>}
+                {business.business_email && <p className="text-sm text-gray-600">{business.business_email}</p>}
+              </div>
+              <div className="text-right">
+                <p className="text-xl font-semibold text-gray-900">{t.invoice}</p>
+                <p className="font-mono text-gray-900">{formatInvoiceNumber(sale.invoice_number)}</p>
+                <p className="text-sm text-gray-600 mt-1">
+                  {t.date}: {new Date(sale.sale_date).toLocaleDateString('fr-FR')}
+                </p>
+              </div>
+            </div>
+
+            <div className="mb-8">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{t.billedTo}</p>
+              {sale.customers ? (
+                <>
+                  <p className="text-gray-900 font-medium">{sale.customers.name}</p>
+                  <p className="text-sm text-gray-600">{sale.customers.phone}</p>
+                  {sale.customers.email && <p className="text-sm text-gray-600">{sale.customers.email}</p>}
+                </>
+              ) : (
+                <p className="text-gray-900">{t.walkInCustomer}</p>
+              )}
+            </div>
+
+            <table className="w-full mb-8">
+              <thead className="border-b border-gray-300">
+                <tr>
+                  <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.unit}</th>
+                  <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.subtotal}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-200">
+                  <td className="py-3">
+                    {item ? (
+                      <>
+                        <p className="text-gray-900 font-medium">{describeUnit(item)}</p>
+                        <p className="text-sm text-gray-600">
+                          {t.serialNumber}: {item.serial_number || '-'} · {t.conditionGrade}: {item.condition_grade}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-gray-900">-</p>
+                    )}
+                  </td>
+                  <td className="py-3 text-right text-gray-900">${sale.sale_price.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            <div className="ml-auto w-72 space-y-1 text-sm">
+              <div className="flex justify-between text-gray-600">
+                <span>{t.subtotal}</span>
+                <span>${sale.sale_price.toFixed(2)}</span>
+              </div>
+              {sale.sale_taxes.map((tax) => (
+                <div key={tax.id} className="flex justify-between text-gray-600">
+                  <span>{tax.name} ({tax.rate}%)</span>
+                  <span>${tax.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-base font-bold text-gray-900 border-t border-gray-300 pt-2">
+                <span>{t.total}</span>
+                <span>${(sale.sale_price + sale.tax_total).toFixed(2)}</span>
+              </div>
+              {sale.deposit_applied > 0 && (
+                <>
+                  <div className="flex justify-between text-gray-600">
+                    <span>{t.depositApplied}</span>
+                    <span>-${sale.deposit_applied.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-gray-900">
+                    <span>{t.balanceDue}</span>
+                    <span>${(sale.sale_price + sale.tax_total - sale.deposit_applied).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between text-gray-600 pt-2">
+                <span>{t.paymentMethod}</span>
+                <span>{getPaymentMethodLabel(sale.payment_method)}</span>
+              </div>
+              {sale.warranty_months > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>{t.warranty}</span>
+                  <span>
+                    {sale.warranty_months} {fr.sales.months}, {fr.sales.warrantyUntil.toLowerCase()} {new Date(sale.warranty_expires_on).toLocaleDateString('fr-FR')}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-12 pt-4 border-t border-gray-200 text-sm text-gray-600 flex justify-between">
+              <p>{t.thanks}</p>
+              <div className="text-right">
+                {business.gst_number && <p>{t.gstNumber}: {business.gst_number}</p>}
+                {business.qst_number && <p>{t.qstNumber}: {business.qst_number}</p>}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Invoice;
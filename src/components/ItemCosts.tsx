@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { formatMoney } from '../lib/currency';
+import { fr } from '../lib/translations';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type ItemCost = Database['public']['Tables']['item_costs']['Row'];
+type ItemCostInsert = Database['public']['Tables']['item_costs']['Insert'];
+type CostType = keyof typeof fr.inventory.costTypes;
+
+interface ItemCostsProps {
+  item: InventoryItem;
+  onChange: () => void;
+}
+
+function ItemCosts({ item, onChange }: ItemCostsProps) {
+  const t = fr.inventory;
+  const tc = fr.common;
+  const { can, workspace } = useWorkspace();
+  const [costs, setCosts] = useState<ItemCost[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState<Omit<ItemCostInsert, 'item_id'>>({
+    cost_type: 'parts',
+    amount: 0,
+    description: '',
+    cost_date: new Date().toISOString().split('T')[0],
+  });
+
+  useEffect(() => {
+    loadCosts();
+  }, [item.id]);
+
+  const loadCosts = async () => {
+    const { data, error } = await supabase
+      .from('item_costs')
+      .select('*')
+      .eq('item_id', item.id)
+      .order('cost_date');
+
+    if (error) {
+      console.error('Error loading item costs:', error);
+    } else {
+      setCosts(data || []);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.amount || formData.amount <= 0) {
+      alert('Veuillez entrer un montant supérieur à zéro');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('item_costs')
+      .insert([{ ...formData, item_id: item.id, description: formData.description || null }]);
+
+    if (error) {
+      console.error('Error adding item cost:', error);
+      alert('Erreur lors de l\'ajout du coût');
+    } else {
+      setIsAdding(false);
+      setFormData({
+        cost_type: 'parts',
+        amount: 0,
+        description: '',
+        cost_date: new Date().toISOString().split('T')[0],
+      });
+      loadCosts();
+      onChange();
+    }
+  };
+
+  const handleDelete = async (cost: ItemCost) => {
+    if (!window.confirm('Supprimer ce coût?')) return;
+
+    const { error } = await supabase
+      .from('item_costs')
+      .delete()
+      .eq('id', cost.id);
+
+    if (error) {
+      console.error('Error deleting item cost:', error);
+      alert('Erreur lors de la suppression du coût');
+    } else {
+      loadCosts();
+      onChange();
+    }
+  };
+
+  const additionalCosts = costs.reduce((sum, cost) => sum + cost.amount, 0);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">{t.costLedger}</h3>
+        {can('edit_costs') && !isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <Plus size={16} />
+            {t.addCost}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">{t.costLedgerHelper}</p>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-4 gap-3 mb-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.costType}</label>
+              <select
+                value={formData.cost_type}
+                onChange={(e) => setFormData({ ...formData, cost_type: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(t.costTypes) as CostType[]).filter((type) => type !== 'warranty' && type !== 'po_charge').map((type) => (
+                  <option key={type} value={type}>{t.costTypes[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.amount}</label>
+              <input
+                type="number"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                step="0.01"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.description}</label>
+              <input
+                type="text"
+                value={formData.description || ''}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Ex: Batterie neuve"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.costDate}</label>
+              <input
+                type="date"
+                value={formData.cost_date}
+                onChange={(e) => setFormData({ ...formData, cost_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {tc.save}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {tc.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full mb-4">
+        <tbody className="divide-y divide-gray-200">
+          <tr>
+            <td className="py-2 text-sm text-gray-600" colSpan={3}>{t.purchaseCost}</td>
+            <td className="py-2 text-sm text-right text-gray-900">{formatMoney(item.purchase_cost, item.currency)}</td>
+            <td />
+          </tr>
+          {item.currency !== workspace.base_currency && (
+            <tr>
+              <td className="py-2 text-sm text-gray-600" colSpan={3}>{t.purchaseCostBase} ({workspace.base_currency})</td>
+              <td className="py-2 text-sm text-right text-gray-900">{formatMoney(item.purchase_cost_base, workspace.base_currency)}</td>
+              <td />
+            </tr>
+          )}
+          {costs.map((cost) => (
+            <tr key={cost.id}>
+              <td className="py-2 text-sm text-gray-600">
+                {new Date(cost.cost_date).toLocaleDateString('fr-FR')}
+              </td>
+              <td className="py-2 text-sm text-gray-900">
+                {t.costTypes[cost.cost_type as CostType] || cost.cost_type}
+              </td>
+              <td className="py-2 text-sm text-gray-600" title={cost.claim_id ? t.claimCostHelper : cost.po_charge_id ? t.poChargeCostHelper : undefined}>
+                {cost.description || '-'}
+              </td>
+              <td className="py-2 text-sm text-right text-gray-900">${cost.amount.toFixed(2)}</td>
+              <td className="py-2 pl-3 text-right w-8">
+                {can('edit_costs') && !cost.claim_id && !cost.po_charge_id && (
+                  <button
+                    onClick={() => handleDelete(cost)}
+                    className="text-red-600 hover:text-red-800"
+                    title={tc.delete}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {costs.length === 0 && (
+            <tr>
+              <td colSpan={5} className="py-2 text-sm text-gray-500">{t.noCosts}</td>
+            </tr>
+          )}
+          <tr>
+            <td className="py-2 text-sm font-semibold text-gray-900" colSpan={3}>{t.landedCost}</td>
+            <td className="py-2 text-sm text-right font-bold text-gray-900">
+              {formatMoney(item.purchase_cost_base + additionalCosts, workspace.base_currency)}
+            </td>
+            <td />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ItemCosts;
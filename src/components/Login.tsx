@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Mail } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { fr } from '../lib/translations';
+
+function Login() {
+  const t = fr.auth;
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+
+    setSending(true);
+    setErrorMessage(null);
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+
+    if (error) {
+      console.error('Error sending magic link:', error);
+      setErrorMessage(t.error);
+    } else {
+      setLinkSent(true);
+    }
+    setSending(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#1a1d29] p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-8">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900">UnitFlow</h1>
+          <p className="text-gray-600 mt-2">{t.subtitle}</p>
+        </div>
+
+        {linkSent ? (
+          <div className="space-y-4">
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <p className="text-green-800 font-medium text-center">{t.linkSent}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setLinkSent(false)}
+              className="w-full text-sm text-blue-600 hover:text-blue-800"
+            >
+              {t.useAnotherEmail}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t.email}
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={t.emailPlaceholder}
+                autoFocus
+                required
+              />
+            </div>
+
+            {errorMessage && (
+              <p className="text-sm text-red-600">{errorMessage}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={sending}
+              className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-60"
+            >
+              <Mail size={18} />
+              {sending ? `${t.sending}...` : t.sendMagicLink}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Login;
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Edit2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { getAgingBucket } from '../lib/aging';
+import { fr } from '../lib/translations';
+
+type MarkdownRule = Database['public']['Tables']['markdown_rules']['Row'];
+
+const emptyForm = { after_days: '', discount_percent: '' };
+
+function MarkdownRules() {
+  const t = fr.pricing;
+  const tc = fr.common;
+  const [rules, setRules] = useState<MarkdownRule[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingRule, setEditingRule] = useState<MarkdownRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    const { data, error } = await supabase
+      .from('markdown_rules')
+      .select('*')
+      .order('after_days');
+
+    if (error) {
+      console.error('Error loading markdown rules:', error);
+    } else {
+      setRules(data || []);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const afterDays = parseInt(formData.after_days);
+    const discountPercent = parseFloat(formData.discount_percent);
+
+    if (!(afterDays > 0)) {
+      alert('Le nombre de jours doit être supérieur à zéro');
+      return;
+    }
+
+    if (!(discountPercent > 0 && discountPercent < 100)) {
+      alert('La baisse doit être entre 0 et 100 %');
+      return;
+    }
+
+    const rule = { after_days: afterDays, discount_percent: discountPercent };
+    const { error } = editingRule
+      ? await supabase.from('markdown_rules').update(rule).eq('id', editingRule.id)
+      : await supabase.from('markdown_rules').insert([rule]);
+
+    if (error) {
+      console.error('Error saving markdown rule:', error);
+      alert('Erreur lors de l\'enregistrement de la démarque');
+    } else {
+      handleCancel();
+      loadRules();
+    }
+  };
+
+  const handleEdit = (rule: MarkdownRule) => {
+    setEditingRule(rule);
+    setFormData({ after_days: String(rule.after_days), discount_percent: String(rule.discount_percent) });
+    setIsAdding(true);
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setEditingRule(null);
+    setFormData(emptyForm);
+  };
+
+  const handleToggle = async (rule: MarkdownRule) => {
+    const { error } = await supabase
+      .from('markdown_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating markdown rule:', error);
+      alert('Erreur lors de la mise à jour de la démarque');
+    } else {
+      loadRules();
+    }
+  };
+
+  const handleDelete = async (rule: MarkdownRule) => {
+    if (!window.confirm('Supprimer cette démarque? Les prix déjà baissés ne changent pas.')) return;
+
+    const { error } = await supabase
+      .from('markdown_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error deleting markdown rule:', error);
+      alert('Erreur lors de la suppression de la démarque');
+    } else {
+      loadRules();
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold">{t.markdownRules}</h2>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <Plus size={16} />
+            {t.addRule}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">{t.markdownRulesHelper}</p>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.afterDays}</label>
+              <input
+                type="number"
+                value={formData.after_days}
+                onChange={(e) => setFormData({ ...formData, after_days: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="45"
+                min="1"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.discount}</label>
+              <input
+                type="number"
+                value={formData.discount_percent}
+                onChange={(e) => setFormData({ ...formData, discount_percent: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="5"
+                min="0.5"
+                max="99"
+                step="0.5"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {tc.save}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {tc.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b border-gray-200">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.afterDays}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.agingBucket}</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.discount}</th>
+            <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">{t.active}</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rules.map((rule) => (
+            <tr key={rule.id} className={rule.is_active ? '' : 'text-gray-400'}>
+              <td className="px-4 py-2 text-sm">{rule.after_days}</td>
+              <td className="px-4 py-2 text-sm">{getAgingBucket(rule.after_days)} {fr.dashboard.days}</td>
+              <td className="px-4 py-2 text-sm text-right">−{rule.discount_percent} %</td>
+              <td className="px-4 py-2 text-center">
+                <input
+                  type="checkbox"
+                  checked={rule.is_active}
+                  onChange={() => handleToggle(rule)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+              </td>
+              <td className="px-4 py-2 text-right">
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => handleEdit(rule)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit2 size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+          {rules.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">{t.noRules}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default MarkdownRules;
@@ -0,0 +1,300 @@
+import { useState, useEffect } from 'react';
+import { Edit2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { currencies } from '../lib/currency';
+import { fr } from '../lib/translations';
+
+type Model = Database['public']['Tables']['models']['Row'];
+type ModelInsert = Database['public']['Tables']['models']['Insert'];
+
+// Lists are edited as comma-separated text
+interface ModelForm {
+  model_family: string;
+  screen_size: string;
+  year: number;
+  a_number: string;
+  chips: string;
+  ram_options: string;
+  storage_options: string;
+  launch_price: string;
+  launch_currency: string;
+}
+
+const emptyForm: ModelForm = {
+  model_family: '',
+  screen_size: '',
+  year: new Date().getFullYear(),
+  a_number: '',
+  chips: '',
+  ram_options: '',
+  storage_options: '',
+  launch_price: '',
+  launch_currency: 'USD',
+};
+
+const splitList = (value: string): string[] =>
+  value.split(',').map((part) => part.trim()).filter((part) => part !== '');
+
+function ModelCatalog() {
+  const t = fr.settings;
+  const ti = fr.inventory;
+  const tc = fr.common;
+  const [models, setModels] = useState<Model[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingModel, setEditingModel] = useState<Model | null>(null);
+  const [formData, setFormData] = useState<ModelForm>(emptyForm);
+
+  useEffect(() => {
+    loadModels();
+  }, []);
+
+  const loadModels = async () => {
+    const { data, error } = await supabase
+      .from('models')
+      .select('*')
+      .order('model_family')
+      .order('screen_size')
+      .order('year', { ascending: false });
+
+    if (error) {
+      console.error('Error loading models:', error);
+    } else {
+      setModels(data || []);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const chips = splitList(formData.chips);
+    const ramOptions = splitList(formData.ram_options).map(Number);
+    const storageOptions = splitList(formData.storage_options).map(Number);
+
+    if (chips.length === 0 || ramOptions.length === 0 || storageOptions.length === 0) {
+      alert('Indique au moins une puce, une RAM et un stockage');
+      return;
+    }
+
+    if ([...ramOptions, ...storageOptions].some((size) => !Number.isInteger(size) || size <= 0)) {
+      alert('Les tailles de RAM et de stockage doivent être des nombres entiers de GB');
+      return;
+    }
+
+    const model: ModelInsert = {
+      model_family: formData.model_family.trim(),
+      screen_size: formData.screen_size.trim(),
+      year: formData.year,
+      a_number: formData.a_number.trim().toUpperCase() || null,
+      chips,
+      ram_options: [...new Set(ramOptions)].sort((a, b) => a - b),
+      storage_options: [...new Set(storageOptions)].sort((a, b) => a - b),
+      launch_price: formData.launch_price ? parseFloat(formData.launch_price) : null,
+      launch_currency: formData.launch_currency,
+    };
+
+    const { error } = editingModel
+      ? await supabase.from('models').update(model).eq('id', editingModel.id)
+      : await supabase.from('models').insert([model]);
+
+    if (error) {
+      console.error('Error saving model:', error);
+      alert(error.code === '23505'
+        ? 'Ce modèle existe déjà (même numéro A et même année)'
+        : 'Erreur lors de l\'enregistrement du modèle');
+    } else {
+      handleCancel();
+      loadModels();
+    }
+  };
+
+  const handleEdit = (model: Model) => {
+    setEditingModel(model);
+    setFormData({
+      model_family: model.model_family,
+      screen_size: model.screen_size,
+      year: model.year,
+      a_number: model.a_number || '',
+      chips: model.chips.join(', '),
+      ram_options: model.ram_options.join(', '),
+      storage_options: model.storage_options.join(', '),
+      launch_price: model.launch_price === null ? '' : String(model.launch_price),
+      launch_currency: model.launch_currency,
+    });
+    setIsAdding(true);
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setEditingModel(null);
+    setFormData(emptyForm);
+  };
+
+  const handleDelete = async (model: Model) => {
+    if (!window.confirm('Supprimer ce modèle? Les articles qui l\'utilisent gardent leurs spécifications.')) return;
+
+    const { error } = await supabase
+      .from('models')
+      .delete()
+      .eq('id', model.id);
+
+    if (error) {
+      console.error('Error deleting model:', error);
+      alert('Erreur lors de la suppression du modèle');
+    } else {
+      loadModels();
+    }
+  };
+
+  const textFields: { key: keyof ModelForm; label: string; placeholder: string; required: boolean; helper?: string }[] = [
+    { key: 'model_family', label: ti.modelFamily, placeholder: 'MacBook Pro', required: true },
+    { key: 'screen_size', label: ti.screenSize, placeholder: '14', required: true },
+    { key: 'a_number', label: t.aNumber, placeholder: 'A2442', required: false },
+    { key: 'chips', label: t.chips, placeholder: 'M1 Pro, M1 Max', required: true, helper: t.commaSeparated },
+    { key: 'ram_options', label: t.ramOptions, placeholder: '16, 32, 64', required: true, helper: t.commaSeparated },
+    { key: 'storage_options', label: t.storageOptions, placeholder: '512, 1024, 2048', required: true, helper: t.commaSeparated },
+  ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold">{t.models}</h2>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <Plus size={16} />
+            {t.addModel}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">{t.modelsHelper}</p>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            {textFields.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <input
+                  type="text"
+                  value={formData[field.key]}
+                  onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={field.placeholder}
+                  required={field.required}
+                />
+                {field.helper && <p className="text-xs text-gray-500 mt-1">{field.helper}</p>}
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{ti.year}</label>
+              <input
+                type="number"
+                value={formData.year}
+                onChange={(e) => setFormData({ ...formData, year: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="2006"
+                max={new Date().getFullYear() + 1}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.launchPrice}</label>
+              <input
+                type="number"
+                value={formData.launch_price}
+                onChange={(e) => setFormData({ ...formData, launch_price: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.currency}</label>
+              <select
+                value={formData.launch_currency}
+                onChange={(e) => setFormData({ ...formData, launch_currency: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {currencies.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {tc.save}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {tc.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b border-gray-200">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.model}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.year}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.chips}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.ramOptions}</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.storageOptions}</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.launchPrice}</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {models.map((model) => (
+            <tr key={model.id}>
+              <td className="px-4 py-2 text-sm text-gray-900">
+                {model.model_family} {model.screen_size}"
+                {model.a_number && <span className="text-gray-500"> ({model.a_number})</span>}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-900">{model.year}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{model.chips.join(', ')}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{model.ram_options.join(', ')}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{model.storage_options.join(', ')}</td>
+              <td className="px-4 py-2 text-sm text-right text-gray-900">
+                {model.launch_price === null ? '-' : `${model.launch_price.toFixed(2)} ${model.launch_currency}`}
+              </td>
+              <td className="px-4 py-2 text-right">
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => handleEdit(model)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit2 size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(model)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+          {models.length === 0 && (
+            <tr>
+              <td colSpan={7} className="px-4 py-4 text-center text-sm text-gray-500">{t.noModels}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ModelCatalog;
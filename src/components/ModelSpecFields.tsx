@@ -0,0 +1,146 @@
+import type { Database } from '../lib/database.types';
+import { cascadeSpecs, chipsOf, familiesOf, modelLabel, modelsFor, sizesOf, type ModelSpecs } from '../lib/models';
+import type { SpecField } from '../lib/macCatalog';
+import { fr } from '../lib/translations';
+
+type Model = Database['public']['Tables']['models']['Row'];
+
+interface ModelSpecFieldsProps {
+  models: Model[];
+  specs: ModelSpecs;
+  onChange: (specs: ModelSpecs) => void;
+  lockedFields?: SpecField[];
+}
+
+const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Values saved before the catalog had them stay selectable
+const withCurrent = <T,>(choices: T[], current: T): T[] =>
+  choices.includes(current) ? choices : [current, ...choices];
+
+// Family, size, chip, model, RAM and storage, each narrowing the next.
+// Renders one cell per field for the parent's grid.
+function ModelSpecFields({ models, specs, onChange, lockedFields = [] }: ModelSpecFieldsProps) {
+  const t = fr.inventory;
+  const candidates = modelsFor(models, specs.model_family, specs.screen_size, specs.chip);
+  const model = models.find((candidate) => candidate.id === specs.model_id);
+
+  const isLocked = (field: SpecField) => lockedFields.includes(field);
+  const className = (field: SpecField) => `${fieldClass} ${isLocked(field) ? 'bg-gray-100 text-gray-600' : ''}`;
+  const change = (update: Partial<ModelSpecs>) => onChange(cascadeSpecs(models, { ...specs, ...update }));
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t.modelFamily} *</label>
+        <select
+          value={specs.model_family}
+          onChange={(e) => change({ model_family: e.target.value })}
+          className={className('model_family')}
+          disabled={isLocked('model_family')}
+        >
+          {withCurrent(familiesOf(models), specs.model_family).map((family) => (
+            <option key={family} value={family}>{family}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t.screenSize} *</label>
+        <select
+          value={specs.screen_size}
+          onChange={(e) => change({ screen_size: e.target.value })}
+          className={className('screen_size')}
+          disabled={isLocked('screen_size')}
+        >
+          {withCurrent(sizesOf(models, specs.model_family), specs.screen_size).map((size) => (
+            <option key={size} value={size}>{size}"</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t.chip} *</label>
+        <select
+          value={specs.chip}
+          onChange={(e) => change({ chip: e.target.value })}
+          className={className('chip')}
+          disabled={isLocked('chip')}
+        >
+          {withCurrent(chipsOf(models, specs.model_family, specs.screen_size), specs.chip).map((chip) => (
+            <option key={chip} value={chip}>{chip}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t.catalogModel} *</label>
+        <select
+          value={specs.model_id || ''}
+          onChange={(e) => change({ model_id: e.target.value || null })}
+          className={className('year')}
+          disabled={isLocked('year')}
+        >
+          {!model && <option value="">{specs.year} ({t.offCatalog})</option>}
+          {candidates.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>{modelLabel(candidate)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t.ram} *</label>
+        {model ? (
+          <select
+            value={specs.ram_gb}
+            onChange={(e) => onChange({ ...specs, ram_gb: parseInt(e.target.value) })}
+            className={className('ram_gb')}
+            disabled={isLocked('ram_gb')}
+          >
+            {withCurrent(model.ram_options, specs.ram_gb).map((size) => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="number"
+            value={specs.ram_gb}
+            onChange={(e) => onChange({ ...specs, ram_gb: parseInt(e.target.value) })}
+            className={className('ram_gb')}
+            disabled={isLocked('ram_gb')}
+            min="4"
+            required
+          />
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t.storage} *</label>
+        {model ? (
+          <select
+            value={specs.storage_gb}
+            onChange={(e) => onChange({ ...specs, storage_gb: parseInt(e.target.value) })}
+            className={className('storage_gb')}
+            disabled={isLocked('storage_gb')}
+          >
+            {withCurrent(model.storage_options, specs.storage_gb).map((size) => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="number"
+            value={specs.storage_gb}
+            onChange={(e) => onChange({ ...specs, storage_gb: parseInt(e.target.value) })}
+            className={className('storage_gb')}
+            disabled={isLocked('storage_gb')}
+            min="128"
+            required
+          />
+        )}
+      </div>
+    </>
+  );
+}
+
+export default ModelSpecFields;
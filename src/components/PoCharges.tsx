@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { formatMoney } from '../lib/currency';
+import { fr } from '../lib/translations';
+
+type PoCharge = Database['public']['Tables']['po_charges']['Row'];
+type PoChargeInsert = Database['public']['Tables']['po_charges']['Insert'];
+type ChargeType = keyof typeof fr.po.chargeTypes;
+type AllocationMethod = keyof typeof fr.po.allocationMethods;
+
+interface PoChargesProps {
+  poId: string;
+  unitCount: number;
+  onChange: () => void;
+}
+
+const emptyCharge = (): Omit<PoChargeInsert, 'po_id'> => ({
+  charge_type: 'shipping',
+  amount: 0,
+  description: '',
+  charge_date: new Date().toISOString().split('T')[0],
+  allocation_method: 'cost_share',
+});
+
+function PoCharges({ poId, unitCount, onChange }: PoChargesProps) {
+  const t = fr.po;
+  const tc = fr.common;
+  const { can, workspace } = useWorkspace();
+  const [charges, setCharges] = useState<PoCharge[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState(emptyCharge());
+
+  useEffect(() => {
+    loadCharges();
+  }, [poId]);
+
+  const loadCharges = async () => {
+    const { data, error } = await supabase
+      .from('po_charges')
+      .select('*')
+      .eq('po_id', poId)
+      .order('charge_date');
+
+    if (error) {
+      console.error('Error loading PO charges:', error);
+    } else {
+      setCharges(data || []);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.amount || formData.amount <= 0) {
+      alert('Veuillez entrer un montant supérieur à zéro');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('po_charges')
+      .insert([{ ...formData, po_id: poId, description: formData.description || null }]);
+
+    if (error) {
+      console.error('Error adding PO charge:', error);
+      alert('Erreur lors de l\'ajout des frais');
+    } else {
+      setIsAdding(false);
+      setFormData(emptyCharge());
+      loadCharges();
+      onChange();
+    }
+  };
+
+  const handleDelete = async (charge: PoCharge) => {
+    if (!window.confirm('Supprimer ces frais? Leur part sera retirée du coût des unités.')) return;
+
+    const { error } = await supabase
+      .from('po_charges')
+      .delete()
+      .eq('id', charge.id);
+
+    if (error) {
+      console.error('Error deleting PO charge:', error);
+      alert('Erreur lors de la suppression des frais');
+    } else {
+      loadCharges();
+      onChange();
+    }
+  };
+
+  const chargesTotal = charges.reduce((sum, charge) => sum + charge.amount, 0);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">{t.charges}</h3>
+        {can('manage_purchase_orders') && !isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <Plus size={16} />
+            {t.addCharge}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">{t.chargesHelper}</p>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-5 gap-3 mb-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.chargeType}</label>
+              <select
+                value={formData.charge_type}
+                onChange={(e) => setFormData({ ...formData, charge_type: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(t.chargeTypes) as ChargeType[]).map((type) => (
+                  <option key={type} value={type}>{t.chargeTypes[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.amount} ({workspace.base_currency})</label>
+              <input
+                type="number"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                step="0.01"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.description}</label>
+              <input
+                type="text"
+                value={formData.description || ''}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Ex: Purolator"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.chargeDate}</label>
+              <input
+                type="date"
+                value={formData.charge_date}
+                onChange={(e) => setFormData({ ...formData, charge_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.allocation}</label>
+              <select
+                value={formData.allocation_method}
+                onChange={(e) => setFormData({ ...formData, allocation_method: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(t.allocationMethods) as AllocationMethod[]).map((method) => (
+                  <option key={method} value={method}>{t.allocationMethods[method]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {tc.save}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {tc.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full">
+        <tbody className="divide-y divide-gray-200">
+          {charges.map((charge) => (
+            <tr key={charge.id}>
+              <td className="py-2 text-sm text-gray-600">
+                {new Date(charge.charge_date).toLocaleDateString('fr-FR')}
+              </td>
+              <td className="py-2 text-sm text-gray-900">
+                {t.chargeTypes[charge.charge_type as ChargeType] || charge.charge_type}
+              </td>
+              <td className="py-2 text-sm text-gray-600">{charge.description || '-'}</td>
+              <td className="py-2 text-sm text-gray-600">
+                {t.allocationMethods[charge.allocation_method as AllocationMethod] || charge.allocation_method}
+              </td>
+              <td className="py-2 text-sm text-right text-gray-900">{formatMoney(charge.amount, workspace.base_currency)}</td>
+              <td className="py-2 pl-3 text-right w-8">
+                {can('manage_purchase_orders') && (
+                  <button
+                    onClick={() => handleDelete(charge)}
+                    className="text-red-600 hover:text-red-800"
+                    title={tc.delete}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {charges.length === 0 && (
+            <tr>
+              <td colSpan={6} className="py-2 text-sm text-gray-500">{t.noCharges}</td>
+            </tr>
+          )}
+          {charges.length > 0 && (
+            <tr>
+              <td className="py-2 text-sm font-semibold text-gray-900" colSpan={4}>
+                {t.chargesTotal} ({unitCount} {t.perUnit})
+              </td>
+              <td className="py-2 text-sm text-right font-bold text-gray-900">{formatMoney(chargesTotal, workspace.base_currency)}</td>
+              <td />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default PoCharges;
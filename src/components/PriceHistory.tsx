@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { formatMoney } from '../lib/currency';
+import { fr } from '../lib/translations';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type PriceChange = Database['public']['Tables']['price_changes']['Row'] & {
+  markdown_rules?: Pick<Database['public']['Tables']['markdown_rules']['Row'], 'after_days' | 'discount_percent'> | null;
+};
+
+interface PriceHistoryProps {
+  item: InventoryItem;
+}
+
+function PriceHistory({ item }: PriceHistoryProps) {
+  const t = fr.pricing;
+  const { workspace } = useWorkspace();
+  const baseCurrency = workspace.base_currency;
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [item.id, item.asking_price]);
+
+  const loadChanges = async () => {
+    const { data, error } = await supabase
+      .from('price_changes')
+      .select(`
+        *,
+        markdown_rules (after_days, discount_percent)
+      `)
+      .eq('item_id', item.id)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading price history:', error);
+    } else {
+      setChanges(data || []);
+    }
+  };
+
+  const formatPrice = (price: number | null) => (price === null ? '-' : formatMoney(price, baseCurrency));
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">{t.priceHistory}</h3>
+        <span className="text-sm text-gray-600">
+          {t.askingPrice}: <span className="font-semibold text-gray-900">{formatPrice(item.asking_price)}</span>
+        </span>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">{t.noPriceHistory}</p>
+      ) : (
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.changedAt}</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.reason}</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.oldPrice}</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.newPrice}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {changes.map((change) => (
+              <tr key={change.id}>
+                <td className="px-3 py-2 text-sm text-gray-900">{new Date(change.changed_at).toLocaleDateString('fr-FR')}</td>
+                <td className="px-3 py-2 text-sm text-gray-600">
+                  {change.reason === 'markdown' ? t.markdown : t.manualChange}
+                  {change.markdown_rules &&
+                    ` (−${change.markdown_rules.discount_percent} %, ${change.markdown_rules.after_days} ${fr.dashboard.days})`}
+                </td>
+                <td className="px-3 py-2 text-sm text-right text-gray-600">{formatPrice(change.old_price)}</td>
+                <td className="px-3 py-2 text-sm text-right font-medium text-gray-900">{formatPrice(change.new_price)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default PriceHistory;
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { Tag } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { formatMoney } from '../lib/currency';
+import { getNetRevenue } from '../lib/profit';
+import { loadComparables, suggestPrice, type PriceSuggestion as Suggestion } from '../lib/pricing';
+import { fr } from '../lib/translations';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+
+interface PriceSuggestionProps {
+  item: InventoryItem;
+}
+
+function PriceSuggestion({ item }: PriceSuggestionProps) {
+  const t = fr.pricing;
+  const { can, workspace } = useWorkspace();
+  const baseCurrency = workspace.base_currency;
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+
+  useEffect(() => {
+    loadSuggestion();
+  }, [item.id]);
+
+  const loadSuggestion = async () => {
+    const { data, error } = await loadComparables(item);
+    if (!error) {
+      setSuggestion(suggestPrice(item, data.units, data.sales, workspace.target_margin_percent));
+    }
+  };
+
+  if (!suggestion) return null;
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">{t.suggestedPrice}</h3>
+        <span className="flex items-center gap-2 text-2xl font-bold text-blue-600">
+          <Tag size={20} />
+          {formatMoney(suggestion.price, baseCurrency)}
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">
+        {suggestion.marketPrice === null
+          ? t.noComparables
+          : `${t.basedOn} ${suggestion.comparables.length} ${t.comparableSales}. ${t.marketPrice}: ${formatMoney(suggestion.marketPrice, baseCurrency)}.`}
+        {can('view_costs') &&
+          ` ${t.floorPrice} (${workspace.target_margin_percent} %): ${formatMoney(suggestion.floorPrice, baseCurrency)}.`}
+      </p>
+
+      {suggestion.comparables.length > 0 && (
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.inventory.itemId}</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.saleDate}</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{fr.inventory.condition}</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.soldFor}</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.adjustedPrice}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {suggestion.comparables.map(({ unit, sale, adjustedPrice }) => (
+              <tr key={unit.id}>
+                <td className="px-3 py-2 text-sm font-mono text-gray-900">{unit.item_id}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{new Date(sale.sale_date).toLocaleDateString('fr-FR')}</td>
+                <td className="px-3 py-2 text-sm text-gray-600">
+                  Grade {unit.condition_grade}
+                  {unit.battery_health_percent !== null && `, ${unit.battery_health_percent}%`}
+                  {unit.battery_cycle_count !== null && `, ${unit.battery_cycle_count} ${t.cycles}`}
+                  {!unit.charger_included && `, ${t.noCharger}`}
+                  {unit.box_included && `, ${t.withBox}`}
+                </td>
+                <td className="px-3 py-2 text-sm text-right text-gray-900">{formatMoney(getNetRevenue(sale), baseCurrency)}</td>
+                <td className="px-3 py-2 text-sm text-right font-medium text-gray-900">{formatMoney(adjustedPrice, baseCurrency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default PriceSuggestion;
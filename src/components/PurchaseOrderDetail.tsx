@@ -0,0 +1,597 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, PackagePlus, X, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { conditionGrades } from '../lib/specs';
+import { cascadeSpecs } from '../lib/models';
+import { computePoProfitability, getItemsTotal, hasTotalMismatch } from '../lib/purchaseOrders';
+import { fr } from '../lib/translations';
+import PoCharges from './PoCharges';
+import ModelSpecFields from './ModelSpecFields';
+import { formatMoney } from '../lib/currency';
+
+type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'] & {
+  suppliers?: Database['public']['Tables']['suppliers']['Row'];
+};
+type PurchaseOrderLine = Database['public']['Tables']['purchase_order_lines']['Row'];
+type PurchaseOrderLineInsert = Database['public']['Tables']['purchase_order_lines']['Insert'];
+type InventoryInsert = Database['public']['Tables']['inventory_items']['Insert'];
+type Model = Database['public']['Tables']['models']['Row'];
+type LotItem = Pick<Database['public']['Tables']['inventory_items']['Row'], 'id' | 'status' | 'purchase_date' | 'purchase_cost' | 'purchase_cost_base' | 'additional_costs'>;
+type LotSale = Pick<Database['public']['Tables']['sales']['Row'], 'item_id' | 'sale_date' | 'sale_price' | 'refund_total' | 'unit_returned'>;
+
+interface ReceivedUnit {
+  supplier_item_number: string;
+  serial_number: string;
+  condition_grade: string;
+}
+
+interface PurchaseOrderDetailProps {
+  po: PurchaseOrder;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+// Starts on the first model of the catalog
+const emptyLine = (poId: string, models: Model[]): PurchaseOrderLineInsert => ({
+  po_id: poId,
+  expected_grade: 'A',
+  quantity: 1,
+  unit_cost: 0,
+  ...cascadeSpecs(models, {
+    model_id: null,
+    model_family: '',
+    screen_size: '',
+    year: new Date().getFullYear(),
+    chip: '',
+    ram_gb: 0,
+    storage_gb: 0,
+  }),
+});
+
+function PurchaseOrderDetail({ po, onClose, onChange }: PurchaseOrderDetailProps) {
+  const t = fr.po;
+  const ti = fr.inventory;
+  const tc = fr.common;
+  const { can, workspace } = useWorkspace();
+  const canManage = can('manage_purchase_orders');
+  const showCosts = can('view_costs');
+  const showProfit = can('view_profit');
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [models, setModels] = useState<Model[]>([]);
+  const [lotItems, setLotItems] = useState<LotItem[]>([]);
+  const [lotSales, setLotSales] = useState<LotSale[]>([]);
+  const [rmaCredits, setRmaCredits] = useState(0);
+  const [isAddingLine, setIsAddingLine] = useState(false);
+  const [lineData, setLineData] = useState<PurchaseOrderLineInsert>(emptyLine(po.id, []));
+  const [receivingLine, setReceivingLine] = useState<PurchaseOrderLine | null>(null);
+  const [receivedUnits, setReceivedUnits] = useState<ReceivedUnit[]>([]);
+  const [receivedOn, setReceivedOn] = useState(new Date().toISOString().split('T')[0]);
+
+  useEffect(() => {
+    loadLines();
+    loadLot();
+  }, [po.id]);
+
+  useEffect(() => {
+    loadModels();
+  }, []);
+
+  const loadModels = async () => {
+    const { data, error } = await supabase
+      .from('models')
+      .select('*')
+      .order('model_family')
+      .order('screen_size')
+      .order('year', { ascending: false });
+
+    if (error) {
+      console.error('Error loading models:', error);
+    } else {
+      setModels(data || []);
+      setLineData(emptyLine(po.id, data || []));
+    }
+  };
+
+  const loadLines = async () => {
+    const { data, error } = await supabase
+      .from('purchase_order_lines')
+      .select('*')
+      .eq('po_id', po.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading PO lines:', error);
+    } else {
+      setLines(data || []);
+    }
+  };
+
+  // Units linked to this order, with their sales and the supplier's RMA credits
+  const loadLot = async () => {
+    const { data: items, error } = await supabase
+      .from('inventory_items')
+      .select('id, status, purchase_date, purchase_cost, purchase_cost_base, additional_costs')
+      .eq('po_id', po.id);
+
+    if (error) {
+      console.error('Error loading PO items:', error);
+      return;
+    }
+    setLotItems(items || []);
+
+    const itemIds = (items || []).map((item) => item.id);
+    if (itemIds.length > 0) {
+      const { data: sales, error: salesError } = await supabase
+        .from('sales')
+        .select('item_id, sale_date, sale_price, refund_total, unit_returned')
+        .in('item_id', itemIds);
+
+      if (salesError) {
+        console.error('Error loading PO sales:', salesError);
+      } else {
+        setLotSales(sales || []);
+      }
+    } else {
+      setLotSales([]);
+    }
+
+    const { data: rmas, error: rmaError } = await supabase
+      .from('supplier_rmas')
+      .select('credit_amount')
+      .eq('po_id', po.id);
+
+    if (rmaError) {
+      console.error('Error loading PO RMAs:', rmaError);
+    } else {
+      setRmaCredits((rmas || []).reduce((sum, rma) => sum + rma.credit_amount, 0));
+    }
+  };
+
+  const handleAddLine = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (lineData.quantity < 1) {
+      alert('La quantité doit être d\'au moins 1');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('purchase_order_lines')
+      .insert([lineData]);
+
+    if (error) {
+      console.error('Error adding PO line:', error);
+      alert('Erreur lors de l\'ajout de la ligne');
+    } else {
+      setIsAddingLine(false);
+      setLineData(emptyLine(po.id, models));
+      loadLines();
+      onChange();
+    }
+  };
+
+  const handleDeleteLine = async (line: PurchaseOrderLine) => {
+    if (!window.confirm('Supprimer cette ligne?')) return;
+
+    const { error } = await supabase
+      .from('purchase_order_lines')
+      .delete()
+      .eq('id', line.id);
+
+    if (error) {
+      console.error('Error deleting PO line:', error);
+      alert('Erreur lors de la suppression de la ligne');
+    } else {
+      loadLines();
+      onChange();
+    }
+  };
+
+  // One row per unit still expected, numbered after the ones already received
+  const buildUnits = (line: PurchaseOrderLine, count: number): ReceivedUnit[] =>
+    Array.from({ length: count }, (_, i) => ({
+      supplier_item_number: `${po.po_number}-${line.received_quantity + i + 1}`,
+      serial_number: '',
+      condition_grade: line.expected_grade,
+    }));
+
+  const handleStartReceiving = (line: PurchaseOrderLine) => {
+    setReceivingLine(line);
+    setReceivedUnits(buildUnits(line, line.quantity - line.received_quantity));
+  };
+
+  const updateUnit = (index: number, changes: Partial<ReceivedUnit>) => {
+    setReceivedUnits(receivedUnits.map((unit, i) => (i === index ? { ...unit, ...changes } : unit)));
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingLine || !po.suppliers) return;
+
+    if (receivedUnits.some((unit) => !unit.supplier_item_number)) {
+      alert('Chaque unité a besoin d\'un numéro d\'article fournisseur');
+      return;
+    }
+
+    const supplierCode = po.suppliers.supplier_code;
+    const items: InventoryInsert[] = receivedUnits.map((unit) => ({
+      item_id: `${supplierCode}${unit.supplier_item_number}`,
+      supplier_id: po.supplier_id,
+      supplier_item_number: unit.supplier_item_number,
+      model_family: receivingLine.model_family,
+      screen_size: receivingLine.screen_size,
+      chip: receivingLine.chip,
+      ram_gb: receivingLine.ram_gb,
+      storage_gb: receivingLine.storage_gb,
+      year: receivingLine.year,
+      model_id: receivingLine.model_id,
+      serial_number: unit.serial_number || null,
+      color: null,
+      keyboard_layout: null,
+      os_installed: null,
+      condition_grade: unit.condition_grade,
+      condition_summary: '',
+      battery_cycle_count: null,
+      battery_health_percent: null,
+      charger_included: true,
+      box_included: false,
+      purchase_cost: receivingLine.unit_cost,
+      currency: po.currency,
+      purchase_date: receivedOn,
+      status: 'in_stock',
+      sold_date: null,
+      po_id: po.id,
+      po_line_id: receivingLine.id,
+      notes: null,
+    }));
+
+    const { error } = await supabase
+      .from('inventory_items')
+      .insert(items);
+
+    if (error) {
+      console.error('Error receiving PO line:', error);
+      alert('Erreur lors de la réception. Un de ces ID d\'article existe peut-être déjà.');
+    } else {
+      alert(`✅ ${items.length} ${t.itemsReceived}`);
+      setReceivingLine(null);
+      loadLines();
+      loadLot();
+      onChange();
+    }
+  };
+
+  const orderedTotal = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+  const itemsTotal = getItemsTotal(lotItems);
+  const profitability = computePoProfitability(lotItems, lotSales, rmaCredits);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{t.details} {po.po_number}</h2>
+            <p className="text-gray-600">{po.suppliers?.supplier_name || 'N/A'}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title={tc.close}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">{t.lines}</h3>
+          {canManage && !isAddingLine && !receivingLine && (
+            <button
+              onClick={() => setIsAddingLine(true)}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+              <Plus size={16} />
+              {t.addLine}
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 italic mb-4">{t.linesHelper}</p>
+
+        {isAddingLine && (
+          <form onSubmit={handleAddLine} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+            <div className="grid grid-cols-3 gap-3 mb-3">
+              <ModelSpecFields
+                models={models}
+                specs={lineData}
+                onChange={(specs) => setLineData({ ...lineData, ...specs })}
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.expectedGrade}</label>
+                <select
+                  value={lineData.expected_grade}
+                  onChange={(e) => setLineData({ ...lineData, expected_grade: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {conditionGrades.map((grade) => (
+                    <option key={grade} value={grade}>Grade {grade}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.quantity}</label>
+                <input
+                  type="number"
+                  value={lineData.quantity}
+                  onChange={(e) => setLineData({ ...lineData, quantity: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="1"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.unitCost} ({po.currency})</label>
+                <input
+                  type="number"
+                  value={lineData.unit_cost}
+                  onChange={(e) => setLineData({ ...lineData, unit_cost: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="0"
+                  step="0.01"
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                {tc.save}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsAddingLine(false)}
+                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                {tc.cancel}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {receivingLine && (
+          <form onSubmit={handleReceive} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+            <h4 className="font-semibold text-gray-900 mb-3">
+              {t.receiveLine}: {receivingLine.model_family} {receivingLine.screen_size}" {receivingLine.year} - {receivingLine.chip}, {receivingLine.ram_gb}GB / {receivingLine.storage_gb}GB
+            </h4>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.unitsToReceive}</label>
+                <select
+                  value={receivedUnits.length}
+                  onChange={(e) => setReceivedUnits(buildUnits(receivingLine, parseInt(e.target.value)))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Array.from({ length: receivingLine.quantity - receivingLine.received_quantity }, (_, i) => i + 1).map((count) => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.receivedOn}</label>
+                <input
+                  type="date"
+                  value={receivedOn}
+                  onChange={(e) => setReceivedOn(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+            <table className="w-full mb-3">
+              <thead>
+                <tr>
+                  <th className="py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.supplierItemNumber}</th>
+                  <th className="py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.serialNumber}</th>
+                  <th className="py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{ti.conditionGrade}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receivedUnits.map((unit, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={unit.supplier_item_number}
+                        onChange={(e) => updateUnit(index, { supplier_item_number: e.target.value })}
+                        className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        required
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={unit.serial_number}
+                        onChange={(e) => updateUnit(index, { serial_number: e.target.value })}
+                        className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="py-1">
+                      <select
+                        value={unit.condition_grade}
+                        onChange={(e) => updateUnit(index, { condition_grade: e.target.value })}
+                        className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {conditionGrades.map((grade) => (
+                          <option key={grade} value={grade}>Grade {grade}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors font-medium"
+              >
+                <PackagePlus size={18} />
+                {t.receive}
+              </button>
+              <button
+                type="button"
+                onClick={() => setReceivingLine(null)}
+                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                {tc.cancel}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.model}</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.specs}</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.expectedGrade}</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.receivedQty}</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.unitCost}</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t.lineTotal}</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {lines.map((line) => (
+              <tr key={line.id}>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  {line.model_family} {line.screen_size}" {line.year}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  {line.chip} / {line.ram_gb}GB / {line.storage_gb}GB
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-900">Grade {line.expected_grade}</td>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  <span className={line.received_quantity >= line.quantity ? 'text-green-700 font-medium' : ''}>
+                    {line.received_quantity} / {line.quantity}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-900">{formatMoney(line.unit_cost, po.currency)}</td>
+                <td className="px-4 py-2 text-sm text-right text-gray-900">
+                  {formatMoney(line.quantity * line.unit_cost, po.currency)}
+                </td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {canManage && (
+                    <div className="flex items-center justify-end gap-3">
+                      {line.received_quantity < line.quantity && po.status !== 'cancelled' && !receivingLine && !isAddingLine && (
+                        <button
+                          onClick={() => handleStartReceiving(line)}
+                          className="flex items-center gap-1 text-sm text-green-600 hover:text-green-800 font-medium"
+                        >
+                          <PackagePlus size={16} />
+                          {t.receive}
+                        </button>
+                      )}
+                      {line.received_quantity === 0 && (
+                        <button
+                          onClick={() => handleDeleteLine(line)}
+                          className="text-red-600 hover:text-red-800"
+                          title={tc.delete}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {lines.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-4 text-sm text-gray-500">{t.noLines}</td>
+              </tr>
+            )}
+            {lines.length > 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-2 text-sm font-semibold text-gray-900">{t.orderedTotal}</td>
+                <td className="px-4 py-2 text-sm text-right font-bold text-gray-900">{formatMoney(orderedTotal, po.currency)}</td>
+                <td />
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        <div className="mt-6 grid grid-cols-2 gap-4">
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <p className="text-sm text-gray-600">{t.itemsTotal}</p>
+            <p className="text-xl font-bold text-gray-900">{formatMoney(itemsTotal, po.currency)}</p>
+          </div>
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <p className="text-sm text-gray-600">{t.totalAmount}</p>
+            <p className="text-xl font-bold text-gray-900">
+              {po.total_amount !== null ? formatMoney(po.total_amount, po.currency) : '-'}
+            </p>
+          </div>
+        </div>
+        {hasTotalMismatch(po.total_amount, itemsTotal) && (
+          <div className="mt-3 flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+            <AlertTriangle size={18} />
+            {t.totalMismatch}
+          </div>
+        )}
+
+        {showCosts && (
+          <PoCharges poId={po.id} unitCount={lotItems.length} onChange={loadLot} />
+        )}
+
+        {showProfit && (
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">{t.profitability}</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{t.unitsReceived}</p>
+                <p className="text-xl font-bold text-gray-900">{profitability.unitsReceived}</p>
+              </div>
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{t.unitsSold}</p>
+                <p className="text-xl font-bold text-gray-900">{profitability.unitsSold}</p>
+              </div>
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{t.unitsRemaining}</p>
+                <p className="text-xl font-bold text-gray-900">{profitability.unitsRemaining}</p>
+              </div>
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{t.realizedProfit}</p>
+                <p className={`text-xl font-bold ${profitability.realizedProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatMoney(profitability.realizedProfit, workspace.base_currency)}
+                </p>
+                {profitability.rmaCredits > 0 && (
+                  <p className="text-xs text-gray-500">{t.rmaCredits}: {formatMoney(profitability.rmaCredits, workspace.base_currency)}</p>
+                )}
+              </div>
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{t.shelfCost}</p>
+                <p className="text-xl font-bold text-gray-900">{formatMoney(profitability.shelfCost, workspace.base_currency)}</p>
+              </div>
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{t.avgDaysToSell}</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {profitability.unitsSold > 0 ? profitability.avgDaysToSell : '-'}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
+          >
+            {tc.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PurchaseOrderDetail;
@@ -1,22 +1,32 @@
 import { useState, useEffect } from 'react';
-import { Plus, Edit2, FileText } from 'lucide-react';
+import { Plus, Edit2, FileText, List, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
 import { fr } from '../lib/translations';
+import { getItemsTotal, hasTotalMismatch } from '../lib/purchaseOrders';
+import { currencies, formatMoney } from '../lib/currency';
+import PurchaseOrderDetail from './PurchaseOrderDetail';
+import ExportMenu from './ExportMenu';
+import type { ExportColumn } from '../lib/export';
 
 type Supplier = Database['public']['Tables']['suppliers']['Row'];
 type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'] & {
   suppliers?: Database['public']['Tables']['suppliers']['Row'];
 };
 type PurchaseOrderInsert = Database['public']['Tables']['purchase_orders']['Insert'];
+type LinkedItem = Pick<Database['public']['Tables']['inventory_items']['Row'], 'po_id' | 'purchase_cost'>;
 
 function PurchaseOrders() {
   const t = fr.po;
   const tc = fr.common;
+  const { can, workspace } = useWorkspace();
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [linkedItems, setLinkedItems] = useState<LinkedItem[]>([]);
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [viewingPO, setViewingPO] = useState<PurchaseOrder | null>(null);
   const [formData, setFormData] = useState<Partial<PurchaseOrderInsert>>({
     po_number: '',
     supplier_id: '',
@@ -24,6 +34,7 @@ function PurchaseOrders() {
     expected_delivery_date: '',
     status: 'pending',
     total_amount: 0,
+    currency: workspace.base_currency,
     notes: '',
   });
 
@@ -46,6 +57,21 @@ function PurchaseOrders() {
     } else {
       setPurchaseOrders(data || []);
     }
+
+    loadLinkedItems();
+  };
+
+  const loadLinkedItems = async () => {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('po_id, purchase_cost')
+      .not('po_id', 'is', null);
+
+    if (error) {
+      console.error('Error loading linked items:', error);
+    } else {
+      setLinkedItems(data || []);
+    }
   };
 
   const loadSuppliers = async () => {
@@ -104,6 +130,7 @@ function PurchaseOrders() {
       expected_delivery_date: '',
       status: 'pending',
       total_amount: 0,
+      currency: workspace.base_currency,
       notes: '',
     });
   };
@@ -117,6 +144,7 @@ function PurchaseOrders() {
       expected_delivery_date: po.expected_delivery_date || '',
       status: po.status,
       total_amount: po.total_amount || 0,
+      currency: po.currency,
       notes: po.notes || '',
     });
     setIsAddingNew(false);
@@ -132,6 +160,7 @@ function PurchaseOrders() {
       expected_delivery_date: '',
       status: 'pending',
       total_amount: 0,
+      currency: workspace.base_currency,
       notes: '',
     });
   };
@@ -158,11 +187,19 @@ function PurchaseOrders() {
     );
   };
 
-  const statuses = [
-    { value: 'pending', label: t.pending },
-    { value: 'received', label: t.received },
-    { value: 'partial', label: t.partial },
-    { value: 'cancelled', label: t.cancelled },
+  const itemsOf = (po: PurchaseOrder) => linkedItems.filter((item) => item.po_id === po.id);
+
+  const exportColumns: ExportColumn<PurchaseOrder>[] = [
+    { key: 'po_number', header: t.poNumber, value: (po) => po.po_number },
+    { key: 'supplier', header: fr.inventory.supplier, value: (po) => po.suppliers?.supplier_name },
+    { key: 'order_date', header: t.orderDate, value: (po) => po.order_date },
+    { key: 'expected_delivery_date', header: t.expectedDelivery, value: (po) => po.expected_delivery_date },
+    { key: 'status', header: fr.export.status, value: (po) => po.status },
+    { key: 'currency', header: t.currency, value: (po) => po.currency },
+    { key: 'total_amount', header: t.totalAmount, value: (po) => po.total_amount },
+    { key: 'units', header: t.unitsReceived, value: (po) => itemsOf(po).length },
+    { key: 'items_total', header: t.itemsTotal, value: (po) => getItemsTotal(itemsOf(po)) },
+    { key: 'notes', header: tc.notes, value: (po) => po.notes },
   ];
 
   return (
@@ -174,15 +211,18 @@ function PurchaseOrders() {
               <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
               <p className="text-gray-600 mt-1">Gérer les factures de tes fournisseurs</p>
             </div>
-            {!isAddingNew && !editingId && (
-              <button
-                onClick={() => setIsAddingNew(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-              >
-                <Plus size={18} />
-                {t.addPO}
-              </button>
-            )}
+            <div className="flex gap-3">
+              <ExportMenu name="bons-de-commande" columns={exportColumns} rows={purchaseOrders} />
+              {!isAddingNew && !editingId && can('manage_purchase_orders') && (
+                <button
+                  onClick={() => setIsAddingNew(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Plus size={18} />
+                  {t.addPO}
+                </button>
+              )}
+            </div>
           </div>
           <p className="text-sm text-gray-600 italic">Créer des bons de commande pour ensuite les lier à tes produits</p>
         </div>
@@ -215,7 +255,11 @@ function PurchaseOrders() {
                   </label>
                   <select
                     value={formData.supplier_id}
-                    onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value })}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      supplier_id: e.target.value,
+                      currency: suppliers.find((supplier) => supplier.id === e.target.value)?.currency || formData.currency,
+                    })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     required
                   >
@@ -255,19 +299,18 @@ function PurchaseOrders() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Statut *
+                    Statut
                   </label>
-                  <select
-                    value={formData.status}
-                    onChange={(e) => setFormData({ ...formData, status: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    {statuses.map((status) => (
-                      <option key={status.value} value={status.value}>
-                        {status.label}
-                      </option>
-                    ))}
-                  </select>
+                  <label className="flex items-center gap-2 py-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.status === 'cancelled'}
+                      onChange={(e) => setFormData({ ...formData, status: e.target.checked ? 'cancelled' : 'pending' })}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-700">{t.cancelOrder}</span>
+                  </label>
+                  <p className="text-xs text-gray-500">{t.statusHelper}</p>
                 </div>
 
                 <div>
@@ -282,6 +325,22 @@ function PurchaseOrders() {
                     min="0"
                     step="0.01"
                   />
+                  <p className="text-xs text-gray-500 mt-1">{t.totalAmountHelper}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.currency}
+                  </label>
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {currencies.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -332,6 +391,9 @@ function PurchaseOrders() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   {t.expectedDelivery}
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.itemsTotal}
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   {t.totalAmount}
                 </th>
@@ -344,46 +406,70 @@ function PurchaseOrders() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {purchaseOrders.map((po) => (
-                <tr key={po.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center gap-2">
-                      <FileText size={18} className="text-blue-600" />
-                      <span className="font-mono font-semibold text-gray-900">
-                        {po.po_number}
-                      </span>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {po.suppliers?.supplier_name || 'N/A'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {new Date(po.order_date).toLocaleDateString('fr-FR')}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {po.expected_delivery_date 
-                      ? new Date(po.expected_delivery_date).toLocaleDateString('fr-FR')
-                      : '-'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {po.total_amount ? `$${po.total_amount.toFixed(2)}` : '-'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    {getStatusBadge(po.status)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    <button
-                      onClick={() => handleEdit(po)}
-                      className="text-blue-600 hover:text-blue-800"
-                    >
-                      <Edit2 size={18} />
-                    </button>
-                  </td>
-                </tr>
-              ))}
+              {purchaseOrders.map((po) => {
+                const itemsTotal = getItemsTotal(itemsOf(po));
+                return (
+                  <tr key={po.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        <FileText size={18} className="text-blue-600" />
+                        <span className="font-mono font-semibold text-gray-900">
+                          {po.po_number}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {po.suppliers?.supplier_name || 'N/A'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(po.order_date).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {po.expected_delivery_date 
+                        ? new Date(po.expected_delivery_date).toLocaleDateString('fr-FR')
+                        : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatMoney(itemsTotal, po.currency)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="flex items-center gap-2">
+                        {po.total_amount ? formatMoney(po.total_amount, po.currency) : '-'}
+                        {hasTotalMismatch(po.total_amount, itemsTotal) && (
+                          <span title={t.totalMismatch}>
+                            <AlertTriangle size={16} className="text-amber-600" />
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(po.status)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => setViewingPO(po)}
+                          className="text-gray-600 hover:text-gray-800"
+                          title={t.details}
+                        >
+                          <List size={18} />
+                        </button>
+                        {can('manage_purchase_orders') && (
+                          <button
+                            onClick={() => handleEdit(po)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            <Edit2 size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
               {purchaseOrders.length === 0 && (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
                     Aucun bon de commande trouvé. Créez votre premier bon de commande pour commencer.
                   </td>
                 </tr>
@@ -396,6 +482,14 @@ function PurchaseOrders() {
       <footer className="mt-8 text-center text-sm text-gray-500">
         {tc.footer}
       </footer>
+
+      {viewingPO && (
+        <PurchaseOrderDetail
+          po={viewingPO}
+          onClose={() => setViewingPO(null)}
+          onChange={loadPurchaseOrders}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,427 @@
+import { useState, useEffect } from 'react';
+import { Plus, XCircle, CalendarClock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { cancelReservation, releaseExpiredReservations, reserveItem } from '../lib/sales';
+import { formatInvoiceNumber, getPaymentMethodLabel } from '../lib/invoice';
+import { fr } from '../lib/translations';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type Customer = Database['public']['Tables']['customers']['Row'];
+type ReservationInsert = Database['public']['Tables']['reservations']['Insert'];
+type Reservation = Database['public']['Tables']['reservations']['Row'] & {
+  inventory_items: Pick<InventoryItem, 'item_id' | 'model_family' | 'screen_size' | 'serial_number'> | null;
+  customers: Pick<Customer, 'name' | 'phone'> | null;
+  sales: Pick<Database['public']['Tables']['sales']['Row'], 'invoice_number'> | null;
+};
+type ReservationStatus = keyof typeof fr.reservations.statuses;
+
+const paymentMethods = ['cash', 'interac', 'credit_card', 'bank_transfer'];
+
+// Units are held for a week unless told otherwise
+const emptyReservation = (): ReservationInsert => {
+  const expiresOn = new Date();
+  expiresOn.setDate(expiresOn.getDate() + 7);
+  return {
+    item_id: '',
+    customer_id: '',
+    deposit_amount: 0,
+    payment_method: 'cash',
+    expires_on: expiresOn.toISOString().split('T')[0],
+    notes: null,
+  };
+};
+
+const getDaysLeft = (expiresOn: string): number => {
+  const today = new Date(new Date().toISOString().split('T')[0]);
+  return Math.round((new Date(expiresOn).getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+function Reservations() {
+  const t = fr.reservations;
+  const tc = fr.common;
+  const { can } = useWorkspace();
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState<ReservationInsert>(emptyReservation());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+
+  useEffect(() => {
+    loadReservations();
+    loadCustomers();
+  }, []);
+
+  const loadReservations = async () => {
+    await releaseExpiredReservations();
+
+    const { data, error } = await supabase
+      .from('reservations')
+      .select(`
+        *,
+        inventory_items (item_id, model_family, screen_size, serial_number),
+        customers (name, phone),
+        sales (invoice_number)
+      `)
+      .order('expires_on');
+
+    if (error) {
+      console.error('Error loading reservations:', error);
+    } else {
+      setReservations((data || []) as Reservation[]);
+    }
+  };
+
+  const loadAvailableItems = async () => {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('status', 'in_stock')
+      .order('item_id');
+
+    if (error) {
+      console.error('Error loading items:', error);
+    } else {
+      setItems(data || []);
+    }
+  };
+
+  const loadCustomers = async () => {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error loading customers:', error);
+    } else {
+      setCustomers(data || []);
+    }
+  };
+
+  const handleAdd = () => {
+    loadAvailableItems();
+    setIsAdding(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.item_id || !formData.customer_id) {
+      alert('Veuillez choisir un appareil et un client');
+      return;
+    }
+
+    const { error } = await reserveItem({ ...formData, notes: formData.notes || null });
+
+    if (error) {
+      alert(error.message);
+      if (error.code === 'item_not_sellable' || error.code === 'item_not_found') {
+        setFormData({ ...formData, item_id: '' });
+        loadAvailableItems();
+      }
+      return;
+    }
+
+    handleCancel();
+    loadReservations();
+  };
+
+  const handleCancelReservation = async (reservation: Reservation) => {
+    if (!window.confirm(t.cancelConfirm)) return;
+
+    const { error } = await cancelReservation(reservation.id);
+
+    if (error) {
+      alert(error.message);
+    }
+    loadReservations();
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setSearchTerm('');
+    setFormData(emptyReservation());
+  };
+
+  const getStatusBadge = (status: string) => {
+    const statusColors: Record<string, string> = {
+      active: 'bg-blue-100 text-blue-700',
+      converted: 'bg-green-100 text-green-700',
+      expired: 'bg-gray-100 text-gray-700',
+      cancelled: 'bg-red-100 text-red-700',
+    };
+
+    return (
+      <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full ${statusColors[status] || 'bg-gray-100 text-gray-700'}`}>
+        {t.statuses[status as ReservationStatus] || status}
+      </span>
+    );
+  };
+
+  const filteredItems = items.filter((item) => {
+    const search = searchTerm.toLowerCase();
+    return (
+      item.item_id.toLowerCase().includes(search) ||
+      item.model_family.toLowerCase().includes(search) ||
+      (item.serial_number || '').toLowerCase().includes(search)
+    );
+  });
+
+  const visibleReservations = reservations.filter(
+    (reservation) => showInactive || reservation.status === 'active'
+  );
+
+  return (
+    <div className="p-8 bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+              <p className="text-gray-600 mt-1">{t.subtitle}</p>
+            </div>
+            {!isAdding && can('manage_reservations') && (
+              <button
+                onClick={handleAdd}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <Plus size={18} />
+                {t.reserveItem}
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 italic">{t.helperText}</p>
+        </div>
+
+        {isAdding && (
+          <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">{t.reserveItem}</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.item} *</label>
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-2"
+                    placeholder={t.searchItem}
+                  />
+                  <select
+                    value={formData.item_id}
+                    onChange={(e) => setFormData({ ...formData, item_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    <option value="">{t.selectItem}</option>
+                    {filteredItems.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.item_id} - {item.model_family} {item.screen_size}" ({item.chip}, {item.ram_gb}GB, {item.storage_gb}GB)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.customer} *</label>
+                  <select
+                    value={formData.customer_id}
+                    onChange={(e) => setFormData({ ...formData, customer_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    <option value="">{t.selectCustomer}</option>
+                    {customers.map((customer) => (
+                      <option key={customer.id} value={customer.id}>
+                        {customer.name} ({customer.phone})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.deposit}</label>
+                  <input
+                    type="number"
+                    value={formData.deposit_amount}
+                    onChange={(e) => setFormData({ ...formData, deposit_amount: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    step="0.01"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.depositPaidBy}</label>
+                  <select
+                    value={formData.payment_method}
+                    onChange={(e) => setFormData({ ...formData, payment_method: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {paymentMethods.map((method) => (
+                      <option key={method} value={method}>{getPaymentMethodLabel(method)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.expiresOn} *</label>
+                  <input
+                    type="date"
+                    value={formData.expires_on}
+                    onChange={(e) => setFormData({ ...formData, expires_on: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min={new Date().toISOString().split('T')[0]}
+                    required
+                  />
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{tc.notes}</label>
+                  <textarea
+                    value={formData.notes || ''}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={2}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  {tc.save}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  {tc.cancel}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="flex justify-end mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t.showInactive}
+          </label>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.item}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.customer}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.deposit}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.reservedOn}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.expiresOn}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.status}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {tc.actions}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleReservations.map((reservation) => {
+                const daysLeft = getDaysLeft(reservation.expires_on);
+
+                return (
+                  <tr key={reservation.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <span className="font-mono font-semibold">{reservation.inventory_items?.item_id || 'N/A'}</span>
+                      {reservation.inventory_items && (
+                        <p className="text-gray-500">
+                          {reservation.inventory_items.model_family} {reservation.inventory_items.screen_size}"
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <p>{reservation.customers?.name || 'N/A'}</p>
+                      {reservation.customers && <p className="text-gray-500">{reservation.customers.phone}</p>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <p className="font-semibold">${reservation.deposit_amount.toFixed(2)}</p>
+                      <p className="text-gray-500">{getPaymentMethodLabel(reservation.payment_method)}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(reservation.reserved_on).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <p>{new Date(reservation.expires_on).toLocaleDateString('fr-FR')}</p>
+                      {reservation.status === 'active' && (
+                        <p className={`text-xs ${daysLeft <= 1 ? 'text-amber-700' : 'text-gray-500'}`}>
+                          {daysLeft === 0 ? t.expiresToday : `${daysLeft} ${t.daysLeft}`}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(reservation.status)}
+                      {reservation.sales && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {fr.invoice.invoice} {formatInvoiceNumber(reservation.sales.invoice_number)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {can('manage_reservations') && reservation.status === 'active' && (
+                        <button
+                          onClick={() => handleCancelReservation(reservation)}
+                          className="text-red-600 hover:text-red-800"
+                          title={t.cancel}
+                        >
+                          <XCircle size={18} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {visibleReservations.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    <CalendarClock className="mx-auto mb-2 text-gray-400" size={32} />
+                    {t.noReservations}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <footer className="mt-8 text-center text-sm text-gray-500">
+        {tc.footer}
+      </footer>
+    </div>
+  );
+}
+
+export default Reservations;
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { recordReturn } from '../lib/sales';
+import { formatInvoiceNumber } from '../lib/invoice';
+import type { Database } from '../lib/database.types';
+import { fr } from '../lib/translations';
+
+type Sale = Database['public']['Tables']['sales']['Row'] & {
+  inventory_items?: Database['public']['Tables']['inventory_items']['Row'];
+};
+type SaleReturnInsert = Database['public']['Tables']['sale_returns']['Insert'];
+type Reason = keyof typeof fr.returns.reasons;
+type Disposition = keyof typeof fr.returns.dispositions;
+
+interface SaleReturnFormProps {
+  sale: Sale;
+  onCancel: () => void;
+  onSuccess: () => void;
+}
+
+function SaleReturnForm({ sale, onCancel, onSuccess }: SaleReturnFormProps) {
+  const t = fr.returns;
+  const tc = fr.common;
+  const leftToRefund = sale.sale_price - sale.refund_total;
+  const [fullRefund, setFullRefund] = useState(true);
+  const [formData, setFormData] = useState<SaleReturnInsert>({
+    sale_id: sale.id,
+    return_date: new Date().toISOString().split('T')[0],
+    reason: 'defective',
+    refund_amount: leftToRefund,
+    restocking_fee: 0,
+    disposition: sale.unit_returned ? 'kept' : 'returned',
+    notes: null,
+  });
+
+  // A full refund gives back everything left except the restocking fee
+  const refundAmount = fullRefund
+    ? Math.max(leftToRefund - formData.restocking_fee, 0)
+    : formData.refund_amount;
+  const taxRefunded = sale.sale_price > 0 ? (sale.tax_total * refundAmount) / sale.sale_price : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (refundAmount < 0 || refundAmount > leftToRefund) {
+      alert(`Le remboursement doit être entre $0.00 et $${leftToRefund.toFixed(2)}`);
+      return;
+    }
+
+    const { error } = await recordReturn({
+      ...formData,
+      refund_amount: refundAmount,
+      notes: formData.notes || null,
+    });
+
+    if (error) {
+      alert(error.message);
+      return;
+    }
+
+    onSuccess();
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">{t.recordReturn}</h2>
+      <p className="text-sm text-gray-600 italic mb-4">{t.helperText}</p>
+
+      <div className="grid grid-cols-3 gap-4 mb-4 bg-gray-50 border border-gray-200 rounded-md p-3 text-sm">
+        <div>
+          <p className="text-gray-500">{t.originalSale}</p>
+          <p className="font-medium text-gray-900">
+            {formatInvoiceNumber(sale.invoice_number)} · {sale.inventory_items?.item_id || 'N/A'} · ${sale.sale_price.toFixed(2)}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">{t.alreadyRefunded}</p>
+          <p className="font-medium text-gray-900">${sale.refund_total.toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">{t.leftToRefund}</p>
+          <p className="font-medium text-gray-900">${leftToRefund.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.returnDate} *</label>
+            <input
+              type="date"
+              value={formData.return_date}
+              onChange={(e) => setFormData({ ...formData, return_date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.reason} *</label>
+            <select
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(t.reasons) as Reason[]).map((reason) => (
+                <option key={reason} value={reason}>{t.reasons[reason]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.disposition} *</label>
+            <div className="flex gap-6">
+              {(Object.keys(t.dispositions) as Disposition[]).map((disposition) => (
+                <label key={disposition} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="disposition"
+                    value={disposition}
+                    checked={formData.disposition === disposition}
+                    onChange={() => setFormData({ ...formData, disposition })}
+                    disabled={sale.unit_returned && disposition !== 'kept'}
+                  />
+                  {t.dispositions[disposition]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+              <input
+                type="checkbox"
+                checked={fullRefund}
+                onChange={(e) => setFullRefund(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              {t.fullRefund}
+            </label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.refundAmount}</label>
+            <input
+              type="number"
+              value={refundAmount}
+              onChange={(e) => setFormData({ ...formData, refund_amount: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              min="0"
+              max={leftToRefund}
+              step="0.01"
+              disabled={fullRefund}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {t.taxRefunded}: ${taxRefunded.toFixed(2)}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 mt-6">{t.restockingFee}</label>
+            <input
+              type="number"
+              value={formData.restocking_fee}
+              onChange={(e) => setFormData({ ...formData, restocking_fee: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">{tc.notes}</label>
+            <textarea
+              value={formData.notes || ''}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="flex items-center gap-2 bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors font-medium"
+          >
+            <Undo2 size={18} />
+            {t.recordReturn}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+          >
+            <X size={18} />
+            {tc.cancel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default SaleReturnForm;
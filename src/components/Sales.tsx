@@ -1,22 +1,36 @@
 import { useState, useEffect } from 'react';
-import { Plus, DollarSign, Edit2, Trash2 } from 'lucide-react';
+import { Plus, DollarSign, Edit2, Trash2, FileText, Undo2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
 import AddSale from './AddSale';
+import Invoice from './Invoice';
+import SaleReturnForm from './SaleReturnForm';
+import ExportMenu from './ExportMenu';
+import { updateSale, deleteSale } from '../lib/sales';
+import { useWorkspace } from '../lib/workspace';
+import { getLandedCost, getNetRevenue, getSaleProfit } from '../lib/profit';
+import { formatInvoiceNumber } from '../lib/invoice';
+import { isUnderWarranty, warrantyOptions } from '../lib/warranty';
+import type { ExportColumn } from '../lib/export';
 import { fr } from '../lib/translations';
 
 type Sale = Database['public']['Tables']['sales']['Row'] & {
   inventory_items?: Database['public']['Tables']['inventory_items']['Row'];
-  customers?: Database['public']['Tables']['customers']['Row'];
+  customers?: Database['public']['Tables']['customers']['Row'] | null;
 };
 type SaleInsert = Database['public']['Tables']['sales']['Insert'];
 
 function Sales() {
   const t = fr.sales;
   const tc = fr.common;
+  const { can } = useWorkspace();
+  const showCosts = can('view_costs');
+  const showProfit = can('view_profit');
   const [sales, setSales] = useState<Sale[]>([]);
   const [isAddingSale, setIsAddingSale] = useState(false);
   const [editingSale, setEditingSale] = useState<Sale | null>(null);
+  const [invoiceSaleId, setInvoiceSaleId] = useState<string | null>(null);
+  const [returningSale, setReturningSale] = useState<Sale | null>(null);
   const [loading, setLoading] = useState(true);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [formData, setFormData] = useState<Partial<SaleInsert>>({
@@ -49,8 +63,9 @@ function Sales() {
     setLoading(false);
   };
 
-  const handleSaleAdded = () => {
+  const handleSaleAdded = (sale: Sale) => {
     setIsAddingSale(false);
+    setInvoiceSaleId(sale.id);
     setShowSuccessMessage(true);
     loadSales();
     setTimeout(() => {
@@ -67,6 +82,7 @@ function Sales() {
       channel: sale.channel,
       notes: sale.notes || '',
       customer_id: sale.customer_id,
+      warranty_months: sale.warranty_months,
     });
   };
 
@@ -74,14 +90,10 @@ function Sales() {
     e.preventDefault();
     if (!editingSale) return;
 
-    const { error } = await supabase
-      .from('sales')
-      .update(formData)
-      .eq('id', editingSale.id);
+    const { error } = await updateSale(editingSale.id, formData as SaleInsert);
 
     if (error) {
-      console.error('Error updating sale:', error);
-      alert('Erreur lors de la mise à jour de la vente');
+      alert(error.message);
     } else {
       alert('✅ Vente mise à jour avec succès!');
       setEditingSale(null);
@@ -99,34 +111,20 @@ function Sales() {
 
     if (!confirmDelete) return;
 
-    // Supprimer la vente
-    const { error: deleteError } = await supabase
-      .from('sales')
-      .delete()
-      .eq('id', sale.id);
+    // Supprimer la vente et remettre l'article en stock (une seule transaction)
+    const { error } = await deleteSale(sale.id);
 
-    if (deleteError) {
-      console.error('Error deleting sale:', deleteError);
-      alert('Erreur lors de la suppression de la vente');
+    if (error) {
+      alert(error.message);
       return;
     }
 
-    // Remettre l'article en stock
-    const { error: updateError } = await supabase
-      .from('inventory_items')
-      .update({
-        status: 'in_stock',
-        sold_date: null,
-      })
-      .eq('id', sale.item_id);
-
-    if (updateError) {
-      console.error('Error returning item to stock:', updateError);
-      alert('⚠️ Vente supprimée mais erreur lors de la remise en stock');
-    } else {
-      alert('✅ Vente supprimée et article remis en stock!');
-    }
+    alert('✅ Vente supprimée et article remis en stock!');
+    loadSales();
+  };
 
+  const handleReturnRecorded = () => {
+    setReturningSale(null);
     loadSales();
   };
 
@@ -140,13 +138,9 @@ function Sales() {
     });
   };
 
-  const calculateProfit = (salePrice: number, purchaseCost: number) => {
-    return salePrice - purchaseCost;
-  };
-
-  const calculateMargin = (salePrice: number, purchaseCost: number) => {
-    if (salePrice === 0) return 0;
-    return ((salePrice - purchaseCost) / salePrice) * 100;
+  const calculateMargin = (revenue: number, profit: number) => {
+    if (revenue === 0) return 0;
+    return (profit / revenue) * 100;
   };
 
   if (loading) {
@@ -161,16 +155,43 @@ function Sales() {
     );
   }
 
-  const totalRevenue = sales.reduce((sum, sale) => sum + sale.sale_price, 0);
+  const totalRevenue = sales.reduce((sum, sale) => sum + getNetRevenue(sale), 0);
   const totalProfit = sales.reduce((sum, sale) => {
     if (sale.inventory_items) {
-      return sum + calculateProfit(sale.sale_price, sale.inventory_items.purchase_cost);
+      return sum + getSaleProfit(sale, sale.inventory_items);
     }
     return sum;
   }, 0);
 
   const paymentMethods = ['cash', 'interac', 'credit_card', 'bank_transfer'];
-  const channels = ['walk-in', 'marketplace', 'instagram', 'shopify', 'referral', 'other'];
+  const channels = ['walk-in', 'marketplace', 'instagram', 'shopify', 'referral', 'clearance', 'wholesale', 'other'];
+
+  const exportColumns: ExportColumn<Sale>[] = [
+    { key: 'invoice_number', header: t.invoiceNumber, value: (sale) => formatInvoiceNumber(sale.invoice_number) },
+    { key: 'sale_date', header: t.saleDate, value: (sale) => sale.sale_date },
+    { key: 'item_id', header: fr.inventory.itemId, value: (sale) => sale.inventory_items?.item_id },
+    {
+      key: 'model',
+      header: fr.inventory.model,
+      value: (sale) => sale.inventory_items && `${sale.inventory_items.model_family} ${sale.inventory_items.screen_size}" ${sale.inventory_items.year}`,
+    },
+    { key: 'serial_number', header: fr.inventory.serialNumber, value: (sale) => sale.inventory_items?.serial_number },
+    { key: 'customer', header: t.customer, value: (sale) => sale.customers?.name },
+    { key: 'sale_price', header: t.salePrice, value: (sale) => sale.sale_price },
+    { key: 'tax_total', header: t.taxes, value: (sale) => sale.tax_total },
+    { key: 'refund_total', header: fr.returns.refunded, value: (sale) => sale.refund_total },
+    { key: 'net_revenue', header: fr.export.netRevenue, value: (sale) => getNetRevenue(sale) },
+    { key: 'payment_method', header: t.paymentMethod, value: (sale) => sale.payment_method },
+    { key: 'channel', header: t.channel, value: (sale) => sale.channel },
+    { key: 'warranty_months', header: t.warranty, value: (sale) => sale.warranty_months },
+    ...(showCosts ? [
+      { key: 'landed_cost', header: fr.inventory.landedCost, value: (sale: Sale) => sale.inventory_items && getLandedCost(sale.inventory_items) },
+    ] : []),
+    ...(showProfit ? [
+      { key: 'profit', header: t.profit, value: (sale: Sale) => sale.inventory_items && getSaleProfit(sale, sale.inventory_items) },
+    ] : []),
+    { key: 'notes', header: tc.notes, value: (sale) => sale.notes },
+  ];
 
   return (
     <div className="p-8 bg-white min-h-screen">
@@ -181,15 +202,18 @@ function Sales() {
               <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
               <p className="text-gray-600 mt-1">{t.subtitle}</p>
             </div>
-            {!isAddingSale && !editingSale && (
-              <button
-                onClick={() => setIsAddingSale(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-              >
-                <Plus size={18} />
-                {t.addSale}
-              </button>
-            )}
+            <div className="flex gap-3">
+              <ExportMenu name="ventes" columns={exportColumns} rows={sales} />
+              {!isAddingSale && !editingSale && !returningSale && can('record_sales') && (
+                <button
+                  onClick={() => setIsAddingSale(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Plus size={18} />
+                  {t.addSale}
+                </button>
+              )}
+            </div>
           </div>
           <p className="text-sm text-gray-600 italic">{t.helperText}</p>
         </div>
@@ -200,7 +224,7 @@ function Sales() {
           </div>
         )}
 
-        <div className="grid grid-cols-3 gap-6 mb-8">
+        <div className={`grid ${showProfit ? 'grid-cols-3' : 'grid-cols-2'} gap-6 mb-8`}>
           <div className="bg-white rounded-lg border border-gray-200 p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -221,15 +245,17 @@ function Sales() {
             </div>
           </div>
 
-          <div className="bg-white rounded-lg border border-gray-200 p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">{t.totalProfit}</p>
-                <p className="text-3xl font-bold text-gray-900 mt-2">${totalProfit.toFixed(2)}</p>
+          {showProfit && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{t.totalProfit}</p>
+                  <p className="text-3xl font-bold text-gray-900 mt-2">${totalProfit.toFixed(2)}</p>
+                </div>
+                <DollarSign className="text-blue-600" size={40} />
               </div>
-              <DollarSign className="text-blue-600" size={40} />
             </div>
-          </div>
+          )}
         </div>
 
         {isAddingSale && (
@@ -239,6 +265,14 @@ function Sales() {
           />
         )}
 
+        {returningSale && (
+          <SaleReturnForm
+            sale={returningSale}
+            onCancel={() => setReturningSale(null)}
+            onSuccess={handleReturnRecorded}
+          />
+        )}
+
         {editingSale && (
           <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
             <h2 className="text-xl font-semibold mb-4">Modifier la vente</h2>
@@ -269,6 +303,7 @@ function Sales() {
                     step="0.01"
                     required
                   />
+                  <p className="text-xs text-gray-500 mt-1">{t.preTaxPriceHelper}</p>
                 </div>
 
                 <div>
@@ -318,6 +353,23 @@ function Sales() {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.warranty}
+                  </label>
+                  <select
+                    value={formData.warranty_months}
+                    onChange={(e) => setFormData({ ...formData, warranty_months: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {warrantyOptions.map((months) => (
+                      <option key={months} value={months}>
+                        {months === 0 ? t.noWarranty : `${months} ${t.months}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Notes
@@ -359,6 +411,9 @@ function Sales() {
             <table className="w-full">
               <thead className="bg-gray-50 border-b border-gray-200">
                 <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t.invoiceNumber}
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     {t.date}
                   </th>
@@ -371,18 +426,30 @@ function Sales() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     {t.customer}
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    {fr.inventory.cost}
-                  </th>
+                  {showCosts && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {fr.inventory.cost}
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     {t.salePrice}
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    {t.profit}
+                    {t.taxes}
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    {t.margin}
+                    {t.warranty}
                   </th>
+                  {showProfit && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t.profit}
+                    </th>
+                  )}
+                  {showProfit && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t.margin}
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     {t.channelLabel}
                   </th>
@@ -393,15 +460,14 @@ function Sales() {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {sales.map((sale) => {
-                  const profit = sale.inventory_items
-                    ? calculateProfit(sale.sale_price, sale.inventory_items.purchase_cost)
-                    : 0;
-                  const margin = sale.inventory_items
-                    ? calculateMargin(sale.sale_price, sale.inventory_items.purchase_cost)
-                    : 0;
+                  const profit = sale.inventory_items ? getSaleProfit(sale, sale.inventory_items) : 0;
+                  const margin = calculateMargin(getNetRevenue(sale), profit);
 
                   return (
                     <tr key={sale.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-gray-600">
+                        {formatInvoiceNumber(sale.invoice_number)}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {new Date(sale.sale_date).toLocaleDateString()}
                       </td>
@@ -418,22 +484,50 @@ function Sales() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {sale.customers?.name || t.noCustomer}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        ${sale.inventory_items?.purchase_cost.toFixed(2) || '0.00'}
-                      </td>
+                      {showCosts && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          ${sale.inventory_items ? getLandedCost(sale.inventory_items).toFixed(2) : '0.00'}
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
                         ${sale.sale_price.toFixed(2)}
+                        {sale.refund_total > 0 && (
+                          <p className="text-xs font-normal text-orange-600">
+                            {fr.returns.refunded}: -${sale.refund_total.toFixed(2)}
+                          </p>
+                        )}
+                        {sale.unit_returned && (
+                          <span className="inline-flex mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-700">
+                            {fr.returns.returnedBadge}
+                          </span>
+                        )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold">
-                        <span className={profit >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          ${profit.toFixed(2)}
-                        </span>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        ${sale.tax_total.toFixed(2)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        <span className={margin >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          {margin.toFixed(1)}%
-                        </span>
+                        {sale.warranty_months > 0 ? (
+                          <span className={isUnderWarranty(sale) ? 'text-green-600' : 'text-gray-500'}>
+                            {new Date(sale.warranty_expires_on).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
                       </td>
+                      {showProfit && (
+                        <>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold">
+                            <span className={profit >= 0 ? 'text-green-600' : 'text-red-600'}>
+                              ${profit.toFixed(2)}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={margin >= 0 ? 'text-green-600' : 'text-red-600'}>
+                              {margin.toFixed(1)}%
+                            </span>
+                          </td>
+                        </>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
                           {sale.channel}
@@ -442,19 +536,39 @@ function Sales() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
                         <div className="flex items-center gap-3">
                           <button
-                            onClick={() => handleEdit(sale)}
-                            className="text-blue-600 hover:text-blue-800"
-                            title={tc.edit}
+                            onClick={() => setInvoiceSaleId(sale.id)}
+                            className="text-gray-600 hover:text-gray-800"
+                            title={fr.invoice.viewInvoice}
                           >
-                            <Edit2 size={18} />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(sale)}
-                            className="text-red-600 hover:text-red-800"
-                            title="Supprimer (remet en stock)"
-                          >
-                            <Trash2 size={18} />
+                            <FileText size={18} />
                           </button>
+                          {can('record_returns') && sale.refund_total < sale.sale_price && (
+                            <button
+                              onClick={() => setReturningSale(sale)}
+                              className="text-orange-600 hover:text-orange-800"
+                              title={fr.returns.recordReturn}
+                            >
+                              <Undo2 size={18} />
+                            </button>
+                          )}
+                          {can('edit_sales') && (
+                            <button
+                              onClick={() => handleEdit(sale)}
+                              className="text-blue-600 hover:text-blue-800"
+                              title={tc.edit}
+                            >
+                              <Edit2 size={18} />
+                            </button>
+                          )}
+                          {can('delete_sales') && (
+                            <button
+                              onClick={() => handleDelete(sale)}
+                              className="text-red-600 hover:text-red-800"
+                              title="Supprimer (remet en stock)"
+                            >
+                              <Trash2 size={18} />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -462,7 +576,7 @@ function Sales() {
                 })}
                 {sales.length === 0 && (
                   <tr>
-                    <td colSpan={10} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={13 - (showCosts ? 0 : 1) - (showProfit ? 0 : 2)} className="px-6 py-8 text-center text-gray-500">
                       {t.noSales}
                     </td>
                   </tr>
@@ -473,6 +587,10 @@ function Sales() {
         </div>
       </div>
 
+      {invoiceSaleId && (
+        <Invoice saleId={invoiceSaleId} onClose={() => setInvoiceSaleId(null)} />
+      )}
+
       <footer className="mt-8 text-center text-sm text-gray-500">
         {tc.footer}
       </footer>
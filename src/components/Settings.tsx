@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { Save } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { currencies } from '../lib/currency';
+import { fr } from '../lib/translations';
+import ExchangeRates from './ExchangeRates';
+import ModelCatalog from './ModelCatalog';
+import MarkdownRules from './MarkdownRules';
+import WorkspaceBackup from './WorkspaceBackup';
+
+type WorkspaceUpdate = Database['public']['Tables']['workspaces']['Update'];
+
+function Settings() {
+  const t = fr.settings;
+  const tc = fr.common;
+  const { workspace } = useWorkspace();
+  const [formData, setFormData] = useState<WorkspaceUpdate>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('id', workspace.id)
+      .single();
+
+    if (error) {
+      console.error('Error loading settings:', error);
+    } else {
+      setFormData({
+        business_name: data.business_name || '',
+        business_address: data.business_address || '',
+        business_phone: data.business_phone || '',
+        business_email: data.business_email || '',
+        gst_number: data.gst_number || '',
+        qst_number: data.qst_number || '',
+        next_invoice_number: data.next_invoice_number,
+        base_currency: data.base_currency,
+        target_margin_percent: data.target_margin_percent,
+        markdown_floor_margin_percent: data.markdown_floor_margin_percent,
+      });
+    }
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.next_invoice_number || formData.next_invoice_number < 1) {
+      alert('Le prochain numéro de facture doit être supérieur à zéro');
+      return;
+    }
+
+    if (formData.target_margin_percent === undefined || !(formData.target_margin_percent >= 0 && formData.target_margin_percent < 100)) {
+      alert('La marge visée doit être entre 0 et 100 %');
+      return;
+    }
+
+    if (formData.markdown_floor_margin_percent === undefined || !(formData.markdown_floor_margin_percent >= 0 && formData.markdown_floor_margin_percent < 100)) {
+      alert('La marge minimale des démarques doit être entre 0 et 100 %');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('workspaces')
+      .update({
+        business_name: formData.business_name || null,
+        business_address: formData.business_address || null,
+        business_phone: formData.business_phone || null,
+        business_email: formData.business_email || null,
+        gst_number: formData.gst_number || null,
+        qst_number: formData.qst_number || null,
+        next_invoice_number: formData.next_invoice_number,
+        base_currency: formData.base_currency,
+        target_margin_percent: formData.target_margin_percent,
+        markdown_floor_margin_percent: formData.markdown_floor_margin_percent,
+      })
+      .eq('id', workspace.id);
+
+    if (error) {
+      console.error('Error saving settings:', error);
+      alert('Erreur lors de l\'enregistrement des paramètres');
+    } else {
+      alert(`✅ ${t.saved}`);
+      loadSettings();
+    }
+  };
+
+  const textFields: { key: keyof WorkspaceUpdate; label: string; type: string }[] = [
+    { key: 'business_name', label: t.businessName, type: 'text' },
+    { key: 'business_phone', label: t.businessPhone, type: 'tel' },
+    { key: 'business_email', label: t.businessEmail, type: 'email' },
+    { key: 'gst_number', label: t.gstNumber, type: 'text' },
+    { key: 'qst_number', label: t.qstNumber, type: 'text' },
+  ];
+
+  return (
+    <div className="p-8 bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+          <p className="text-gray-600 mt-1">{t.subtitle}</p>
+          <p className="text-sm text-gray-600 italic mt-4">{t.helperText}</p>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+            <p className="text-gray-500">{tc.loading}...</p>
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">{t.business}</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                {textFields.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                    <input
+                      type={field.type}
+                      value={(formData[field.key] as string) || ''}
+                      onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.nextInvoiceNumber}</label>
+                  <input
+                    type="number"
+                    value={formData.next_invoice_number || ''}
+                    onChange={(e) => setFormData({ ...formData, next_invoice_number: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="1"
+                    step="1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t.nextInvoiceNumberHelper}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.baseCurrency}</label>
+                  <select
+                    value={formData.base_currency}
+                    onChange={(e) => setFormData({ ...formData, base_currency: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {currencies.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">{t.baseCurrencyHelper}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.targetMargin}</label>
+                  <input
+                    type="number"
+                    value={formData.target_margin_percent ?? ''}
+                    onChange={(e) => setFormData({ ...formData, target_margin_percent: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    max="99"
+                    step="0.5"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t.targetMarginHelper}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.floorMargin}</label>
+                  <input
+                    type="number"
+                    value={formData.markdown_floor_margin_percent ?? ''}
+                    onChange={(e) => setFormData({ ...formData, markdown_floor_margin_percent: parseFloat(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    max="99"
+                    step="0.5"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t.floorMarginHelper}</p>
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.businessAddress}</label>
+                  <textarea
+                    value={formData.business_address || ''}
+                    onChange={(e) => setFormData({ ...formData, business_address: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={3}
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <Save size={18} />
+                {tc.save}
+              </button>
+            </form>
+          </div>
+        )}
+
+        {!loading && <ExchangeRates />}
+
+        {!loading && <ModelCatalog />}
+
+        {!loading && <MarkdownRules />}
+
+        {!loading && <WorkspaceBackup />}
+      </div>
+
+      <footer className="mt-8 text-center text-sm text-gray-500">
+        {tc.footer}
+      </footer>
+    </div>
+  );
+}
+
+export default Settings;
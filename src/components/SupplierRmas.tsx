@@ -0,0 +1,385 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { getLandedCost } from '../lib/profit';
+import { isOutstanding, type RmaStatus } from '../lib/rma';
+import { fr } from '../lib/translations';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type RmaInsert = Database['public']['Tables']['supplier_rmas']['Insert'];
+type Rma = Database['public']['Tables']['supplier_rmas']['Row'] & {
+  purchase_orders: Pick<Database['public']['Tables']['purchase_orders']['Row'], 'po_number'> | null;
+};
+
+interface SupplierRmasProps {
+  item: InventoryItem;
+  onChange: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+function SupplierRmas({ item, onChange }: SupplierRmasProps) {
+  const t = fr.rma;
+  const tc = fr.common;
+  const { can } = useWorkspace();
+  const [rmas, setRmas] = useState<Rma[]>([]);
+  const [replacements, setReplacements] = useState<InventoryItem[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<RmaInsert | null>(null);
+
+  useEffect(() => {
+    loadRmas();
+  }, [item.id]);
+
+  const loadRmas = async () => {
+    const { data, error } = await supabase
+      .from('supplier_rmas')
+      .select('*, purchase_orders (po_number)')
+      .eq('item_id', item.id)
+      .order('opened_on', { ascending: false });
+
+    if (error) {
+      console.error('Error loading RMAs:', error);
+    } else {
+      setRmas((data || []) as Rma[]);
+    }
+  };
+
+  // Units from the same supplier that could have been sent as a replacement
+  const loadReplacements = async () => {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('supplier_id', item.supplier_id)
+      .eq('status', 'in_stock')
+      .neq('id', item.id)
+      .order('item_id');
+
+    if (error) {
+      console.error('Error loading replacement units:', error);
+    } else {
+      setReplacements(data || []);
+    }
+  };
+
+  const handleOpen = () => {
+    setEditingId(null);
+    setFormData({
+      item_id: item.id,
+      supplier_id: item.supplier_id,
+      po_id: item.po_id,
+      rma_number: null,
+      opened_on: today(),
+      reason: '',
+      claim_value: getLandedCost(item),
+      status: 'open',
+      shipped_on: null,
+      tracking_number: null,
+      resolved_on: null,
+      credit_amount: 0,
+      replacement_item_id: null,
+      notes: null,
+    });
+    setIsEditing(true);
+    loadReplacements();
+  };
+
+  const handleEdit = (rma: Rma) => {
+    setEditingId(rma.id);
+    setFormData({
+      item_id: rma.item_id,
+      supplier_id: rma.supplier_id,
+      po_id: rma.po_id,
+      rma_number: rma.rma_number,
+      opened_on: rma.opened_on,
+      reason: rma.reason,
+      claim_value: rma.claim_value,
+      status: rma.status,
+      shipped_on: rma.shipped_on,
+      tracking_number: rma.tracking_number,
+      resolved_on: rma.resolved_on,
+      credit_amount: rma.credit_amount,
+      replacement_item_id: rma.replacement_item_id,
+      notes: rma.notes,
+    });
+    setIsEditing(true);
+    loadReplacements();
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setEditingId(null);
+    setFormData(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    if (!formData.reason) {
+      alert('Veuillez décrire le problème');
+      return;
+    }
+
+    const resolved = !isOutstanding(formData);
+    const rmaData = {
+      ...formData,
+      rma_number: formData.rma_number || null,
+      tracking_number: formData.tracking_number || null,
+      notes: formData.notes || null,
+      shipped_on: formData.status === 'open' ? null : formData.shipped_on || today(),
+      resolved_on: resolved ? formData.resolved_on || today() : null,
+      credit_amount: formData.status === 'credit_issued' ? formData.credit_amount : 0,
+      replacement_item_id: formData.status === 'replaced' ? formData.replacement_item_id : null,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('supplier_rmas').update(rmaData).eq('id', editingId)
+      : await supabase.from('supplier_rmas').insert([rmaData]);
+
+    if (error) {
+      console.error('Error saving RMA:', error);
+      alert('Erreur lors de l\'enregistrement du RMA. Cet appareil a peut-être déjà un RMA en cours.');
+    } else {
+      handleCancel();
+      loadRmas();
+      onChange();
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    const statusColors: Record<string, string> = {
+      open: 'bg-red-100 text-red-700',
+      shipped: 'bg-yellow-100 text-yellow-700',
+      credit_issued: 'bg-green-100 text-green-700',
+      replaced: 'bg-green-100 text-green-700',
+      rejected: 'bg-gray-100 text-gray-700',
+    };
+
+    return (
+      <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full ${statusColors[status] || 'bg-gray-100 text-gray-700'}`}>
+        {t.statuses[status as RmaStatus] || status}
+      </span>
+    );
+  };
+
+  const canOpen = item.status === 'doa' && !rmas.some(isOutstanding);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">{t.title}</h3>
+        {can('manage_rmas') && canOpen && !isEditing && (
+          <button
+            onClick={handleOpen}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <Plus size={16} />
+            {t.openRma}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 italic mb-4">{t.helperText}</p>
+
+      {isEditing && formData && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.reason} *</label>
+              <input
+                type="text"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Ex: Ne démarre pas"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.rmaNumber}</label>
+              <input
+                type="text"
+                value={formData.rma_number || ''}
+                onChange={(e) => setFormData({ ...formData, rma_number: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.openedOn}</label>
+              <input
+                type="date"
+                value={formData.opened_on}
+                onChange={(e) => setFormData({ ...formData, opened_on: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.claimValue} ($)</label>
+              <input
+                type="number"
+                value={formData.claim_value}
+                onChange={(e) => setFormData({ ...formData, claim_value: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.status}</label>
+              <select
+                value={formData.status}
+                onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(t.statuses) as RmaStatus[]).map((status) => (
+                  <option key={status} value={status}>{t.statuses[status]}</option>
+                ))}
+              </select>
+            </div>
+
+            {formData.status !== 'open' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.shippedOn}</label>
+                  <input
+                    type="date"
+                    value={formData.shipped_on || ''}
+                    onChange={(e) => setFormData({ ...formData, shipped_on: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.trackingNumber}</label>
+                  <input
+                    type="text"
+                    value={formData.tracking_number || ''}
+                    onChange={(e) => setFormData({ ...formData, tracking_number: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </>
+            )}
+
+            {!isOutstanding(formData) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.resolvedOn}</label>
+                <input
+                  type="date"
+                  value={formData.resolved_on || ''}
+                  onChange={(e) => setFormData({ ...formData, resolved_on: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            {formData.status === 'credit_issued' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.creditAmount}</label>
+                <input
+                  type="number"
+                  value={formData.credit_amount}
+                  onChange={(e) => setFormData({ ...formData, credit_amount: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+            )}
+
+            {formData.status === 'replaced' && (
+              <div className="col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.replacementItem}</label>
+                <select
+                  value={formData.replacement_item_id || ''}
+                  onChange={(e) => setFormData({ ...formData, replacement_item_id: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">{t.selectReplacement}</option>
+                  {replacements.map((replacement) => (
+                    <option key={replacement.id} value={replacement.id}>
+                      {replacement.item_id} - {replacement.model_family} {replacement.screen_size}" ({replacement.chip}, {replacement.ram_gb}GB, {replacement.storage_gb}GB)
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{t.replacementHelper}</p>
+              </div>
+            )}
+
+            <div className="col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{tc.notes}</label>
+              <textarea
+                value={formData.notes || ''}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={2}
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {editingId ? tc.update : tc.save}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              {tc.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full">
+        <tbody className="divide-y divide-gray-200">
+          {rmas.map((rma) => (
+            <tr key={rma.id}>
+              <td className="py-2 text-sm text-gray-600">
+                {new Date(rma.opened_on).toLocaleDateString('fr-FR')}
+              </td>
+              <td className="py-2 text-sm text-gray-900">
+                <p>{rma.reason}</p>
+                <p className="text-xs text-gray-500">
+                  {rma.rma_number && `${t.rmaNumber} ${rma.rma_number} · `}
+                  {rma.purchase_orders && `${t.purchaseOrder} ${rma.purchase_orders.po_number}`}
+                </p>
+              </td>
+              <td className="py-2 text-sm text-right text-gray-900">
+                ${rma.claim_value.toFixed(2)}
+                {rma.credit_amount > 0 && (
+                  <p className="text-xs text-green-700">{t.statuses.credit_issued}: ${rma.credit_amount.toFixed(2)}</p>
+                )}
+              </td>
+              <td className="py-2 pl-3 text-right">{getStatusBadge(rma.status)}</td>
+              <td className="py-2 pl-3 text-right w-8">
+                {can('manage_rmas') && (
+                  <button
+                    onClick={() => handleEdit(rma)}
+                    className="text-blue-600 hover:text-blue-800"
+                    title={t.editRma}
+                  >
+                    <Edit2 size={16} />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {rmas.length === 0 && (
+            <tr>
+              <td colSpan={5} className="py-2 text-sm text-gray-500">{t.noRmas}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default SupplierRmas;
@@ -2,6 +2,12 @@ import { useState, useEffect } from 'react';
 import { Plus, Edit2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { computeSupplierQuality, type SupplierQuality } from '../lib/warranty';
+import { computeSupplierRmaStats, type SupplierRmaStats } from '../lib/rma';
+import { currencies } from '../lib/currency';
+import type { ExportColumn } from '../lib/export';
+import ExportMenu from './ExportMenu';
 import { fr } from '../lib/translations';
 
 type Supplier = Database['public']['Tables']['suppliers']['Row'];
@@ -10,7 +16,11 @@ type SupplierInsert = Database['public']['Tables']['suppliers']['Insert'];
 function Suppliers() {
   const t = fr.suppliers;
   const tc = fr.common;
+  const { can, workspace } = useWorkspace();
+  const showCosts = can('view_costs');
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [quality, setQuality] = useState<Record<string, SupplierQuality>>({});
+  const [rmaStats, setRmaStats] = useState<Record<string, SupplierRmaStats>>({});
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState<Partial<SupplierInsert>>({
@@ -22,6 +32,8 @@ function Suppliers() {
 
   useEffect(() => {
     loadSuppliers();
+    loadQuality();
+    loadRmaStats();
   }, []);
 
   const loadSuppliers = async () => {
@@ -37,6 +49,47 @@ function Suppliers() {
     }
   };
 
+  const loadQuality = async () => {
+    const [itemsResult, claimsResult] = await Promise.all([
+      supabase
+        .from('inventory_items')
+        .select('supplier_id')
+        .eq('status', 'sold'),
+      supabase
+        .from('warranty_claims')
+        .select('cost, sales (inventory_items (supplier_id))'),
+    ]);
+
+    if (itemsResult.error || claimsResult.error) {
+      console.error('Error loading supplier quality:', itemsResult.error || claimsResult.error);
+      return;
+    }
+
+    const claims = (claimsResult.data || []).map((claim) => ({
+      cost: claim.cost,
+      supplier_id: claim.sales?.inventory_items?.supplier_id || null,
+    }));
+    setQuality(computeSupplierQuality(itemsResult.data || [], claims));
+  };
+
+  const loadRmaStats = async () => {
+    const [itemsResult, rmasResult] = await Promise.all([
+      supabase
+        .from('inventory_items')
+        .select('id, supplier_id, status'),
+      supabase
+        .from('supplier_rmas')
+        .select('item_id, supplier_id, status, claim_value, credit_amount'),
+    ]);
+
+    if (itemsResult.error || rmasResult.error) {
+      console.error('Error loading supplier RMAs:', itemsResult.error || rmasResult.error);
+      return;
+    }
+
+    setRmaStats(computeSupplierRmaStats(itemsResult.data || [], rmasResult.data || []));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -48,6 +101,7 @@ function Suppliers() {
     const supplierData = {
       ...formData,
       supplier_code: formData.supplier_code.toUpperCase(),
+      currency: formData.currency || workspace.base_currency,
     };
 
     if (editingId) {
@@ -109,6 +163,25 @@ function Suppliers() {
     { value: 'other', label: t.other },
   ];
 
+  const exportColumns: ExportColumn<Supplier>[] = [
+    { key: 'supplier_code', header: t.supplierCode, value: (supplier) => supplier.supplier_code },
+    { key: 'supplier_name', header: t.supplierName, value: (supplier) => supplier.supplier_name },
+    { key: 'supplier_type', header: t.supplierType, value: (supplier) => supplier.supplier_type },
+    { key: 'contact_name', header: t.contactName, value: (supplier) => supplier.contact_name },
+    { key: 'contact_phone', header: t.contactPhone, value: (supplier) => supplier.contact_phone },
+    { key: 'contact_email', header: t.contactEmail, value: (supplier) => supplier.contact_email },
+    { key: 'currency', header: t.currency, value: (supplier) => supplier.currency },
+    { key: 'units_sold', header: fr.warranty.unitsSold, value: (supplier) => quality[supplier.id]?.unitsSold || 0 },
+    { key: 'warranty_claims', header: fr.warranty.claims, value: (supplier) => quality[supplier.id]?.claims || 0 },
+    { key: 'doa_units', header: fr.rma.doaUnits, value: (supplier) => rmaStats[supplier.id]?.doaUnits || 0 },
+    ...(showCosts ? [
+      { key: 'claim_costs', header: fr.warranty.claimCosts, value: (supplier: Supplier) => quality[supplier.id]?.claimCosts || 0 },
+      { key: 'rma_outstanding_value', header: fr.rma.outstandingValue, value: (supplier: Supplier) => rmaStats[supplier.id]?.outstandingValue || 0 },
+    ] : []),
+    { key: 'is_active', header: tc.activeRelation, value: (supplier) => (supplier.is_active ? tc.active : tc.inactive) },
+    { key: 'notes', header: tc.notes, value: (supplier) => supplier.notes },
+  ];
+
   return (
     <div className="p-8 bg-white min-h-screen">
       <div className="max-w-7xl mx-auto">
@@ -118,15 +191,18 @@ function Suppliers() {
               <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
               <p className="text-gray-600 mt-1">{t.subtitle}</p>
             </div>
-            {!isAddingNew && !editingId && (
-              <button
-                onClick={() => setIsAddingNew(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-              >
-                <Plus size={18} />
-                {t.addSupplier}
-              </button>
-            )}
+            <div className="flex gap-3">
+              <ExportMenu name="fournisseurs" columns={exportColumns} rows={suppliers} />
+              {!isAddingNew && !editingId && can('manage_suppliers') && (
+                <button
+                  onClick={() => setIsAddingNew(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Plus size={18} />
+                  {t.addSupplier}
+                </button>
+              )}
+            </div>
           </div>
           <p className="text-sm text-gray-600 italic">{t.helperText}</p>
         </div>
@@ -219,6 +295,22 @@ function Suppliers() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.currency}
+                  </label>
+                  <select
+                    value={formData.currency || workspace.base_currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {currencies.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">{t.currencyHelper}</p>
+                </div>
               </div>
 
               <div className="mb-4">
@@ -280,6 +372,25 @@ function Suppliers() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   {t.contact}
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {fr.warranty.unitsSold}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {fr.warranty.claims}
+                </th>
+                {showCosts && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {fr.warranty.claimCosts}
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {fr.rma.doaUnits}
+                </th>
+                {showCosts && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {fr.rma.outstandingValue}
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   {tc.activeRelation}
                 </th>
@@ -307,6 +418,38 @@ function Suppliers() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                     {supplier.contact_name || supplier.contact_phone || '-'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {quality[supplier.id]?.unitsSold || 0}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {quality[supplier.id]?.claims || 0}
+                    {!!quality[supplier.id]?.unitsSold && (
+                      <span className={`ml-2 text-xs ${quality[supplier.id].claimRate > 10 ? 'text-red-600' : 'text-gray-500'}`}>
+                        ({quality[supplier.id].claimRate.toFixed(1)}%)
+                      </span>
+                    )}
+                  </td>
+                  {showCosts && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      ${(quality[supplier.id]?.claimCosts || 0).toFixed(2)}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rmaStats[supplier.id]?.doaUnits || 0}
+                    {!!rmaStats[supplier.id]?.unitsBought && (
+                      <span className={`ml-2 text-xs ${rmaStats[supplier.id].doaRate > 5 ? 'text-red-600' : 'text-gray-500'}`}>
+                        ({rmaStats[supplier.id].doaRate.toFixed(1)}%)
+                      </span>
+                    )}
+                  </td>
+                  {showCosts && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      ${(rmaStats[supplier.id]?.outstandingValue || 0).toFixed(2)}
+                      {!!rmaStats[supplier.id]?.outstandingRmas && (
+                        <span className="ml-2 text-xs text-gray-500">({rmaStats[supplier.id].outstandingRmas})</span>
+                      )}
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap">
                     {supplier.is_active ? (
                       <span className="inline-flex px-3 py-1 text-xs font-medium rounded-full bg-green-100 text-green-700">
@@ -319,18 +462,20 @@ function Suppliers() {
                     )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    <button
-                      onClick={() => handleEdit(supplier)}
-                      className="text-blue-600 hover:text-blue-800"
-                    >
-                      <Edit2 size={18} />
-                    </button>
+                    {can('manage_suppliers') && (
+                      <button
+                        onClick={() => handleEdit(supplier)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        <Edit2 size={18} />
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
               {suppliers.length === 0 && (
                 <tr>
-                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={showCosts ? 11 : 9} className="px-6 py-8 text-center text-gray-500">
                     {t.noSuppliers}
                   </td>
                 </tr>
@@ -1,26 +1,17 @@
 import { useEffect, useState } from 'react';
 import { Target, Calendar } from 'lucide-react';
-
-type VisualType = 'progress' | 'pie' | 'funnel';
-
-interface TargetItem {
-  id: string;
-  type: 'revenue' | 'profit' | 'units' | 'margin';
-  title: string;
-  targetValue: number;
-  currentValue: number;
-  deadline: string;
-  createdAt: string;
-  completed: boolean;
-  visualType: VisualType;
-}
-
-interface TargetWidgetProps {
-  revenue: number;
-  profit: number;
-  units: number;
-  margin: number;
-}
+import { supabase } from '../lib/supabase';
+import { useWorkspace } from '../lib/workspace';
+import {
+  computeTargetValue,
+  describeScope,
+  importLegacyTargets,
+  loadTargetSales,
+  projectTargetPace,
+  rollOverTargets,
+  toTargetItem,
+  type TargetItem,
+} from '../lib/targets';
 
 // Progress Bar Visualization
 function ProgressBarVisual({ percentage }: { percentage: number }) {
@@ -141,38 +132,57 @@ function FunnelVisual({ percentage }: { percentage: number }) {
   );
 }
 
-function TargetWidget({ revenue, profit, units, margin }: TargetWidgetProps) {
+function TargetWidget() {
+  const { can } = useWorkspace();
   const [targets, setTargets] = useState<TargetItem[]>([]);
+  const [supplierNames, setSupplierNames] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadTargets();
-  }, [revenue, profit, units, margin]);
-
-  const loadTargets = () => {
-    const stored = localStorage.getItem('unitflow_targets');
-    if (stored) {
-      const allTargets: TargetItem[] = JSON.parse(stored);
-      
-      // Update current values based on actual data
-      const updated = allTargets.map(t => ({
-        ...t,
-        currentValue: getCurrentValue(t.type),
-        visualType: t.visualType || 'progress', // Default to progress if not set
-      }));
-      
-      // Filter active targets only
-      const active = updated.filter(t => !t.completed);
-      setTargets(active);
+  }, []);
+
+  const loadTargets = async () => {
+    if (can('manage_targets')) {
+      await importLegacyTargets();
+    }
+    await rollOverTargets();
+
+    const { data, error } = await supabase
+      .from('targets')
+      .select('*')
+      .eq('completed', false)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading targets:', error);
+      return;
+    }
+
+    const active = (data || [])
+      .map(toTargetItem)
+      // Hide profit-based targets from roles without profit access
+      .filter(t => can('view_profit') || (t.type !== 'profit' && t.type !== 'margin'));
+
+    // Each target counts the sales inside its own window, whatever the dashboard filter shows
+    const sales = await loadTargetSales(active);
+    setTargets(active.map(t => ({ ...t, currentValue: computeTargetValue(t, sales) })));
+
+    const supplierIds = active.map(t => t.scope.supplierId).filter((id): id is string => !!id);
+    if (supplierIds.length > 0) {
+      loadSupplierNames(supplierIds);
     }
   };
 
-  const getCurrentValue = (type: string): number => {
-    switch (type) {
-      case 'revenue': return revenue;
-      case 'profit': return profit;
-      case 'units': return units;
-      case 'margin': return margin;
-      default: return 0;
+  const loadSupplierNames = async (supplierIds: string[]) => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('id, supplier_name')
+      .in('id', supplierIds);
+
+    if (error) {
+      console.error('Error loading suppliers:', error);
+    } else {
+      setSupplierNames(Object.fromEntries((data || []).map(s => [s.id, s.supplier_name])));
     }
   };
 
@@ -231,6 +241,11 @@ function TargetWidget({ revenue, profit, units, margin }: TargetWidgetProps) {
           const isExpired = daysRemaining < 0;
           const isUrgent = daysRemaining <= 7 && daysRemaining >= 0;
           const remaining = target.targetValue - target.currentValue;
+          const pace = percentage < 100 && !isExpired ? projectTargetPace(target) : null;
+          const scopeLabel = describeScope(
+            target.scope,
+            target.scope.supplierId ? supplierNames[target.scope.supplierId] : undefined
+          );
 
           return (
             <div
@@ -249,6 +264,9 @@ function TargetWidget({ revenue, profit, units, margin }: TargetWidgetProps) {
                   <h3 className="text-lg font-bold text-gray-900 mb-1">
                     🎯 {target.title}
                   </h3>
+                  {scopeLabel && (
+                    <p className="text-xs text-purple-700 mb-1">🔎 {scopeLabel}</p>
+                  )}
                   <div className="flex items-center gap-2 text-sm text-gray-600">
                     <Calendar size={14} />
                     {isExpired ? (
@@ -299,6 +317,16 @@ function TargetWidget({ revenue, profit, units, margin }: TargetWidgetProps) {
                 </div>
               )}
 
+              {/* Pace */}
+              {pace && (
+                <p className={`text-sm text-center mb-3 ${pace.onTrack ? 'text-green-700' : 'text-orange-700'}`}>
+                  {target.type === 'margin'
+                    ? `À ce rythme, ta marge sera de ${formatValue(target.type, pace.projectedValue)} à l'échéance`
+                    : `À ce rythme, tu atteindras ${formatValue(target.type, pace.projectedValue)} d'ici l'échéance`}
+                  {pace.onTrack ? ' ✅' : ' ⚠️'}
+                </p>
+              )}
+
               {/* Motivation */}
               <div className="text-center">
                 <p className="text-sm text-gray-700 italic font-medium">
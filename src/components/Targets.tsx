@@ -1,75 +1,156 @@
 import { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Target, BarChart3, PieChart, Triangle } from 'lucide-react';
+import { Plus, Edit2, Trash2, Target, BarChart3, PieChart, Triangle, History, Repeat } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useWorkspace } from '../lib/workspace';
+import {
+  computeTargetStats,
+  computeTargetValue,
+  describeScope,
+  emptyScope,
+  getPeriodEnd,
+  importLegacyTargets,
+  loadTargetSales,
+  projectTargetPace,
+  rollOverTargets,
+  toScopeColumns,
+  toTargetItem,
+  type Recurrence,
+  type TargetItem,
+  type TargetScope,
+  type TargetType,
+  type VisualType,
+} from '../lib/targets';
+import type { Database } from '../lib/database.types';
 import { fr } from '../lib/translations';
 
-type VisualType = 'progress' | 'pie' | 'funnel';
-
-interface TargetItem {
-  id: string;
-  type: 'revenue' | 'profit' | 'units' | 'margin';
-  title: string;
-  targetValue: number;
-  currentValue: number;
-  deadline: string;
-  createdAt: string;
-  completed: boolean;
-  visualType: VisualType;
-}
+type TargetPeriod = Database['public']['Tables']['target_periods']['Row'];
+type Supplier = Database['public']['Tables']['suppliers']['Row'];
 
 function Targets() {
   const tc = fr.common;
+  const { can } = useWorkspace();
   const [targets, setTargets] = useState<TargetItem[]>([]);
+  const [periods, setPeriods] = useState<TargetPeriod[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
-    type: 'profit' as 'revenue' | 'profit' | 'units' | 'margin',
+    type: 'profit' as TargetType,
     title: '',
     targetValue: 0,
+    startDate: new Date().toISOString().split('T')[0],
     deadline: '',
     visualType: 'progress' as VisualType,
+    recurrence: 'none' as Recurrence,
+    scope: emptyScope,
   });
 
   useEffect(() => {
     loadTargets();
+    loadSuppliers();
   }, []);
 
-  const loadTargets = () => {
-    const stored = localStorage.getItem('unitflow_targets');
-    if (stored) {
-      setTargets(JSON.parse(stored));
+  const loadSuppliers = async () => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .order('supplier_name');
+
+    if (error) {
+      console.error('Error loading suppliers:', error);
+    } else {
+      setSuppliers(data || []);
+    }
+  };
+
+  const loadTargets = async () => {
+    if (can('manage_targets')) {
+      await importLegacyTargets();
+    }
+    await rollOverTargets();
+
+    const { data, error } = await supabase
+      .from('targets')
+      .select('*')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading targets:', error);
+      return;
     }
+
+    // Finished targets keep the value archived when they rolled over
+    const loaded = (data || []).map(toTargetItem);
+    const sales = await loadTargetSales(loaded.filter(t => !t.completed));
+    setTargets(loaded.map(t => (t.completed ? t : { ...t, currentValue: computeTargetValue(t, sales) })));
+
+    loadPeriods();
   };
 
-  const saveTargets = (updatedTargets: TargetItem[]) => {
-    localStorage.setItem('unitflow_targets', JSON.stringify(updatedTargets));
-    setTargets(updatedTargets);
+  const loadPeriods = async () => {
+    const { data, error } = await supabase
+      .from('target_periods')
+      .select('*')
+      .order('period_end', { ascending: false });
+
+    if (error) {
+      console.error('Error loading target history:', error);
+    } else {
+      setPeriods(data || []);
+    }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.title || !formData.targetValue || !formData.deadline) {
+    if (!formData.title || !formData.targetValue || (formData.recurrence === 'none' && !formData.deadline)) {
       alert('Veuillez remplir tous les champs');
       return;
     }
 
+    const deadline = formData.recurrence === 'none'
+      ? formData.deadline
+      : getPeriodEnd(formData.startDate, formData.recurrence);
+
+    if (deadline < formData.startDate) {
+      alert('La date limite doit être après la date de début');
+      return;
+    }
+
+    const targetData = {
+      type: formData.type,
+      title: formData.title,
+      target_value: formData.targetValue,
+      start_date: formData.startDate,
+      deadline,
+      visual_type: formData.visualType,
+      recurrence: formData.recurrence,
+      ...toScopeColumns(formData.scope),
+    };
+
     if (editingId) {
-      const updated = targets.map(t => 
-        t.id === editingId 
-          ? { ...t, ...formData }
-          : t
-      );
-      saveTargets(updated);
+      const { error } = await supabase
+        .from('targets')
+        .update(targetData)
+        .eq('id', editingId);
+
+      if (error) {
+        console.error('Error updating target:', error);
+        alert('Erreur lors de la mise à jour du target');
+        return;
+      }
       setEditingId(null);
     } else {
-      const newTarget: TargetItem = {
-        id: Date.now().toString(),
-        ...formData,
-        currentValue: 0,
-        createdAt: new Date().toISOString(),
-        completed: false,
-      };
-      saveTargets([...targets, newTarget]);
+      const { error } = await supabase
+        .from('targets')
+        .insert([{ ...targetData, current_value: 0, completed: false }]);
+
+      if (error) {
+        console.error('Error creating target:', error);
+        alert('Erreur lors de la création du target');
+        return;
+      }
       setIsAdding(false);
     }
 
@@ -77,9 +158,13 @@ function Targets() {
       type: 'profit',
       title: '',
       targetValue: 0,
+      startDate: new Date().toISOString().split('T')[0],
       deadline: '',
       visualType: 'progress',
+      recurrence: 'none',
+      scope: emptyScope,
     });
+    loadTargets();
   };
 
   const handleEdit = (target: TargetItem) => {
@@ -88,15 +173,28 @@ function Targets() {
       type: target.type,
       title: target.title,
       targetValue: target.targetValue,
+      startDate: target.startDate,
       deadline: target.deadline,
       visualType: target.visualType || 'progress',
+      recurrence: target.recurrence,
+      scope: target.scope,
     });
     setIsAdding(false);
   };
 
-  const handleDelete = (id: string) => {
-    if (window.confirm('Supprimer ce target?')) {
-      saveTargets(targets.filter(t => t.id !== id));
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Supprimer ce target?')) return;
+
+    const { error } = await supabase
+      .from('targets')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting target:', error);
+      alert('Erreur lors de la suppression du target');
+    } else {
+      loadTargets();
     }
   };
 
@@ -107,8 +205,11 @@ function Targets() {
       type: 'profit',
       title: '',
       targetValue: 0,
+      startDate: new Date().toISOString().split('T')[0],
       deadline: '',
       visualType: 'progress',
+      recurrence: 'none',
+      scope: emptyScope,
     });
   };
 
@@ -146,8 +247,40 @@ function Targets() {
     return days;
   };
 
-  const activeTargets = targets.filter(t => !t.completed);
-  const completedTargets = targets.filter(t => t.completed);
+  const visibleTargets = can('view_profit')
+    ? targets
+    : targets.filter(t => t.type !== 'profit' && t.type !== 'margin');
+  const activeTargets = visibleTargets.filter(t => !t.completed);
+  const completedTargets = visibleTargets.filter(t => t.completed);
+
+  const recurrenceLabels: Record<Recurrence, string> = {
+    none: 'Une seule fois',
+    weekly: 'Chaque semaine',
+    monthly: 'Chaque mois',
+    quarterly: 'Chaque trimestre',
+  };
+
+  const visiblePeriods = can('view_profit')
+    ? periods
+    : periods.filter(p => p.type !== 'profit' && p.type !== 'margin');
+  const stats = computeTargetStats(visiblePeriods);
+
+  const setScope = (changes: Partial<TargetScope>) => {
+    setFormData({ ...formData, scope: { ...formData.scope, ...changes } });
+  };
+
+  const getSupplierName = (supplierId: string | null) =>
+    suppliers.find(s => s.id === supplierId)?.supplier_name;
+
+  const modelFamilies = ['MacBook Pro', 'MacBook Air', 'MacBook'];
+  const screenSizes = ['13', '14', '15', '16'];
+  const channels = ['walk-in', 'marketplace', 'instagram', 'shopify', 'referral', 'clearance', 'wholesale', 'other'];
+  const customerTypes = [
+    { value: 'retail', label: fr.customers.retail },
+    { value: 'wholesale', label: fr.customers.wholesale },
+    { value: 'dealer', label: fr.customers.dealer },
+    { value: 'friend_family', label: fr.customers.friendFamily },
+  ];
 
   const visualTypes = [
     { value: 'progress', label: 'Barre de progression', icon: BarChart3 },
@@ -164,15 +297,24 @@ function Targets() {
               <h1 className="text-3xl font-bold text-gray-900">🎯 Targets d'Elena</h1>
               <p className="text-gray-600 mt-1">Définis tes objectifs et atteins-les!</p>
             </div>
-            {!isAdding && !editingId && (
+            <div className="flex gap-3">
               <button
-                onClick={() => setIsAdding(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
               >
-                <Plus size={18} />
-                Nouveau Target
+                <History size={18} />
+                {showHistory ? 'Masquer l\'historique' : 'Historique'}
               </button>
-            )}
+              {!isAdding && !editingId && can('manage_targets') && (
+                <button
+                  onClick={() => setIsAdding(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Plus size={18} />
+                  Nouveau Target
+                </button>
+              )}
+            </div>
           </div>
           <p className="text-sm text-gray-600 italic">
             Configure tes objectifs mensuels et suis ta progression en temps réel!
@@ -231,19 +373,115 @@ function Targets() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Récurrence *
+                  </label>
+                  <select
+                    value={formData.recurrence}
+                    onChange={(e) => setFormData({ ...formData, recurrence: e.target.value as Recurrence })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(recurrenceLabels) as Recurrence[]).map((recurrence) => (
+                      <option key={recurrence} value={recurrence}>{recurrenceLabels[recurrence]}</option>
+                    ))}
+                  </select>
+                  {formData.recurrence !== 'none' && (
+                    <p className="text-xs text-gray-500 mt-1">Le target repart automatiquement à chaque nouvelle période</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Date de début *
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Seules les ventes entre le début et la date limite comptent</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Date limite *
                   </label>
                   <input
                     type="date"
-                    value={formData.deadline}
+                    value={formData.recurrence === 'none'
+                      ? formData.deadline
+                      : getPeriodEnd(formData.startDate, formData.recurrence)}
                     onChange={(e) => setFormData({ ...formData, deadline: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    disabled={formData.recurrence !== 'none'}
                     required
                   />
                 </div>
 
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Portée (optionnel)
+                  </label>
+                  <div className="grid grid-cols-5 gap-3">
+                    <select
+                      value={formData.scope.modelFamily || ''}
+                      onChange={(e) => setScope({ modelFamily: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Tous les modèles</option>
+                      {modelFamilies.map((family) => (
+                        <option key={family} value={family}>{family}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={formData.scope.screenSize || ''}
+                      onChange={(e) => setScope({ screenSize: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Toutes les tailles</option>
+                      {screenSizes.map((size) => (
+                        <option key={size} value={size}>{size}"</option>
+                      ))}
+                    </select>
+                    <select
+                      value={formData.scope.channel || ''}
+                      onChange={(e) => setScope({ channel: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Tous les canaux</option>
+                      {channels.map((channel) => (
+                        <option key={channel} value={channel}>{channel}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={formData.scope.supplierId || ''}
+                      onChange={(e) => setScope({ supplierId: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Tous les fournisseurs</option>
+                      {suppliers.map((supplier) => (
+                        <option key={supplier.id} value={supplier.id}>{supplier.supplier_name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={formData.scope.customerType || ''}
+                      onChange={(e) => setScope({ customerType: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Tous les clients</option>
+                      {customerTypes.map((type) => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Ex: 10 MacBook Air 13" ce mois-ci, ou 3 000 $ de profit via Instagram
+                  </p>
+                </div>
+
                 <div className="col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Style de visualisation *
@@ -308,6 +546,9 @@ function Targets() {
                 const daysRemaining = getDaysRemaining(target.deadline);
                 const isExpired = daysRemaining < 0;
                 const isUrgent = daysRemaining <= 7 && daysRemaining >= 0;
+                const pace = target.currentValue < target.targetValue && !isExpired
+                  ? projectTargetPace(target)
+                  : null;
 
                 return (
                   <div key={target.id} className="bg-white border border-gray-200 rounded-lg p-6">
@@ -318,24 +559,40 @@ function Targets() {
                           <h3 className="text-lg font-semibold text-gray-900">{target.title}</h3>
                         </div>
                         <p className="text-sm text-gray-600">{getTypeLabel(target.type)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Du {new Date(target.startDate).toLocaleDateString('fr-FR')} au {new Date(target.deadline).toLocaleDateString('fr-FR')}
+                        </p>
+                        {describeScope(target.scope, getSupplierName(target.scope.supplierId)) && (
+                          <p className="text-xs text-purple-700 mt-1">
+                            🔎 {describeScope(target.scope, getSupplierName(target.scope.supplierId))}
+                          </p>
+                        )}
+                        {target.recurrence !== 'none' && (
+                          <p className="flex items-center gap-1 text-xs text-blue-700 mt-1">
+                            <Repeat size={12} />
+                            {recurrenceLabels[target.recurrence]}
+                          </p>
+                        )}
                         <p className="text-xs text-gray-500 mt-1">
                           Style: {visualTypes.find(v => v.value === (target.visualType || 'progress'))?.label}
                         </p>
                       </div>
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => handleEdit(target)}
-                          className="text-blue-600 hover:text-blue-800"
-                        >
-                          <Edit2 size={18} />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(target.id)}
-                          className="text-red-600 hover:text-red-800"
-                        >
-                          <Trash2 size={18} />
-                        </button>
-                      </div>
+                      {can('manage_targets') && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleEdit(target)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            <Edit2 size={18} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(target.id)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        </div>
+                      )}
                     </div>
 
                     <div className="mb-3">
@@ -348,6 +605,12 @@ function Targets() {
                       <div className="text-right text-xs text-gray-500 mb-2">
                         {((target.currentValue / target.targetValue) * 100).toFixed(0)}%
                       </div>
+                      {pace && (
+                        <p className={`text-xs ${pace.onTrack ? 'text-green-700' : 'text-orange-700'}`}>
+                          Projection à l'échéance: {formatValue(target.type, pace.projectedValue)}
+                          {pace.onTrack ? ' ✅' : ' ⚠️'}
+                        </p>
+                      )}
                     </div>
 
                     <div className="mb-4">
@@ -385,36 +648,123 @@ function Targets() {
             <Target size={64} className="mx-auto text-gray-300 mb-4" />
             <h3 className="text-xl font-semibold text-gray-900 mb-2">Aucun target actif</h3>
             <p className="text-gray-600 mb-6">Crée ton premier objectif pour commencer à suivre ta progression!</p>
-            <button
-              onClick={() => setIsAdding(true)}
-              className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
-            >
-              <Plus size={18} className="inline mr-2" />
-              Créer mon premier target
-            </button>
+            {can('manage_targets') && (
+              <button
+                onClick={() => setIsAdding(true)}
+                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <Plus size={18} className="inline mr-2" />
+                Créer mon premier target
+              </button>
+            )}
           </div>
         )}
 
         {/* Completed Targets */}
         {completedTargets.length > 0 && (
-          <div>
+          <div className="mb-8">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">✅ Targets complétés</h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {completedTargets.map((target) => (
-                <div key={target.id} className="bg-green-50 border border-green-200 rounded-lg p-4">
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className="text-xl">{getTypeIcon(target.type)}</span>
-                    <h4 className="font-semibold text-gray-900">{target.title}</h4>
+              {completedTargets.map((target) => {
+                const hit = target.currentValue >= target.targetValue;
+
+                return (
+                  <div
+                    key={target.id}
+                    className={`${hit ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'} border rounded-lg p-4`}
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="text-xl">{getTypeIcon(target.type)}</span>
+                      <h4 className="font-semibold text-gray-900">{target.title}</h4>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-1">{getTypeLabel(target.type)}</p>
+                    <p className={`text-lg font-bold ${hit ? 'text-green-700' : 'text-red-700'}`}>
+                      {formatValue(target.type, target.currentValue)} / {formatValue(target.type, target.targetValue)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {hit ? 'Atteint' : 'Manqué'} · terminé le {new Date(target.deadline).toLocaleDateString('fr-FR')}
+                    </p>
                   </div>
-                  <p className="text-sm text-gray-600 mb-1">{getTypeLabel(target.type)}</p>
-                  <p className="text-lg font-bold text-green-700">
-                    {formatValue(target.type, target.targetValue)}
-                  </p>
-                  <p className="text-xs text-gray-500 mt-2">
-                    Complété le {new Date(target.deadline).toLocaleDateString('fr-FR')}
-                  </p>
-                </div>
-              ))}
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* History */}
+        {showHistory && (
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">📜 Historique des périodes</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              {(Object.keys(stats) as TargetType[]).map((type) => {
+                const typeStats = stats[type]!;
+
+                return (
+                  <div key={type} className="bg-white border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <span className="text-xl">{getTypeIcon(type)}</span>
+                      <h4 className="font-semibold text-gray-900">{getTypeLabel(type)}</h4>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Taux de réussite: <span className="font-semibold text-gray-900">{typeStats.hitRate.toFixed(0)}%</span>
+                      {' '}({typeStats.hits}/{typeStats.periods})
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Série en cours: <span className="font-semibold text-gray-900">{typeStats.currentStreak} 🔥</span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Meilleure série: <span className="font-semibold text-gray-900">{typeStats.bestStreak}</span>
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Période</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Objectif</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Réel</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Résultat</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visiblePeriods.map((period) => (
+                    <tr key={period.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {getTypeIcon(period.type)} {period.title}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {new Date(period.period_start).toLocaleDateString('fr-FR')} - {new Date(period.period_end).toLocaleDateString('fr-FR')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatValue(period.type, period.target_value)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                        {formatValue(period.type, period.actual_value)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                          period.hit ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {period.hit ? '✅ Atteint' : '❌ Manqué'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                  {visiblePeriods.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                        Aucune période terminée pour l'instant.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
             </div>
           </div>
         )}
@@ -0,0 +1,327 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Receipt } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { summarizeTaxes, type FilingPeriod, type TaxedRefund, type TaxedSale } from '../lib/tax';
+import { fr } from '../lib/translations';
+
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+
+function TaxReport() {
+  const t = fr.taxes;
+  const tc = fr.common;
+  const { can } = useWorkspace();
+  const [sales, setSales] = useState<TaxedSale[]>([]);
+  const [refunds, setRefunds] = useState<TaxedRefund[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [filingPeriod, setFilingPeriod] = useState<FilingPeriod>('quarterly');
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [isAddingRate, setIsAddingRate] = useState(false);
+  const [rateData, setRateData] = useState({ name: '', rate: 0 });
+
+  useEffect(() => {
+    loadSales();
+    loadRefunds();
+  }, [year]);
+
+  useEffect(() => {
+    loadTaxRates();
+  }, []);
+
+  const loadSales = async () => {
+    const { data, error } = await supabase
+      .from('sales')
+      .select('sale_date, sale_price, sale_taxes(name, amount)')
+      .gte('sale_date', `${year}-01-01`)
+      .lte('sale_date', `${year}-12-31`);
+
+    if (error) {
+      console.error('Error loading sales:', error);
+    } else {
+      setSales(data || []);
+    }
+  };
+
+  const loadRefunds = async () => {
+    const { data, error } = await supabase
+      .from('sale_returns')
+      .select('return_date, refund_amount, sales(sale_date, sale_price, sale_taxes(name, amount))')
+      .gte('return_date', `${year}-01-01`)
+      .lte('return_date', `${year}-12-31`);
+
+    if (error) {
+      console.error('Error loading refunds:', error);
+    } else {
+      setRefunds(data || []);
+    }
+  };
+
+  const loadTaxRates = async () => {
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .select('*')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading tax rates:', error);
+    } else {
+      setTaxRates(data || []);
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!rateData.name || rateData.rate < 0) {
+      alert('Veuillez entrer un nom et un taux valide');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('tax_rates')
+      .insert([{ name: rateData.name.trim(), rate: rateData.rate, is_active: true }]);
+
+    if (error) {
+      console.error('Error adding tax rate:', error);
+      alert('Erreur lors de l\'ajout du taux de taxe');
+    } else {
+      setIsAddingRate(false);
+      setRateData({ name: '', rate: 0 });
+      loadTaxRates();
+    }
+  };
+
+  const handleToggleRate = async (taxRate: TaxRate) => {
+    const { error } = await supabase
+      .from('tax_rates')
+      .update({ is_active: !taxRate.is_active })
+      .eq('id', taxRate.id);
+
+    if (error) {
+      console.error('Error updating tax rate:', error);
+      alert('Erreur lors de la mise à jour du taux de taxe');
+    } else {
+      loadTaxRates();
+    }
+  };
+
+  const handleDeleteRate = async (taxRate: TaxRate) => {
+    if (!window.confirm(`Supprimer le taux ${taxRate.name}? Les ventes passées gardent leurs taxes.`)) return;
+
+    const { error } = await supabase
+      .from('tax_rates')
+      .delete()
+      .eq('id', taxRate.id);
+
+    if (error) {
+      console.error('Error deleting tax rate:', error);
+      alert('Erreur lors de la suppression du taux de taxe');
+    } else {
+      loadTaxRates();
+    }
+  };
+
+  const totals = summarizeTaxes(sales, filingPeriod, refunds);
+  const taxNames = Array.from(new Set(sales.flatMap((sale) => sale.sale_taxes.map((tax) => tax.name))));
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
+
+  return (
+    <div className="p-8 bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+              <p className="text-gray-600 mt-1">{t.subtitle}</p>
+            </div>
+            <div className="flex gap-3">
+              <select
+                value={filingPeriod}
+                onChange={(e) => setFilingPeriod(e.target.value as FilingPeriod)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title={t.filingPeriod}
+              >
+                {(Object.keys(t.periods) as FilingPeriod[]).map((period) => (
+                  <option key={period} value={period}>{t.periods[period]}</option>
+                ))}
+              </select>
+              <select
+                value={year}
+                onChange={(e) => setYear(parseInt(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title={t.year}
+              >
+                {years.map((y) => (
+                  <option key={y} value={y}>{y}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 italic">{t.helperText}</p>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden mb-8">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.period}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.salesCount}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.refunds}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.taxableSales}
+                </th>
+                {taxNames.map((name) => (
+                  <th key={name} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {name}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.totalTax}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {totals.map((total) => (
+                <tr key={total.period} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{total.period}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{total.salesCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {total.refunds > 0 ? `-$${total.refunds.toFixed(2)}` : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    ${total.taxableSales.toFixed(2)}
+                  </td>
+                  {taxNames.map((name) => (
+                    <td key={name} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      ${(total.taxes[name] || 0).toFixed(2)}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                    ${total.taxTotal.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+              {totals.length === 0 && (
+                <tr>
+                  <td colSpan={5 + taxNames.length} className="px-6 py-8 text-center text-gray-500">
+                    {t.noSales}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold text-gray-900">{t.rates}</h2>
+          {can('manage_taxes') && !isAddingRate && (
+            <button
+              onClick={() => setIsAddingRate(true)}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus size={18} />
+              {t.addRate}
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 italic mb-4">{t.ratesHelper}</p>
+
+        {isAddingRate && (
+          <form onSubmit={handleAddRate} className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.name} *</label>
+                <input
+                  type="text"
+                  value={rateData.name}
+                  onChange={(e) => setRateData({ ...rateData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Ex: TVH"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.rate} *</label>
+                <input
+                  type="number"
+                  value={rateData.rate}
+                  onChange={(e) => setRateData({ ...rateData, rate: parseFloat(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="0"
+                  max="99.999"
+                  step="0.001"
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                {tc.save}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsAddingRate(false)}
+                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                {tc.cancel}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="grid grid-cols-3 gap-6">
+          {taxRates.map((taxRate) => (
+            <div key={taxRate.id} className="bg-white border border-gray-200 rounded-lg p-6">
+              <div className="flex justify-between items-start">
+                <div className="flex items-center gap-2 mb-2">
+                  <Receipt className={taxRate.is_active ? 'text-blue-600' : 'text-gray-400'} size={20} />
+                  <h3 className="font-semibold text-gray-900">{taxRate.name}</h3>
+                </div>
+                {can('manage_taxes') && (
+                  <button
+                    onClick={() => handleDeleteRate(taxRate)}
+                    className="text-red-600 hover:text-red-800"
+                    title={tc.delete}
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+              <p className="text-2xl font-bold text-gray-900 mb-3">{taxRate.rate}%</p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={taxRate.is_active}
+                  onChange={() => handleToggleRate(taxRate)}
+                  disabled={!can('manage_taxes')}
+                  className="rounded border-gray-300"
+                />
+                {t.active}
+              </label>
+            </div>
+          ))}
+          {taxRates.length === 0 && (
+            <p className="text-sm text-gray-500">{t.noRates}</p>
+          )}
+        </div>
+      </div>
+
+      <footer className="mt-8 text-center text-sm text-gray-500">
+        {tc.footer}
+      </footer>
+    </div>
+  );
+}
+
+export default TaxReport;
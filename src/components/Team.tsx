@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, UserCog, Mail } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { roles, type Role } from '../lib/permissions';
+import { fr } from '../lib/translations';
+
+type Member = Database['public']['Tables']['workspace_members']['Row'];
+type Invitation = Database['public']['Tables']['workspace_invitations']['Row'];
+
+function Team() {
+  const t = fr.team;
+  const tc = fr.common;
+  const { session, workspace } = useWorkspace();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteData, setInviteData] = useState<{ email: string; role: Role }>({
+    email: '',
+    role: 'seller',
+  });
+
+  useEffect(() => {
+    loadMembers();
+    loadInvitations();
+  }, []);
+
+  const loadMembers = async () => {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading members:', error);
+    } else {
+      setMembers(data || []);
+    }
+  };
+
+  const loadInvitations = async () => {
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading invitations:', error);
+    } else {
+      setInvitations(data || []);
+    }
+  };
+
+  const handleRoleChange = async (member: Member, role: Role) => {
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', member.workspace_id)
+      .eq('user_id', member.user_id);
+
+    if (error) {
+      console.error('Error updating role:', error);
+      alert('Erreur lors de la mise à jour du rôle');
+    } else {
+      loadMembers();
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    if (!window.confirm(`${t.removeConfirm}\n\n${member.email}`)) return;
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', member.workspace_id)
+      .eq('user_id', member.user_id);
+
+    if (error) {
+      console.error('Error removing member:', error);
+      alert('Erreur lors du retrait du membre');
+    } else {
+      loadMembers();
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!inviteData.email) {
+      alert('Veuillez entrer une adresse courriel');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .insert([{ email: inviteData.email.trim().toLowerCase(), role: inviteData.role }]);
+
+    if (error) {
+      console.error('Error inviting member:', error);
+      alert('Erreur lors de l\'invitation. Cette adresse est peut-être déjà invitée.');
+    } else {
+      setIsInviting(false);
+      setInviteData({ email: '', role: 'seller' });
+      loadInvitations();
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: Invitation) => {
+    if (!window.confirm(`${t.cancelInviteConfirm}\n\n${invitation.email}`)) return;
+
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', invitation.id);
+
+    if (error) {
+      console.error('Error cancelling invitation:', error);
+      alert('Erreur lors de l\'annulation de l\'invitation');
+    } else {
+      loadInvitations();
+    }
+  };
+
+  const getRoleBadge = (role: string) => {
+    const roleColors: Record<string, string> = {
+      owner: 'bg-purple-100 text-purple-700',
+      seller: 'bg-blue-100 text-blue-700',
+      bookkeeper: 'bg-green-100 text-green-700',
+    };
+
+    return (
+      <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full ${roleColors[role] || 'bg-gray-100 text-gray-700'}`}>
+        {t.roles[role as Role] || role}
+      </span>
+    );
+  };
+
+  return (
+    <div className="p-8 bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+              <p className="text-gray-600 mt-1">{t.subtitle}</p>
+            </div>
+            {!isInviting && (
+              <button
+                onClick={() => setIsInviting(true)}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <Plus size={18} />
+                {t.inviteMember}
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 italic">{t.helperText}</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-6 mb-8">
+          {roles.map((role) => (
+            <div key={role} className="bg-white border border-gray-200 rounded-lg p-6">
+              <div className="flex items-center gap-2 mb-2">
+                <UserCog className="text-blue-600" size={20} />
+                <h3 className="font-semibold text-gray-900">{t.roles[role]}</h3>
+              </div>
+              <p className="text-sm text-gray-600">{t.roleDescriptions[role]}</p>
+            </div>
+          ))}
+        </div>
+
+        {isInviting && (
+          <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">{t.inviteMember}</h2>
+            <form onSubmit={handleInvite}>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.email} *
+                  </label>
+                  <input
+                    type="email"
+                    value={inviteData.email}
+                    onChange={(e) => setInviteData({ ...inviteData, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t.inviteHelper}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t.role} *
+                  </label>
+                  <select
+                    value={inviteData.role}
+                    onChange={(e) => setInviteData({ ...inviteData, role: e.target.value as Role })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {roles.map((role) => (
+                      <option key={role} value={role}>{t.roles[role]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  <Mail size={18} />
+                  {t.invite}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsInviting(false)}
+                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  {tc.cancel}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{t.members}</h2>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden mb-8">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.email}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.role}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.joined}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {tc.actions}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {members.map((member) => {
+                const isSelf = member.user_id === session.user.id;
+
+                return (
+                  <tr key={member.user_id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {member.email}
+                      {isSelf && <span className="text-gray-500"> ({t.you})</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {isSelf ? (
+                        getRoleBadge(member.role)
+                      ) : (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                          className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {roles.map((role) => (
+                            <option key={role} value={role}>{t.roles[role]}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(member.created_at).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {!isSelf && (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          className="text-red-600 hover:text-red-800"
+                          title={tc.delete}
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{t.invitations}</h2>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.email}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.role}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.invitedOn}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {tc.actions}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {invitations.map((invitation) => (
+                <tr key={invitation.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invitation.email}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">{getRoleBadge(invitation.role)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {new Date(invitation.created_at).toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => handleCancelInvitation(invitation)}
+                      className="text-red-600 hover:text-red-800"
+                      title={tc.cancel}
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {invitations.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                    {t.noInvitations}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <footer className="mt-8 text-center text-sm text-gray-500">
+        {tc.footer}
+      </footer>
+    </div>
+  );
+}
+
+export default Team;
@@ -0,0 +1,437 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, ShieldCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { useWorkspace } from '../lib/workspace';
+import { formatInvoiceNumber } from '../lib/invoice';
+import { isUnderWarranty, type ClaimResolution, type ClaimStatus } from '../lib/warranty';
+import { fr } from '../lib/translations';
+
+type Claim = Database['public']['Tables']['warranty_claims']['Row'];
+type ClaimInsert = Database['public']['Tables']['warranty_claims']['Insert'];
+type Sale = Database['public']['Tables']['sales']['Row'] & {
+  inventory_items: Pick<Database['public']['Tables']['inventory_items']['Row'], 'item_id' | 'model_family' | 'screen_size' | 'serial_number'> | null;
+  customers: Pick<Database['public']['Tables']['customers']['Row'], 'name'> | null;
+};
+type ClaimWithSale = Claim & { sales: Sale | null };
+
+const emptyClaim = (): ClaimInsert => ({
+  sale_id: '',
+  opened_on: new Date().toISOString().split('T')[0],
+  issue: '',
+  diagnosis: null,
+  resolution: null,
+  cost: 0,
+  status: 'open',
+  closed_on: null,
+  notes: null,
+});
+
+function Warranty() {
+  const t = fr.warranty;
+  const tc = fr.common;
+  const { can } = useWorkspace();
+  const showCosts = can('view_costs');
+  const [claims, setClaims] = useState<ClaimWithSale[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ClaimInsert>(emptyClaim());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showClosed, setShowClosed] = useState(false);
+
+  useEffect(() => {
+    loadClaims();
+    loadSales();
+  }, []);
+
+  const saleSelect = `
+    *,
+    inventory_items (item_id, model_family, screen_size, serial_number),
+    customers (name)
+  `;
+
+  const loadClaims = async () => {
+    const { data, error } = await supabase
+      .from('warranty_claims')
+      .select(`*, sales (${saleSelect})`)
+      .order('opened_on', { ascending: false });
+
+    if (error) {
+      console.error('Error loading claims:', error);
+    } else {
+      setClaims((data || []) as ClaimWithSale[]);
+    }
+  };
+
+  const loadSales = async () => {
+    const { data, error } = await supabase
+      .from('sales')
+      .select(saleSelect)
+      .order('sale_date', { ascending: false });
+
+    if (error) {
+      console.error('Error loading sales:', error);
+    } else {
+      setSales((data || []) as Sale[]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.sale_id || !formData.issue) {
+      alert('Veuillez choisir une vente et décrire le problème');
+      return;
+    }
+
+    const claimData = {
+      ...formData,
+      diagnosis: formData.diagnosis || null,
+      notes: formData.notes || null,
+      closed_on: formData.status === 'closed'
+        ? formData.closed_on || new Date().toISOString().split('T')[0]
+        : null,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('warranty_claims').update(claimData).eq('id', editingId)
+      : await supabase.from('warranty_claims').insert([claimData]);
+
+    if (error) {
+      console.error('Error saving claim:', error);
+      alert('Erreur lors de l\'enregistrement de la réclamation');
+    } else {
+      handleCancel();
+      loadClaims();
+    }
+  };
+
+  const handleEdit = (claim: ClaimWithSale) => {
+    setEditingId(claim.id);
+    setIsEditing(true);
+    setFormData({
+      sale_id: claim.sale_id,
+      opened_on: claim.opened_on,
+      issue: claim.issue,
+      diagnosis: claim.diagnosis,
+      resolution: claim.resolution,
+      cost: claim.cost,
+      status: claim.status,
+      closed_on: claim.closed_on,
+      notes: claim.notes,
+    });
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setEditingId(null);
+    setSearchTerm('');
+    setFormData(emptyClaim());
+  };
+
+  const describeSale = (sale: Sale) =>
+    `${formatInvoiceNumber(sale.invoice_number)} - ${sale.inventory_items?.item_id || 'N/A'} ` +
+    `${sale.inventory_items?.model_family || ''} ${sale.inventory_items?.screen_size || ''}"` +
+    (sale.customers ? ` (${sale.customers.name})` : '');
+
+  const filteredSales = sales.filter((sale) => {
+    const search = searchTerm.toLowerCase();
+    return (
+      formatInvoiceNumber(sale.invoice_number).includes(search) ||
+      (sale.inventory_items?.item_id || '').toLowerCase().includes(search) ||
+      (sale.inventory_items?.serial_number || '').toLowerCase().includes(search) ||
+      (sale.customers?.name || '').toLowerCase().includes(search)
+    );
+  });
+
+  const getStatusBadge = (status: string) => {
+    const statusColors: Record<string, string> = {
+      open: 'bg-red-100 text-red-700',
+      in_progress: 'bg-yellow-100 text-yellow-700',
+      closed: 'bg-green-100 text-green-700',
+    };
+
+    return (
+      <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full ${statusColors[status] || 'bg-gray-100 text-gray-700'}`}>
+        {t.statuses[status as ClaimStatus] || status}
+      </span>
+    );
+  };
+
+  const visibleClaims = claims.filter((claim) => showClosed || claim.status !== 'closed');
+  const selectedSale = sales.find((sale) => sale.id === formData.sale_id);
+
+  return (
+    <div className="p-8 bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+              <p className="text-gray-600 mt-1">{t.subtitle}</p>
+            </div>
+            {!isEditing && can('manage_warranty') && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                <Plus size={18} />
+                {t.openClaim}
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 italic">{t.helperText}</p>
+        </div>
+
+        {isEditing && (
+          <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">{editingId ? t.editClaim : t.openClaim}</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.sale} *</label>
+                  {!editingId && (
+                    <input
+                      type="text"
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-2"
+                      placeholder={t.searchSale}
+                    />
+                  )}
+                  <select
+                    value={formData.sale_id}
+                    onChange={(e) => setFormData({ ...formData, sale_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    disabled={!!editingId}
+                    required
+                  >
+                    <option value="">{t.selectSale}</option>
+                    {(editingId ? sales : filteredSales).map((sale) => (
+                      <option key={sale.id} value={sale.id}>
+                        {describeSale(sale)}{isUnderWarranty(sale) ? ` - ${t.underWarranty}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedSale && (
+                    <p className={`text-xs mt-1 ${isUnderWarranty(selectedSale) ? 'text-green-700' : 'text-amber-700'}`}>
+                      {selectedSale.warranty_months > 0
+                        ? `${isUnderWarranty(selectedSale) ? t.underWarranty : t.expired} (${fr.sales.warrantyUntil.toLowerCase()} ${new Date(selectedSale.warranty_expires_on).toLocaleDateString('fr-FR')})`
+                        : fr.sales.noWarranty}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.openedOn} *</label>
+                  <input
+                    type="date"
+                    value={formData.opened_on}
+                    onChange={(e) => setFormData({ ...formData, opened_on: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.status}</label>
+                  <select
+                    value={formData.status}
+                    onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(t.statuses) as ClaimStatus[]).map((status) => (
+                      <option key={status} value={status}>{t.statuses[status]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.issue} *</label>
+                  <input
+                    type="text"
+                    value={formData.issue}
+                    onChange={(e) => setFormData({ ...formData, issue: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Ex: L'écran scintille"
+                    required
+                  />
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.diagnosis}</label>
+                  <textarea
+                    value={formData.diagnosis || ''}
+                    onChange={(e) => setFormData({ ...formData, diagnosis: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={2}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t.resolution}</label>
+                  <select
+                    value={formData.resolution || ''}
+                    onChange={(e) => setFormData({ ...formData, resolution: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">-</option>
+                    {(Object.keys(t.resolutions) as ClaimResolution[]).map((resolution) => (
+                      <option key={resolution} value={resolution}>{t.resolutions[resolution]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {showCosts && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t.cost} ($)</label>
+                    <input
+                      type="number"
+                      value={formData.cost}
+                      onChange={(e) => setFormData({ ...formData, cost: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0"
+                      step="0.01"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">{t.costHelper}</p>
+                  </div>
+                )}
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{tc.notes}</label>
+                  <textarea
+                    value={formData.notes || ''}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={2}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  {editingId ? tc.update : tc.save}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  {tc.cancel}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="flex justify-end mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t.showClosed}
+          </label>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.openedOn}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.sale}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.issue}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.resolution}
+                </th>
+                {showCosts && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t.cost}
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.status}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {tc.actions}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleClaims.map((claim) => (
+                <tr key={claim.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(claim.opened_on).toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {claim.sales ? describeSale(claim.sales) : 'N/A'}
+                    {claim.sales && !isUnderWarranty(claim.sales) && (
+                      <span className="ml-2 text-xs text-amber-700">{t.expired}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <p>{claim.issue}</p>
+                    {claim.diagnosis && <p className="text-gray-500">{claim.diagnosis}</p>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {claim.resolution ? t.resolutions[claim.resolution as ClaimResolution] || claim.resolution : '-'}
+                  </td>
+                  {showCosts && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      ${claim.cost.toFixed(2)}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {getStatusBadge(claim.status)}
+                    {claim.closed_on && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(claim.closed_on).toLocaleDateString('fr-FR')}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {can('manage_warranty') && (
+                      <button
+                        onClick={() => handleEdit(claim)}
+                        className="text-blue-600 hover:text-blue-800"
+                        title={t.editClaim}
+                      >
+                        <Edit2 size={18} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {visibleClaims.length === 0 && (
+                <tr>
+                  <td colSpan={showCosts ? 7 : 6} className="px-6 py-8 text-center text-gray-500">
+                    <ShieldCheck className="mx-auto mb-2 text-green-600" size={32} />
+                    {t.noClaims}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <footer className="mt-8 text-center text-sm text-gray-500">
+        {tc.footer}
+      </footer>
+    </div>
+  );
+}
+
+export default Warranty;
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { useWorkspace } from '../lib/workspace';
+import { downloadFile } from '../lib/export';
+import { backupVersion, exportWorkspace, restoreWorkspace, type WorkspaceBackup as Backup } from '../lib/backup';
+import { fr } from '../lib/translations';
+
+function WorkspaceBackup() {
+  const t = fr.settings;
+  const { workspace } = useWorkspace();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    const { data, error } = await exportWorkspace(workspace);
+    setIsWorking(false);
+
+    if (error || !data) {
+      alert('Erreur lors de la création de la sauvegarde');
+      return;
+    }
+
+    downloadFile(
+      `sauvegarde-${new Date().toISOString().split('T')[0]}.json`,
+      new Blob([JSON.stringify(data)], { type: 'application/json' })
+    );
+    alert(`✅ ${t.backupDownloaded}`);
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let backup: Backup;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      alert('Ce fichier n\'est pas un JSON valide');
+      return;
+    }
+
+    if (!backup || typeof backup.tables !== 'object' || backup.version !== backupVersion) {
+      alert('Ce fichier n\'est pas une sauvegarde de l\'espace de travail');
+      return;
+    }
+
+    const backupDate = new Date(backup.exported_at).toLocaleString('fr-FR');
+    if (!window.confirm(`${t.restoreConfirm} ${backupDate}.\n\nContinuer?`)) return;
+
+    setIsWorking(true);
+    const { data, error } = await restoreWorkspace(workspace.id, backup);
+    setIsWorking(false);
+
+    if (error || !data) {
+      alert('Erreur lors de la restauration. Aucune donnée n\'a été modifiée.');
+      return;
+    }
+
+    const rowCount = Object.values(data).reduce((sum, count) => sum + count, 0);
+    alert(`✅ ${t.restored} (${rowCount} ${fr.export.rows})`);
+    window.location.reload();
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-semibold mb-2">{t.backup}</h2>
+      <p className="text-sm text-gray-600 italic mb-4">{t.backupHelper}</p>
+      <div className="flex gap-3">
+        <button
+          onClick={handleDownload}
+          disabled={isWorking}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          <Download size={18} />
+          {t.downloadBackup}
+        </button>
+        <label className={`flex items-center gap-2 bg-white text-red-600 border border-red-600 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors font-medium ${
+          isWorking ? 'opacity-50' : 'cursor-pointer'
+        }`}>
+          <Upload size={18} />
+          {t.restoreBackup}
+          <input type="file" accept=".json,application/json" onChange={handleRestore} className="hidden" disabled={isWorking} />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export default WorkspaceBackup;
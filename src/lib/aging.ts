@@ -0,0 +1,32 @@
+import type { Database } from './database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+// How long units have been in stock, by days since their purchase date.
+// Each bucket holds the units up to maxDays old.
+export const agingBuckets = [
+  { key: '0-30', maxDays: 30, background: 'bg-green-50', text: 'text-green-700' },
+  { key: '31-60', maxDays: 60, background: 'bg-yellow-50', text: 'text-yellow-700' },
+  { key: '61-90', maxDays: 90, background: 'bg-orange-50', text: 'text-orange-700' },
+  { key: '90+', maxDays: Infinity, background: 'bg-red-50', text: 'text-red-700' },
+] as const;
+
+export type AgingBucket = typeof agingBuckets[number]['key'];
+
+export const getAgeDays = (item: Pick<InventoryItem, 'purchase_date'>, now = new Date()): number =>
+  Math.floor((now.getTime() - new Date(item.purchase_date).getTime()) / dayMs);
+
+export const getAgingBucket = (days: number): AgingBucket =>
+  agingBuckets.find((bucket) => days <= bucket.maxDays)!.key;
+
+// The day a unit reaches the given age
+export const getDateAtAge = (item: Pick<InventoryItem, 'purchase_date'>, days: number): Date =>
+  new Date(new Date(item.purchase_date).getTime() + days * dayMs);
+
+// Where a unit is headed when it leaves regular retail, also the sales
+// channel its sale starts on
+export const dispositions = ['clearance', 'wholesale'] as const;
+
+export type Disposition = typeof dispositions[number];
@@ -0,0 +1,94 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+
+type Workspace = Database['public']['Tables']['workspaces']['Row'];
+
+// Every table holding workspace data, in the order restore_workspace inserts them
+export const backupTables = [
+  'suppliers',
+  'customers',
+  'tax_rates',
+  'exchange_rates',
+  'models',
+  'markdown_rules',
+  'purchase_orders',
+  'purchase_order_lines',
+  'inventory_items',
+  'price_changes',
+  'po_charges',
+  'item_costs',
+  'sales',
+  'sale_taxes',
+  'sale_returns',
+  'reservations',
+  'warranty_claims',
+  'supplier_rmas',
+  'targets',
+  'target_periods',
+] as const;
+
+type BackupTable = typeof backupTables[number];
+
+export const backupVersion = 1;
+
+export interface WorkspaceBackup {
+  version: number;
+  exported_at: string;
+  workspace: Workspace;
+  tables: Record<BackupTable, Json[]>;
+}
+
+// Requests return at most 1000 rows
+const pageSize = 1000;
+
+const loadTable = async (table: BackupTable, workspaceId: string): Promise<{ data: Json[]; error: PostgrestError | null }> => {
+  const rows: Json[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) return { data: [], error };
+    rows.push(...(data as Json[]));
+    if (data.length < pageSize) return { data: rows, error: null };
+  }
+};
+
+export const exportWorkspace = async (workspace: Workspace): Promise<{ data: WorkspaceBackup | null; error: PostgrestError | null }> => {
+  const tables = {} as Record<BackupTable, Json[]>;
+
+  for (const table of backupTables) {
+    const { data, error } = await loadTable(table, workspace.id);
+    if (error) {
+      console.error(`Error exporting ${table}:`, error);
+      return { data: null, error };
+    }
+    tables[table] = data;
+  }
+
+  return {
+    data: { version: backupVersion, exported_at: new Date().toISOString(), workspace, tables },
+    error: null,
+  };
+};
+
+// Replaces the workspace's data with the backup's, in one transaction.
+// Returns the number of rows restored per table.
+export const restoreWorkspace = async (
+  workspaceId: string,
+  backup: WorkspaceBackup
+): Promise<{ data: Record<string, number> | null; error: PostgrestError | null }> => {
+  const { data, error } = await supabase.rpc('restore_workspace', {
+    p_workspace_id: workspaceId,
+    p_backup: backup as unknown as Json,
+  });
+
+  if (error) {
+    console.error('Error restoring workspace:', error);
+  }
+  return { data, error };
+};
@@ -0,0 +1,68 @@
+// Parses CSV text into rows of cells. Handles quoted cells (with "" for a
+// literal quote and line breaks inside quotes), CRLF line endings and a
+// leading BOM. Blank lines are skipped.
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+// Spreadsheets saved with a French locale use semicolons
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split('\n')[0];
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+};
+
+// Inverse of parseCsv: quotes the cells that contain a quote, the delimiter
+// or a line break
+export const toCsv = (rows: (string | number | null)[][], delimiter = ','): string =>
+  rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = value === null ? '' : String(value);
+          return text.includes('"') || text.includes(delimiter) || /[\r\n]/.test(text)
+            ? `"${text.replace(/"/g, '""')}"`
+            : text;
+        })
+        .join(delimiter)
+    )
+    .join('\r\n');
@@ -0,0 +1,6 @@
+// Currencies offered in forms; any ISO code is accepted by the database
+export const currencies = ['CAD', 'USD', 'EUR', 'GBP'];
+
+// Money in a given currency: $1,234.50 for CAD, US$1,234.50 for USD...
+export const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat('en-CA', { style: 'currency', currency }).format(amount);
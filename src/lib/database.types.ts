@@ -1,9 +1,77 @@
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
 export interface Database {
   public: {
     Tables: {
+      workspaces: {
+        Row: {
+          id: string;
+          name: string;
+          business_name: string | null;
+          business_address: string | null;
+          business_phone: string | null;
+          business_email: string | null;
+          gst_number: string | null;
+          qst_number: string | null;
+          next_invoice_number: number;
+          base_currency: string;
+          target_margin_percent: number;
+          markdown_floor_margin_percent: number;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['workspaces']['Row'], 'id' | 'next_invoice_number' | 'base_currency' | 'target_margin_percent' | 'markdown_floor_margin_percent' | 'created_at'> & {
+          next_invoice_number?: number;
+          base_currency?: string;
+          target_margin_percent?: number;
+          markdown_floor_margin_percent?: number;
+        };
+        Update: Partial<Database['public']['Tables']['workspaces']['Insert']>;
+        Relationships: [];
+      };
+      workspace_members: {
+        Row: {
+          workspace_id: string;
+          user_id: string;
+          email: string | null;
+          role: string;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['workspace_members']['Row'], 'created_at'>;
+        Update: Partial<Database['public']['Tables']['workspace_members']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'workspace_members_workspace_id_fkey';
+            columns: ['workspace_id'];
+            referencedRelation: 'workspaces';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      workspace_invitations: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          email: string;
+          role: string;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['workspace_invitations']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['workspace_invitations']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'workspace_invitations_workspace_id_fkey';
+            columns: ['workspace_id'];
+            referencedRelation: 'workspaces';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       suppliers: {
         Row: {
           id: string;
+          workspace_id: string;
           supplier_code: string;
           supplier_name: string;
           supplier_type: string;
@@ -12,14 +80,20 @@ export interface Database {
           contact_email: string | null;
           notes: string | null;
           is_active: boolean;
+          currency: string;
           created_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['suppliers']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['suppliers']['Row'], 'id' | 'workspace_id' | 'currency' | 'created_at'> & {
+          workspace_id?: string;
+          currency?: string;
+        };
         Update: Partial<Database['public']['Tables']['suppliers']['Insert']>;
+        Relationships: [];
       };
       inventory_items: {
         Row: {
           id: string;
+          workspace_id: string;
           item_id: string;
           supplier_id: string;
           supplier_item_number: string;
@@ -40,35 +114,358 @@ export interface Database {
           charger_included: boolean;
           box_included: boolean;
           purchase_cost: number;
+          currency: string;
+          purchase_cost_base: number;
+          additional_costs: number;
+          asking_price: number | null;
+          disposition: string | null;
           purchase_date: string;
           status: string;
           sold_date: string | null;
           po_id: string | null;
+          po_line_id: string | null;
+          model_id: string | null;
           notes: string | null;
           created_at: string;
           updated_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['inventory_items']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Insert: Omit<Database['public']['Tables']['inventory_items']['Row'], 'id' | 'workspace_id' | 'currency' | 'purchase_cost_base' | 'additional_costs' | 'po_line_id' | 'model_id' | 'asking_price' | 'disposition' | 'created_at' | 'updated_at'> & {
+          workspace_id?: string;
+          currency?: string;
+          po_line_id?: string | null;
+          model_id?: string | null;
+          asking_price?: number | null;
+          disposition?: string | null;
+        };
         Update: Partial<Database['public']['Tables']['inventory_items']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'inventory_items_supplier_id_fkey';
+            columns: ['supplier_id'];
+            referencedRelation: 'suppliers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'inventory_items_po_id_fkey';
+            columns: ['po_id'];
+            referencedRelation: 'purchase_orders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'inventory_items_po_line_id_fkey';
+            columns: ['po_line_id'];
+            referencedRelation: 'purchase_order_lines';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'inventory_items_model_id_fkey';
+            columns: ['model_id'];
+            referencedRelation: 'models';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      item_costs: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          item_id: string;
+          cost_type: string;
+          amount: number;
+          description: string | null;
+          cost_date: string;
+          claim_id: string | null;
+          po_charge_id: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['item_costs']['Row'], 'id' | 'workspace_id' | 'claim_id' | 'po_charge_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['item_costs']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'item_costs_item_id_fkey';
+            columns: ['item_id'];
+            referencedRelation: 'inventory_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'item_costs_claim_id_fkey';
+            columns: ['claim_id'];
+            referencedRelation: 'warranty_claims';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'item_costs_po_charge_id_fkey';
+            columns: ['po_charge_id'];
+            referencedRelation: 'po_charges';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      warranty_claims: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          sale_id: string;
+          opened_on: string;
+          issue: string;
+          diagnosis: string | null;
+          resolution: string | null;
+          cost: number;
+          status: string;
+          closed_on: string | null;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['warranty_claims']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['warranty_claims']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'warranty_claims_sale_id_fkey';
+            columns: ['sale_id'];
+            referencedRelation: 'sales';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      supplier_rmas: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          item_id: string;
+          supplier_id: string;
+          po_id: string | null;
+          rma_number: string | null;
+          opened_on: string;
+          reason: string;
+          claim_value: number;
+          status: string;
+          shipped_on: string | null;
+          tracking_number: string | null;
+          resolved_on: string | null;
+          credit_amount: number;
+          replacement_item_id: string | null;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['supplier_rmas']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['supplier_rmas']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'supplier_rmas_item_id_fkey';
+            columns: ['item_id'];
+            referencedRelation: 'inventory_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'supplier_rmas_supplier_id_fkey';
+            columns: ['supplier_id'];
+            referencedRelation: 'suppliers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'supplier_rmas_po_id_fkey';
+            columns: ['po_id'];
+            referencedRelation: 'purchase_orders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'supplier_rmas_replacement_item_id_fkey';
+            columns: ['replacement_item_id'];
+            referencedRelation: 'inventory_items';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       purchase_orders: {
         Row: {
           id: string;
+          workspace_id: string;
           po_number: string;
           supplier_id: string;
           order_date: string;
           expected_delivery_date: string | null;
           status: string;
           total_amount: number | null;
+          currency: string;
           notes: string | null;
           created_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['purchase_orders']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['purchase_orders']['Row'], 'id' | 'workspace_id' | 'currency' | 'created_at'> & {
+          workspace_id?: string;
+          currency?: string;
+        };
         Update: Partial<Database['public']['Tables']['purchase_orders']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'purchase_orders_supplier_id_fkey';
+            columns: ['supplier_id'];
+            referencedRelation: 'suppliers';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      purchase_order_lines: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          po_id: string;
+          model_family: string;
+          screen_size: string;
+          year: number;
+          chip: string;
+          ram_gb: number;
+          storage_gb: number;
+          expected_grade: string;
+          quantity: number;
+          unit_cost: number;
+          received_quantity: number;
+          model_id: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['purchase_order_lines']['Row'], 'id' | 'workspace_id' | 'received_quantity' | 'model_id' | 'created_at'> & {
+          workspace_id?: string;
+          model_id?: string | null;
+        };
+        Update: Partial<Database['public']['Tables']['purchase_order_lines']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'purchase_order_lines_po_id_fkey';
+            columns: ['po_id'];
+            referencedRelation: 'purchase_orders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'purchase_order_lines_model_id_fkey';
+            columns: ['model_id'];
+            referencedRelation: 'models';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      models: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          model_family: string;
+          screen_size: string;
+          year: number;
+          a_number: string | null;
+          chips: string[];
+          ram_options: number[];
+          storage_options: number[];
+          launch_price: number | null;
+          launch_currency: string;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['models']['Row'], 'id' | 'workspace_id' | 'launch_currency' | 'created_at'> & {
+          workspace_id?: string;
+          launch_currency?: string;
+        };
+        Update: Partial<Database['public']['Tables']['models']['Insert']>;
+        Relationships: [];
+      };
+      markdown_rules: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          after_days: number;
+          discount_percent: number;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['markdown_rules']['Row'], 'id' | 'workspace_id' | 'is_active' | 'created_at'> & {
+          workspace_id?: string;
+          is_active?: boolean;
+        };
+        Update: Partial<Database['public']['Tables']['markdown_rules']['Insert']>;
+        Relationships: [];
+      };
+      price_changes: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          item_id: string;
+          old_price: number | null;
+          new_price: number | null;
+          reason: string;
+          rule_id: string | null;
+          changed_by: string | null;
+          changed_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['price_changes']['Row'], 'id' | 'workspace_id' | 'reason' | 'rule_id' | 'changed_by' | 'changed_at'> & {
+          workspace_id?: string;
+          reason?: string;
+          rule_id?: string | null;
+          changed_by?: string | null;
+        };
+        Update: Partial<Database['public']['Tables']['price_changes']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'price_changes_item_id_fkey';
+            columns: ['item_id'];
+            referencedRelation: 'inventory_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'price_changes_rule_id_fkey';
+            columns: ['rule_id'];
+            referencedRelation: 'markdown_rules';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      po_charges: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          po_id: string;
+          charge_type: string;
+          amount: number;
+          description: string | null;
+          charge_date: string;
+          allocation_method: string;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['po_charges']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['po_charges']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'po_charges_po_id_fkey';
+            columns: ['po_id'];
+            referencedRelation: 'purchase_orders';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      exchange_rates: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          currency: string;
+          rate_date: string;
+          rate: number;
+          source: string;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['exchange_rates']['Row'], 'id' | 'workspace_id' | 'source' | 'created_at'> & {
+          workspace_id?: string;
+          source?: string;
+        };
+        Update: Partial<Database['public']['Tables']['exchange_rates']['Insert']>;
+        Relationships: [];
       };
       customers: {
         Row: {
           id: string;
+          workspace_id: string;
           name: string;
           phone: string;
           email: string | null;
@@ -79,12 +476,16 @@ export interface Database {
           notes: string | null;
           created_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['customers']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['customers']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
         Update: Partial<Database['public']['Tables']['customers']['Insert']>;
+        Relationships: [];
       };
       sales: {
         Row: {
           id: string;
+          workspace_id: string;
           item_id: string;
           customer_id: string | null;
           sale_price: number;
@@ -92,10 +493,297 @@ export interface Database {
           payment_method: string;
           channel: string;
           notes: string | null;
+          tax_total: number;
+          invoice_number: number;
+          warranty_months: number;
+          warranty_expires_on: string;
+          refund_total: number;
+          unit_returned: boolean;
+          deposit_applied: number;
           created_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['sales']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['sales']['Row'], 'id' | 'workspace_id' | 'tax_total' | 'invoice_number' | 'warranty_months' | 'warranty_expires_on' | 'refund_total' | 'unit_returned' | 'deposit_applied' | 'created_at'> & {
+          workspace_id?: string;
+          warranty_months?: number;
+        };
         Update: Partial<Database['public']['Tables']['sales']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'sales_item_id_fkey';
+            columns: ['item_id'];
+            referencedRelation: 'inventory_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'sales_customer_id_fkey';
+            columns: ['customer_id'];
+            referencedRelation: 'customers';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      sale_returns: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          sale_id: string;
+          return_date: string;
+          reason: string;
+          refund_amount: number;
+          restocking_fee: number;
+          tax_refunded: number;
+          disposition: string;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['sale_returns']['Row'], 'id' | 'workspace_id' | 'tax_refunded' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['sale_returns']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'sale_returns_sale_id_fkey';
+            columns: ['sale_id'];
+            referencedRelation: 'sales';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      reservations: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          item_id: string;
+          customer_id: string;
+          deposit_amount: number;
+          payment_method: string;
+          reserved_on: string;
+          expires_on: string;
+          status: string;
+          sale_id: string | null;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['reservations']['Row'], 'id' | 'workspace_id' | 'reserved_on' | 'status' | 'sale_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['reservations']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'reservations_item_id_fkey';
+            columns: ['item_id'];
+            referencedRelation: 'inventory_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reservations_customer_id_fkey';
+            columns: ['customer_id'];
+            referencedRelation: 'customers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reservations_sale_id_fkey';
+            columns: ['sale_id'];
+            referencedRelation: 'sales';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      tax_rates: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          name: string;
+          rate: number;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['tax_rates']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['tax_rates']['Insert']>;
+        Relationships: [];
+      };
+      sale_taxes: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          sale_id: string;
+          tax_rate_id: string | null;
+          name: string;
+          rate: number;
+          amount: number;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['sale_taxes']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+        };
+        Update: Partial<Database['public']['Tables']['sale_taxes']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'sale_taxes_sale_id_fkey';
+            columns: ['sale_id'];
+            referencedRelation: 'sales';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'sale_taxes_tax_rate_id_fkey';
+            columns: ['tax_rate_id'];
+            referencedRelation: 'tax_rates';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      targets: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          type: string;
+          title: string;
+          target_value: number;
+          current_value: number;
+          start_date: string;
+          deadline: string;
+          completed: boolean;
+          visual_type: string;
+          recurrence: string;
+          scope_model_family: string | null;
+          scope_screen_size: string | null;
+          scope_channel: string | null;
+          scope_supplier_id: string | null;
+          scope_customer_type: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['targets']['Row'], 'id' | 'workspace_id' | 'created_at'> & {
+          workspace_id?: string;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['targets']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'targets_workspace_id_fkey';
+            columns: ['workspace_id'];
+            referencedRelation: 'workspaces';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'targets_scope_supplier_id_fkey';
+            columns: ['scope_supplier_id'];
+            referencedRelation: 'suppliers';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      target_periods: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          target_id: string | null;
+          title: string;
+          type: string;
+          recurrence: string;
+          period_start: string;
+          period_end: string;
+          target_value: number;
+          actual_value: number;
+          hit: boolean;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['target_periods']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['target_periods']['Insert']>;
+        Relationships: [
+          {
+            foreignKeyName: 'target_periods_target_id_fkey';
+            columns: ['target_id'];
+            referencedRelation: 'targets';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: {
+      record_sale: {
+        Args: {
+          p_item_id: string;
+          p_customer_id: string | null;
+          p_sale_price: number;
+          p_sale_date: string;
+          p_payment_method: string;
+          p_channel: string;
+          p_notes?: string | null;
+          p_tax_included?: boolean;
+          p_warranty_months?: number;
+          p_reservation_id?: string | null;
+        };
+        Returns: Database['public']['Tables']['sales']['Row'];
+      };
+      update_sale: {
+        Args: {
+          p_sale_id: string;
+          p_customer_id: string | null;
+          p_sale_price: number;
+          p_sale_date: string;
+          p_payment_method: string;
+          p_channel: string;
+          p_notes?: string | null;
+          p_warranty_months?: number | null;
+        };
+        Returns: Database['public']['Tables']['sales']['Row'];
+      };
+      delete_sale: {
+        Args: {
+          p_sale_id: string;
+        };
+        Returns: undefined;
+      };
+      record_return: {
+        Args: {
+          p_sale_id: string;
+          p_return_date: string;
+          p_reason: string;
+          p_refund_amount: number;
+          p_restocking_fee: number;
+          p_disposition: string;
+          p_notes?: string | null;
+        };
+        Returns: Database['public']['Tables']['sale_returns']['Row'];
+      };
+      reserve_item: {
+        Args: {
+          p_item_id: string;
+          p_customer_id: string;
+          p_deposit_amount: number;
+          p_payment_method: string;
+          p_expires_on: string;
+          p_notes?: string | null;
+        };
+        Returns: Database['public']['Tables']['reservations']['Row'];
+      };
+      cancel_reservation: {
+        Args: {
+          p_reservation_id: string;
+        };
+        Returns: Database['public']['Tables']['reservations']['Row'];
+      };
+      release_expired_reservations: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      roll_over_targets: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      apply_markdowns: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      restore_workspace: {
+        Args: {
+          p_workspace_id: string;
+          p_backup: Json;
+        };
+        Returns: Record<string, number>;
       };
     };
   };
@@ -0,0 +1,15 @@
+// Adds months the way Postgres does: Jan 31 + 1 month is Feb 28, not Mar 3
+export const addMonths = (date: Date, months: number) => {
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+};
+
+// A real calendar date in YYYY-MM-DD form; 2024-02-30 does not survive a round trip
+export const isValidDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
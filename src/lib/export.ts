@@ -0,0 +1,40 @@
+import { toCsv } from './csv';
+import { buildXlsx, type XlsxCell } from './xlsx';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const exportFormats: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+// header labels the CSV and XLSX columns; key names the field in JSON
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => XlsxCell | undefined;
+}
+
+// Saves a generated file through a temporary link
+export const downloadFile = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads the rows as name-YYYY-MM-DD.<format>
+export const exportRows = <T>(format: ExportFormat, name: string, columns: ExportColumn<T>[], rows: T[]) => {
+  const values = rows.map((row) => columns.map((column) => column.value(row) ?? null));
+  const headers = columns.map((column) => column.header);
+  const filename = `${name}-${new Date().toISOString().split('T')[0]}.${format}`;
+
+  if (format === 'csv') {
+    // The BOM lets Excel read accents as UTF-8
+    downloadFile(filename, new Blob(['\uFEFF' + toCsv([headers, ...values])], { type: 'text/csv;charset=utf-8' }));
+  } else if (format === 'xlsx') {
+    downloadFile(filename, buildXlsx(name, [headers, ...values]));
+  } else {
+    const objects = values.map((row) => Object.fromEntries(columns.map((column, i) => [column.key, row[i]])));
+    downloadFile(filename, new Blob([JSON.stringify(objects, null, 2)], { type: 'application/json' }));
+  }
+};
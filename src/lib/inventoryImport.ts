@@ -0,0 +1,256 @@
+import type { Database } from './database.types';
+import { conditionGrades } from './specs';
+import { familiesOf, findModel } from './models';
+import { isValidDate } from './dates';
+
+type InventoryInsert = Database['public']['Tables']['inventory_items']['Insert'];
+type Model = Database['public']['Tables']['models']['Row'];
+
+export type ImportField =
+  | 'supplier_item_number'
+  | 'model_family'
+  | 'screen_size'
+  | 'chip'
+  | 'ram_gb'
+  | 'storage_gb'
+  | 'year'
+  | 'serial_number'
+  | 'color'
+  | 'keyboard_layout'
+  | 'os_installed'
+  | 'condition_grade'
+  | 'condition_summary'
+  | 'battery_cycle_count'
+  | 'battery_health_percent'
+  | 'purchase_cost'
+  | 'purchase_date'
+  | 'notes';
+
+// Column of the CSV mapped onto each field, or null when not provided
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const requiredFields: ImportField[] = [
+  'supplier_item_number',
+  'model_family',
+  'screen_size',
+  'chip',
+  'ram_gb',
+  'storage_gb',
+  'year',
+  'purchase_cost',
+];
+
+export const optionalFields: ImportField[] = [
+  'serial_number',
+  'color',
+  'keyboard_layout',
+  'os_installed',
+  'condition_grade',
+  'condition_summary',
+  'battery_cycle_count',
+  'battery_health_percent',
+  'purchase_date',
+  'notes',
+];
+
+// Header names wholesalers commonly use, compared without case, spaces or punctuation
+const headerAliases: Record<ImportField, string[]> = {
+  supplier_item_number: ['supplieritemnumber', 'itemnumber', 'item', 'itemno', 'sku', 'stocknumber', 'stock', 'id'],
+  model_family: ['modelfamily', 'model', 'family'],
+  screen_size: ['screensize', 'screen', 'size', 'display'],
+  chip: ['chip', 'cpu', 'processor'],
+  ram_gb: ['ramgb', 'ram', 'memory'],
+  storage_gb: ['storagegb', 'storage', 'ssd', 'disk', 'capacity'],
+  year: ['year'],
+  serial_number: ['serialnumber', 'serial', 'sn'],
+  color: ['color', 'colour'],
+  keyboard_layout: ['keyboardlayout', 'keyboard', 'layout'],
+  os_installed: ['osinstalled', 'os'],
+  condition_grade: ['conditiongrade', 'grade'],
+  condition_summary: ['conditionsummary', 'condition', 'summary', 'comments'],
+  battery_cycle_count: ['batterycyclecount', 'cyclecount', 'cycles', 'batterycycles'],
+  battery_health_percent: ['batteryhealthpercent', 'batteryhealth', 'health'],
+  purchase_cost: ['purchasecost', 'unitcost', 'cost', 'price'],
+  purchase_date: ['purchasedate', 'date'],
+  notes: ['notes', 'note'],
+};
+
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Maps each field to the first header matching one of its aliases
+export const guessMapping = (headers: string[]): ImportMapping => {
+  const normalized = headers.map(normalize);
+  const used = new Set<number>();
+  const mapping = {} as ImportMapping;
+
+  [...requiredFields, ...optionalFields].forEach((field) => {
+    const index = headerAliases[field]
+      .map((alias) => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find((i) => i >= 0);
+    mapping[field] = index === undefined ? null : index;
+    if (index !== undefined) used.add(index);
+  });
+
+  return mapping;
+};
+
+// Matches a value against a list of choices, ignoring case and spacing
+const findChoice = (value: string, choices: string[]): string | undefined =>
+  choices.find((choice) => normalize(choice) === normalize(value));
+
+// Accepts 1234.50, 1,234.50, 1.234,50, 1234,50, 1,200 and $1234.50. A comma
+// followed by three digits separates thousands, one followed by one or two
+// digits is a decimal point; anything else is NaN so the row gets an error.
+const parseAmount = (value: string): number => {
+  const cleaned = value.replace(/[$\s]/g, '');
+  if (cleaned.includes('.') && cleaned.includes(',')) {
+    return Number(cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, ''));
+  }
+  if (/^\d{1,3}(,\d{3})+$/.test(cleaned)) return Number(cleaned.replace(/,/g, ''));
+  if (/^\d+,\d{1,2}$/.test(cleaned)) return Number(cleaned.replace(',', '.'));
+  return cleaned.includes(',') ? NaN : Number(cleaned);
+};
+
+// Accepts 16, 16GB and 1TB for RAM and storage sizes
+const parseSize = (value: string): number => {
+  const match = value.trim().match(/^(\d+)\s*(gb|go|tb|to)?$/i);
+  if (!match) return NaN;
+  const size = parseInt(match[1]);
+  return match[2] && /t/i.test(match[2]) ? size * 1024 : size;
+};
+
+const parseWholeNumber = (value: string): number => (/^\d+$/.test(value.trim()) ? parseInt(value) : NaN);
+
+export interface ImportDefaults {
+  supplierId: string;
+  supplierCode: string;
+  poId: string | null;
+  currency: string;
+  purchaseDate: string;
+}
+
+export interface ImportRow {
+  line: number;
+  item: InventoryInsert;
+  errors: string[];
+}
+
+// Builds the inventory rows of a manifest and lists what is wrong with each.
+// existingItemIds are the item_ids already in inventory; specs are checked
+// against the workspace's model catalog.
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ImportMapping,
+  defaults: ImportDefaults,
+  existingItemIds: Set<string>,
+  models: Model[]
+): ImportRow[] => {
+  const seen = new Map<string, number>();
+  const modelFamilies = familiesOf(models);
+  const screenSizes = [...new Set(models.map((model) => model.screen_size))];
+  const chips = [...new Set(models.flatMap((model) => model.chips))];
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField): string => {
+      const column = mapping[field];
+      return column === null ? '' : (row[column] || '').trim();
+    };
+    const optional = (field: ImportField): string | null => cell(field) || null;
+
+    const supplierItemNumber = cell('supplier_item_number');
+    const itemId = `${defaults.supplierCode}${supplierItemNumber}`;
+    if (!supplierItemNumber) {
+      errors.push('Numéro d\'article manquant');
+    } else if (existingItemIds.has(itemId)) {
+      errors.push(`${itemId} existe déjà dans l'inventaire`);
+    } else if (seen.has(itemId)) {
+      errors.push(`${itemId} en double (ligne ${seen.get(itemId)})`);
+    }
+    seen.set(itemId, index + 2);
+
+    const modelFamily = findChoice(cell('model_family'), modelFamilies);
+    if (!modelFamily) errors.push(`Modèle inconnu: "${cell('model_family')}"`);
+
+    const screenSize = findChoice(cell('screen_size').replace(/("|''|in(ch(es)?)?|pouces?)$/i, ''), screenSizes);
+    if (!screenSize) errors.push(`Taille d'écran inconnue: "${cell('screen_size')}"`);
+
+    const chip = findChoice(cell('chip').replace(/^apple\s*/i, ''), chips);
+    if (!chip) errors.push(`Puce inconnue: "${cell('chip')}"`);
+
+    const ramGb = parseSize(cell('ram_gb'));
+    if (!(ramGb > 0)) errors.push(`RAM invalide: "${cell('ram_gb')}"`);
+
+    const storageGb = parseSize(cell('storage_gb'));
+    if (!(storageGb > 0)) errors.push(`Stockage invalide: "${cell('storage_gb')}"`);
+
+    const year = parseWholeNumber(cell('year'));
+    if (!(year >= 2006 && year <= new Date().getFullYear() + 1)) errors.push(`Année invalide: "${cell('year')}"`);
+
+    const model = findModel(models, {
+      model_family: modelFamily || '',
+      screen_size: screenSize || '',
+      chip: chip || '',
+      year,
+      ram_gb: ramGb,
+      storage_gb: storageGb,
+    });
+    if (modelFamily && screenSize && chip && year && !model) {
+      errors.push(`Aucun modèle ${modelFamily} ${screenSize}" ${chip} de ${year} dans le catalogue`);
+    }
+
+    const purchaseCost = parseAmount(cell('purchase_cost'));
+    if (!cell('purchase_cost') || !(purchaseCost >= 0)) errors.push(`Coût invalide: "${cell('purchase_cost')}"`);
+
+    const gradeValue = cell('condition_grade');
+    const conditionGrade = gradeValue ? findChoice(gradeValue, conditionGrades) : 'A';
+    if (!conditionGrade) errors.push(`Grade inconnu: "${gradeValue}"`);
+
+    const cyclesValue = cell('battery_cycle_count');
+    const batteryCycleCount = cyclesValue ? parseWholeNumber(cyclesValue) : null;
+    if (Number.isNaN(batteryCycleCount)) errors.push(`Cycles de batterie invalides: "${cyclesValue}"`);
+
+    const healthValue = cell('battery_health_percent').replace(/%$/, '');
+    const batteryHealth = healthValue ? parseWholeNumber(healthValue) : null;
+    if (batteryHealth !== null && !(batteryHealth <= 100)) errors.push(`Santé batterie invalide: "${healthValue}"`);
+
+    const purchaseDate = cell('purchase_date') || defaults.purchaseDate;
+    if (!isValidDate(purchaseDate)) errors.push(`Date invalide (AAAA-MM-JJ): "${purchaseDate}"`);
+
+    return {
+      line: index + 2,
+      errors,
+      item: {
+        item_id: itemId,
+        supplier_id: defaults.supplierId,
+        supplier_item_number: supplierItemNumber,
+        model_family: modelFamily || '',
+        screen_size: screenSize || '',
+        chip: chip || '',
+        ram_gb: ramGb,
+        storage_gb: storageGb,
+        year,
+        model_id: model ? model.id : null,
+        serial_number: optional('serial_number'),
+        color: optional('color'),
+        keyboard_layout: optional('keyboard_layout'),
+        os_installed: optional('os_installed'),
+        condition_grade: conditionGrade || 'A',
+        condition_summary: cell('condition_summary'),
+        battery_cycle_count: batteryCycleCount,
+        battery_health_percent: batteryHealth,
+        charger_included: true,
+        box_included: false,
+        purchase_cost: purchaseCost,
+        currency: defaults.currency,
+        purchase_date: purchaseDate,
+        status: 'in_stock',
+        sold_date: null,
+        po_id: defaults.poId,
+        notes: optional('notes'),
+      },
+    };
+  });
+};
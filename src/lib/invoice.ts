@@ -0,0 +1,86 @@
+import type { Database } from './database.types';
+import { sendMail } from './mail';
+import { fr } from './translations';
+
+type Workspace = Database['public']['Tables']['workspaces']['Row'];
+type Sale = Database['public']['Tables']['sales']['Row'];
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type Customer = Database['public']['Tables']['customers']['Row'];
+type SaleTax = Database['public']['Tables']['sale_taxes']['Row'];
+
+export type InvoiceSale = Sale & {
+  inventory_items: InventoryItem | null;
+  customers: Customer | null;
+  sale_taxes: SaleTax[];
+};
+
+export const formatInvoiceNumber = (invoiceNumber: number): string =>
+  invoiceNumber.toString().padStart(6, '0');
+
+const paymentMethodLabels: Record<string, string> = {
+  cash: fr.sales.cash,
+  interac: fr.sales.interac,
+  credit_card: fr.sales.creditCard,
+  bank_transfer: fr.sales.bankTransfer,
+};
+
+export const getPaymentMethodLabel = (method: string): string =>
+  paymentMethodLabels[method] || method;
+
+export const describeUnit = (item: InventoryItem): string =>
+  `${item.model_family} ${item.screen_size}" ${item.year} - ${item.chip}, ${item.ram_gb} Go RAM, ${item.storage_gb} Go`;
+
+// Plain-text version of the invoice, used as the email body
+export const renderInvoiceText = (sale: InvoiceSale, business: Workspace): string => {
+  const t = fr.invoice;
+  const item = sale.inventory_items;
+  const lines = [
+    `${t.invoice} ${formatInvoiceNumber(sale.invoice_number)}`,
+    `${t.date}: ${new Date(sale.sale_date).toLocaleDateString('fr-FR')}`,
+    '',
+    business.business_name || business.name,
+    business.business_address,
+    business.business_phone,
+    business.business_email,
+    '',
+  ];
+
+  if (item) {
+    lines.push(
+      describeUnit(item),
+      `${t.serialNumber}: ${item.serial_number || '-'}`,
+      `${t.conditionGrade}: ${item.condition_grade}`,
+      ''
+    );
+  }
+
+  lines.push(`${t.subtotal}: $${sale.sale_price.toFixed(2)}`);
+  sale.sale_taxes.forEach((tax) => {
+    lines.push(`${tax.name} (${tax.rate}%): $${tax.amount.toFixed(2)}`);
+  });
+  lines.push(`${t.total}: $${(sale.sale_price + sale.tax_total).toFixed(2)}`);
+  if (sale.deposit_applied > 0) {
+    lines.push(
+      `${t.depositApplied}: -$${sale.deposit_applied.toFixed(2)}`,
+      `${t.balanceDue}: $${(sale.sale_price + sale.tax_total - sale.deposit_applied).toFixed(2)}`
+    );
+  }
+  lines.push(`${t.paymentMethod}: ${getPaymentMethodLabel(sale.payment_method)}`);
+  if (sale.warranty_months > 0) {
+    lines.push(
+      `${t.warranty}: ${sale.warranty_months} ${fr.sales.months}, ${fr.sales.warrantyUntil.toLowerCase()} ${new Date(sale.warranty_expires_on).toLocaleDateString('fr-FR')}`
+    );
+  }
+
+  if (business.gst_number) lines.push('', `${t.gstNumber}: ${business.gst_number}`);
+  if (business.qst_number) lines.push(`${t.qstNumber}: ${business.qst_number}`);
+
+  return lines.filter((line) => line !== null).join('\n');
+};
+
+export const emailInvoice = (sale: InvoiceSale, business: Workspace, to: string): Promise<void> =>
+  sendMail({
+    to,
+    subject: `${fr.invoice.invoice} ${formatInvoiceNumber(sale.invoice_number)} - ${business.business_name || business.name}`,
+    text: renderInvoiceText(sale, business),
+  });
@@ -0,0 +1,311 @@
+import type { Database } from './database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+
+export type CatalogSpecs = Partial<Pick<InventoryItem, 'model_family' | 'screen_size' | 'chip' | 'year' | 'ram_gb' | 'storage_gb' | 'color'>>;
+
+export type SpecField = keyof CatalogSpecs;
+
+// chip, RAM (GB), storage (GB), color
+type CatalogConfig = [string, number, number, string];
+
+export interface CatalogModel {
+  aNumber: string;
+  identifiers: string[];
+  modelFamily: string;
+  screenSize: string;
+  year: number;
+  chips: string[];
+  colors: string[];
+  // Apple part numbers of the standard configurations, without the region
+  // suffix (MKGP3 for MKGP3LL/A and MKGP3C/A)
+  configs?: Record<string, CatalogConfig>;
+}
+
+// A model number can cover several years (A2338 is both the M1 and the M2
+// 13-inch MacBook Pro), so models are listed per model number and year.
+export const macCatalog: CatalogModel[] = [
+  // Apple silicon
+  {
+    aNumber: 'A2337', identifiers: ['MacBookAir10,1'], modelFamily: 'MacBook Air', screenSize: '13', year: 2020,
+    chips: ['M1'], colors: ['Space Gray', 'Silver', 'Gold'],
+    configs: {
+      MGN63: ['M1', 8, 256, 'Space Gray'], MGN93: ['M1', 8, 256, 'Silver'], MGND3: ['M1', 8, 256, 'Gold'],
+      MGN73: ['M1', 8, 512, 'Space Gray'], MGNA3: ['M1', 8, 512, 'Silver'], MGNE3: ['M1', 8, 512, 'Gold'],
+    },
+  },
+  {
+    aNumber: 'A2338', identifiers: ['MacBookPro17,1'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2020,
+    chips: ['M1'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MYD82: ['M1', 8, 256, 'Space Gray'], MYDA2: ['M1', 8, 256, 'Silver'],
+      MYD92: ['M1', 8, 512, 'Space Gray'], MYDC2: ['M1', 8, 512, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2442', identifiers: ['MacBookPro18,3', 'MacBookPro18,4'], modelFamily: 'MacBook Pro', screenSize: '14', year: 2021,
+    chips: ['M1 Pro', 'M1 Max'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MKGP3: ['M1 Pro', 16, 512, 'Space Gray'], MKGR3: ['M1 Pro', 16, 512, 'Silver'],
+      MKGQ3: ['M1 Pro', 16, 1024, 'Space Gray'], MKGT3: ['M1 Pro', 16, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2485', identifiers: ['MacBookPro18,1', 'MacBookPro18,2'], modelFamily: 'MacBook Pro', screenSize: '16', year: 2021,
+    chips: ['M1 Pro', 'M1 Max'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MK183: ['M1 Pro', 16, 512, 'Space Gray'], MK1E3: ['M1 Pro', 16, 512, 'Silver'],
+      MK193: ['M1 Pro', 16, 1024, 'Space Gray'], MK1F3: ['M1 Pro', 16, 1024, 'Silver'],
+      MK1A3: ['M1 Max', 32, 1024, 'Space Gray'], MK1H3: ['M1 Max', 32, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2681', identifiers: ['Mac14,2'], modelFamily: 'MacBook Air', screenSize: '13', year: 2022,
+    chips: ['M2'], colors: ['Midnight', 'Starlight', 'Space Gray', 'Silver'],
+    configs: {
+      MLXW3: ['M2', 8, 256, 'Space Gray'], MLXY3: ['M2', 8, 256, 'Silver'],
+      MLY13: ['M2', 8, 256, 'Starlight'], MLY33: ['M2', 8, 256, 'Midnight'],
+      MLXX3: ['M2', 8, 512, 'Space Gray'], MLY03: ['M2', 8, 512, 'Silver'],
+      MLY23: ['M2', 8, 512, 'Starlight'], MLY43: ['M2', 8, 512, 'Midnight'],
+    },
+  },
+  {
+    aNumber: 'A2338', identifiers: ['Mac14,7'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2022,
+    chips: ['M2'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MNEH3: ['M2', 8, 256, 'Space Gray'], MNEP3: ['M2', 8, 256, 'Silver'],
+      MNEJ3: ['M2', 8, 512, 'Space Gray'], MNEQ3: ['M2', 8, 512, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2779', identifiers: ['Mac14,5', 'Mac14,9'], modelFamily: 'MacBook Pro', screenSize: '14', year: 2023,
+    chips: ['M2 Pro', 'M2 Max'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MPHE3: ['M2 Pro', 16, 512, 'Space Gray'], MPHH3: ['M2 Pro', 16, 512, 'Silver'],
+      MPHF3: ['M2 Pro', 16, 1024, 'Space Gray'], MPHJ3: ['M2 Pro', 16, 1024, 'Silver'],
+      MPHG3: ['M2 Max', 32, 1024, 'Space Gray'], MPHK3: ['M2 Max', 32, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2780', identifiers: ['Mac14,6', 'Mac14,10'], modelFamily: 'MacBook Pro', screenSize: '16', year: 2023,
+    chips: ['M2 Pro', 'M2 Max'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MNW83: ['M2 Pro', 16, 512, 'Space Gray'], MNWC3: ['M2 Pro', 16, 512, 'Silver'],
+      MNW93: ['M2 Pro', 16, 1024, 'Space Gray'], MNWD3: ['M2 Pro', 16, 1024, 'Silver'],
+      MNWA3: ['M2 Max', 32, 1024, 'Space Gray'], MNWE3: ['M2 Max', 32, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2941', identifiers: ['Mac14,15'], modelFamily: 'MacBook Air', screenSize: '15', year: 2023,
+    chips: ['M2'], colors: ['Midnight', 'Starlight', 'Space Gray', 'Silver'],
+    configs: {
+      MQKP3: ['M2', 8, 256, 'Space Gray'], MQKR3: ['M2', 8, 256, 'Silver'],
+      MQKU3: ['M2', 8, 256, 'Starlight'], MQKW3: ['M2', 8, 256, 'Midnight'],
+      MQKQ3: ['M2', 8, 512, 'Space Gray'], MQKT3: ['M2', 8, 512, 'Silver'],
+      MQKV3: ['M2', 8, 512, 'Starlight'], MQKX3: ['M2', 8, 512, 'Midnight'],
+    },
+  },
+  {
+    aNumber: 'A2918', identifiers: ['Mac15,3'], modelFamily: 'MacBook Pro', screenSize: '14', year: 2023,
+    chips: ['M3'], colors: ['Space Gray', 'Silver'],
+    configs: {
+      MTL73: ['M3', 8, 512, 'Space Gray'], MR7J3: ['M3', 8, 512, 'Silver'],
+      MTL83: ['M3', 8, 1024, 'Space Gray'], MR7K3: ['M3', 8, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2992', identifiers: ['Mac15,6', 'Mac15,8', 'Mac15,10'], modelFamily: 'MacBook Pro', screenSize: '14', year: 2023,
+    chips: ['M3 Pro', 'M3 Max'], colors: ['Space Black', 'Silver'],
+    configs: {
+      MRX33: ['M3 Pro', 18, 512, 'Space Black'], MRX63: ['M3 Pro', 18, 512, 'Silver'],
+      MRX43: ['M3 Pro', 18, 1024, 'Space Black'], MRX73: ['M3 Pro', 18, 1024, 'Silver'],
+      MRX53: ['M3 Max', 36, 1024, 'Space Black'], MRX83: ['M3 Max', 36, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A2991', identifiers: ['Mac15,7', 'Mac15,9', 'Mac15,11'], modelFamily: 'MacBook Pro', screenSize: '16', year: 2023,
+    chips: ['M3 Pro', 'M3 Max'], colors: ['Space Black', 'Silver'],
+    configs: {
+      MRW13: ['M3 Pro', 18, 512, 'Space Black'], MRW43: ['M3 Pro', 18, 512, 'Silver'],
+      MRW23: ['M3 Pro', 36, 512, 'Space Black'], MRW63: ['M3 Pro', 36, 512, 'Silver'],
+      MRW33: ['M3 Max', 36, 1024, 'Space Black'], MRW73: ['M3 Max', 36, 1024, 'Silver'],
+      MUW63: ['M3 Max', 48, 1024, 'Space Black'], MUW73: ['M3 Max', 48, 1024, 'Silver'],
+    },
+  },
+  {
+    aNumber: 'A3113', identifiers: ['Mac15,12'], modelFamily: 'MacBook Air', screenSize: '13', year: 2024,
+    chips: ['M3'], colors: ['Midnight', 'Starlight', 'Space Gray', 'Silver'],
+    configs: {
+      MRXN3: ['M3', 8, 256, 'Space Gray'], MRXQ3: ['M3', 8, 256, 'Silver'],
+      MRXT3: ['M3', 8, 256, 'Starlight'], MRXV3: ['M3', 8, 256, 'Midnight'],
+      MRXP3: ['M3', 8, 512, 'Space Gray'], MRXR3: ['M3', 8, 512, 'Silver'],
+      MRXU3: ['M3', 8, 512, 'Starlight'], MRXW3: ['M3', 8, 512, 'Midnight'],
+    },
+  },
+  {
+    aNumber: 'A3114', identifiers: ['Mac15,13'], modelFamily: 'MacBook Air', screenSize: '15', year: 2024,
+    chips: ['M3'], colors: ['Midnight', 'Starlight', 'Space Gray', 'Silver'],
+    configs: {
+      MRYM3: ['M3', 8, 256, 'Space Gray'], MRYP3: ['M3', 8, 256, 'Silver'],
+      MRYR3: ['M3', 8, 256, 'Starlight'], MRYU3: ['M3', 8, 256, 'Midnight'],
+    },
+  },
+
+  // Intel
+  {
+    aNumber: 'A2179', identifiers: ['MacBookAir9,1'], modelFamily: 'MacBook Air', screenSize: '13', year: 2020,
+    chips: ['i3', 'i5', 'i7'], colors: ['Space Gray', 'Silver', 'Gold'],
+  },
+  {
+    aNumber: 'A2289', identifiers: ['MacBookPro16,3'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2020,
+    chips: ['i5'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A2251', identifiers: ['MacBookPro16,2'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2020,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A2141', identifiers: ['MacBookPro16,1', 'MacBookPro16,4'], modelFamily: 'MacBook Pro', screenSize: '16', year: 2019,
+    chips: ['i7', 'i9'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A2159', identifiers: ['MacBookPro15,4'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2019,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1989', identifiers: ['MacBookPro15,2'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2018,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1989', identifiers: ['MacBookPro15,2'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2019,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1990', identifiers: ['MacBookPro15,1'], modelFamily: 'MacBook Pro', screenSize: '15', year: 2018,
+    chips: ['i7', 'i9'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1990', identifiers: ['MacBookPro15,1', 'MacBookPro15,3'], modelFamily: 'MacBook Pro', screenSize: '15', year: 2019,
+    chips: ['i7', 'i9'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1932', identifiers: ['MacBookAir8,1'], modelFamily: 'MacBook Air', screenSize: '13', year: 2018,
+    chips: ['i5'], colors: ['Space Gray', 'Silver', 'Gold'],
+  },
+  {
+    aNumber: 'A1932', identifiers: ['MacBookAir8,2'], modelFamily: 'MacBook Air', screenSize: '13', year: 2019,
+    chips: ['i5'], colors: ['Space Gray', 'Silver', 'Gold'],
+  },
+  {
+    aNumber: 'A1708', identifiers: ['MacBookPro13,1'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2016,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1708', identifiers: ['MacBookPro14,1'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2017,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1706', identifiers: ['MacBookPro13,2'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2016,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1706', identifiers: ['MacBookPro14,2'], modelFamily: 'MacBook Pro', screenSize: '13', year: 2017,
+    chips: ['i5', 'i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1707', identifiers: ['MacBookPro13,3'], modelFamily: 'MacBook Pro', screenSize: '15', year: 2016,
+    chips: ['i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1707', identifiers: ['MacBookPro14,3'], modelFamily: 'MacBook Pro', screenSize: '15', year: 2017,
+    chips: ['i7'], colors: ['Space Gray', 'Silver'],
+  },
+  {
+    aNumber: 'A1466', identifiers: ['MacBookAir7,2'], modelFamily: 'MacBook Air', screenSize: '13', year: 2015,
+    chips: ['i5', 'i7'], colors: ['Silver'],
+  },
+  {
+    aNumber: 'A1466', identifiers: ['MacBookAir7,2'], modelFamily: 'MacBook Air', screenSize: '13', year: 2017,
+    chips: ['i5', 'i7'], colors: ['Silver'],
+  },
+];
+
+export type CatalogLookup =
+  | { status: 'found'; specs: CatalogSpecs; models: CatalogModel[]; partNumber: string | null }
+  | { status: 'random_serial' }
+  | { status: 'legacy_serial'; manufactureYear: number | null }
+  | { status: 'unknown' };
+
+// 4th character of a 12-character serial: two letters per year, one for
+// each half (C and D for 2010 ... Y and Z for 2019)
+const serialYearCodes = 'CDFGHJKLMNPQRSTVWXYZ';
+
+// The values every candidate model agrees on
+const commonSpecs = (models: CatalogModel[]): CatalogSpecs => {
+  const [first] = models;
+  const specs: CatalogSpecs = {};
+  if (models.every((model) => model.modelFamily === first.modelFamily)) specs.model_family = first.modelFamily;
+  if (models.every((model) => model.screenSize === first.screenSize)) specs.screen_size = first.screenSize;
+  if (models.every((model) => model.year === first.year)) specs.year = first.year;
+  const chips = new Set(models.flatMap((model) => model.chips));
+  if (chips.size === 1) specs.chip = first.chips[0];
+  const colors = new Set(models.flatMap((model) => model.colors));
+  if (colors.size === 1) specs.color = first.colors[0];
+  return specs;
+};
+
+// Looks up a model identifier (MacBookPro18,3), a model number (A2442), an
+// order number (MKGP3LL/A) or a serial number. Serials issued since 2021 are
+// random and older ones need Apple's records, so they are only recognized.
+export const lookupCatalog = (input: string): CatalogLookup => {
+  const value = input.trim().replace(/\s/g, '');
+  const upper = value.toUpperCase();
+  if (!value) return { status: 'unknown' };
+
+  const byIdentifier = macCatalog.filter((model) =>
+    model.identifiers.some((identifier) => identifier.toUpperCase() === upper)
+  );
+  if (byIdentifier.length > 0) {
+    return { status: 'found', specs: commonSpecs(byIdentifier), models: byIdentifier, partNumber: null };
+  }
+
+  if (/^A\d{4}$/.test(upper)) {
+    const byANumber = macCatalog.filter((model) => model.aNumber === upper);
+    return byANumber.length > 0
+      ? { status: 'found', specs: commonSpecs(byANumber), models: byANumber, partNumber: null }
+      : { status: 'unknown' };
+  }
+
+  // Order numbers are 5 characters followed by a region code, e.g. LL/A or C/A
+  const partMatch = upper.match(/^([A-Z0-9]{5})([A-Z]{1,2}\/?A)?$/);
+  if (partMatch) {
+    const partNumber = partMatch[1];
+    const model = macCatalog.find((candidate) => candidate.configs?.[partNumber]);
+    if (model && model.configs) {
+      const [chip, ramGb, storageGb, color] = model.configs[partNumber];
+      return {
+        status: 'found',
+        specs: {
+          model_family: model.modelFamily,
+          screen_size: model.screenSize,
+          year: model.year,
+          chip,
+          ram_gb: ramGb,
+          storage_gb: storageGb,
+          color,
+        },
+        models: [model],
+        partNumber,
+      };
+    }
+  }
+
+  if (/^[A-Z0-9]{10}$/.test(upper)) return { status: 'random_serial' };
+
+  if (/^[A-Z0-9]{12}$/.test(upper)) {
+    const code = serialYearCodes.indexOf(upper[3]);
+    return { status: 'legacy_serial', manufactureYear: code >= 0 ? 2010 + Math.floor(code / 2) : null };
+  }
+
+  return { status: 'unknown' };
+};
@@ -0,0 +1,26 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message: the default opens the user's mail
+// client; a transactional email service can be plugged in with setMailAdapter.
+export interface MailAdapter {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export const mailtoAdapter: MailAdapter = {
+  send: async ({ to, subject, text }) => {
+    const params = new URLSearchParams({ subject, body: text });
+    window.location.href = `mailto:${encodeURIComponent(to)}?${params.toString().replace(/\+/g, '%20')}`;
+  },
+};
+
+let adapter: MailAdapter = mailtoAdapter;
+
+export const setMailAdapter = (next: MailAdapter) => {
+  adapter = next;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => adapter.send(message);
@@ -0,0 +1,71 @@
+import type { Database } from './database.types';
+
+type Model = Database['public']['Tables']['models']['Row'];
+type InventoryInsert = Database['public']['Tables']['inventory_items']['Insert'];
+
+// Specs picked from the model catalog, shared by units and purchase order lines
+export type ModelSpecs = Pick<InventoryInsert, 'model_family' | 'screen_size' | 'chip' | 'year' | 'ram_gb' | 'storage_gb'> & {
+  model_id?: string | null;
+};
+
+const unique = <T>(values: T[]): T[] => [...new Set(values)];
+
+export const familiesOf = (models: Model[]): string[] => unique(models.map((model) => model.model_family));
+
+export const sizesOf = (models: Model[], family: string): string[] =>
+  unique(models.filter((model) => model.model_family === family).map((model) => model.screen_size))
+    .sort((a, b) => parseFloat(a) - parseFloat(b));
+
+export const chipsOf = (models: Model[], family: string, size: string): string[] =>
+  unique(
+    models
+      .filter((model) => model.model_family === family && model.screen_size === size)
+      .flatMap((model) => model.chips)
+  );
+
+// Models offering the chip in that family and size, newest first
+export const modelsFor = (models: Model[], family: string, size: string, chip: string): Model[] =>
+  models
+    .filter((model) => model.model_family === family && model.screen_size === size && model.chips.includes(chip))
+    .sort((a, b) => b.year - a.year);
+
+// e.g. 2021 (A2442)
+export const modelLabel = (model: Model): string => `${model.year}${model.a_number ? ` (${model.a_number})` : ''}`;
+
+// Keeps each spec that is still a valid choice after an upstream one changed
+// and falls back to the first valid choice otherwise. Specs are returned as
+// they are when the catalog is empty.
+export const cascadeSpecs = (models: Model[], specs: ModelSpecs): ModelSpecs => {
+  const pick = (value: string, choices: string[]) => (choices.includes(value) ? value : choices[0]);
+
+  const family = pick(specs.model_family, familiesOf(models));
+  if (!family) return specs;
+  const size = pick(specs.screen_size, sizesOf(models, family));
+  const chip = pick(specs.chip, chipsOf(models, family, size));
+  const candidates = modelsFor(models, family, size, chip);
+  const model =
+    candidates.find((candidate) => candidate.id === specs.model_id) ||
+    candidates.find((candidate) => candidate.year === specs.year) ||
+    candidates[0];
+
+  return {
+    model_id: model.id,
+    model_family: family,
+    screen_size: size,
+    chip,
+    year: model.year,
+    ram_gb: model.ram_options.includes(specs.ram_gb) ? specs.ram_gb : model.ram_options[0],
+    storage_gb: model.storage_options.includes(specs.storage_gb) ? specs.storage_gb : model.storage_options[0],
+  };
+};
+
+// Model matching specs entered elsewhere (imports, catalog lookups), preferring
+// one that offers the RAM and storage
+export const findModel = (models: Model[], specs: ModelSpecs): Model | undefined => {
+  const candidates = modelsFor(models, specs.model_family, specs.screen_size, specs.chip)
+    .filter((model) => model.year === specs.year);
+  return (
+    candidates.find((model) => model.ram_options.includes(specs.ram_gb) && model.storage_options.includes(specs.storage_gb)) ||
+    candidates[0]
+  );
+};
@@ -0,0 +1,88 @@
+export type Role = 'owner' | 'seller' | 'bookkeeper';
+
+export type Permission =
+  | 'view_costs'
+  | 'view_profit'
+  | 'edit_costs'
+  | 'create_inventory'
+  | 'edit_inventory'
+  | 'delete_inventory'
+  | 'record_sales'
+  | 'edit_sales'
+  | 'record_returns'
+  | 'delete_sales'
+  | 'manage_customers'
+  | 'manage_reservations'
+  | 'manage_warranty'
+  | 'manage_suppliers'
+  | 'manage_purchase_orders'
+  | 'manage_rmas'
+  | 'manage_targets'
+  | 'manage_taxes'
+  | 'manage_team';
+
+export type Page =
+  | 'dashboard'
+  | 'targets'
+  | 'suppliers'
+  | 'purchase_orders'
+  | 'inventory'
+  | 'aging'
+  | 'sales'
+  | 'customers'
+  | 'reservations'
+  | 'taxes'
+  | 'warranty'
+  | 'team'
+  | 'settings';
+
+// Mirrors the RLS policies in the workspace roles migration. The database is
+// the real gate; this only decides what the UI shows.
+const rolePermissions: Record<Role, Permission[]> = {
+  owner: [
+    'view_costs',
+    'view_profit',
+    'edit_costs',
+    'create_inventory',
+    'edit_inventory',
+    'delete_inventory',
+    'record_sales',
+    'edit_sales',
+    'record_returns',
+    'delete_sales',
+    'manage_customers',
+    'manage_reservations',
+    'manage_warranty',
+    'manage_suppliers',
+    'manage_purchase_orders',
+    'manage_rmas',
+    'manage_targets',
+    'manage_taxes',
+    'manage_team',
+  ],
+  seller: [
+    'edit_inventory',
+    'record_sales',
+    'manage_customers',
+    'manage_reservations',
+    'manage_warranty',
+  ],
+  bookkeeper: [
+    'view_costs',
+    'view_profit',
+  ],
+};
+
+const rolePages: Record<Role, Page[]> = {
+  owner: ['dashboard', 'targets', 'suppliers', 'purchase_orders', 'inventory', 'aging', 'sales', 'reservations', 'customers', 'warranty', 'taxes', 'team', 'settings'],
+  seller: ['dashboard', 'targets', 'inventory', 'aging', 'sales', 'reservations', 'customers', 'warranty'],
+  bookkeeper: ['dashboard', 'targets', 'suppliers', 'purchase_orders', 'inventory', 'aging', 'sales', 'reservations', 'customers', 'warranty', 'taxes'],
+};
+
+export const roles: Role[] = ['owner', 'seller', 'bookkeeper'];
+
+export const can = (role: Role, permission: Permission): boolean =>
+  rolePermissions[role].includes(permission);
+
+export const canAccessPage = (role: Role, page: Page): boolean =>
+  rolePages[role].includes(page);
@@ -0,0 +1,189 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { getLandedCost, getNetRevenue, type CostedItem } from './profit';
+import { getAgeDays, getDateAtAge } from './aging';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type Sale = Database['public']['Tables']['sales']['Row'];
+type MarkdownRule = Database['public']['Tables']['markdown_rules']['Row'];
+
+// What sets a unit's price apart from another unit of the same configuration
+type ConditionFields = 'condition_grade' | 'battery_health_percent' | 'battery_cycle_count' | 'charger_included' | 'box_included';
+
+export type PricedItem = Pick<InventoryItem, 'id' | 'model_family' | 'chip' | 'ram_gb' | 'storage_gb' | 'purchase_cost_base' | 'additional_costs' | ConditionFields>;
+export type ComparableUnit = Pick<InventoryItem, 'id' | 'item_id' | ConditionFields>;
+export type ComparableSale = Pick<Sale, 'item_id' | 'sale_price' | 'sale_date' | 'refund_total' | 'unit_returned'>;
+
+export interface Comparable {
+  unit: ComparableUnit;
+  sale: ComparableSale;
+  // What the sale brought in, brought to the condition of the unit being priced
+  adjustedPrice: number;
+}
+
+export interface PriceSuggestion {
+  price: number;
+  // Median adjusted price of the comparables, null without comparables
+  marketPrice: number | null;
+  // Lowest price leaving the target margin on the landed cost
+  floorPrice: number;
+  comparables: Comparable[];
+}
+
+export interface UpcomingMarkdown {
+  rule: MarkdownRule;
+  date: Date;
+  // Asking price once the rule applies
+  price: number;
+  // The floor holds the price where it is
+  atFloor: boolean;
+}
+
+// Only the most recent sales reflect the current market
+const maxComparables = 10;
+
+const gradeFactors: Record<string, number> = { A: 1, B: 0.92, C: 0.82 };
+
+// Relative value of a unit's condition, 1 for a grade A unit with a healthy
+// battery, its charger and no box. Each battery health point under 90 % takes
+// off 0.5 %, and each 100 cycles over 300 takes off 1 %, up to 10 %.
+export const conditionFactor = (unit: Pick<InventoryItem, ConditionFields>): number => {
+  const grade = gradeFactors[unit.condition_grade] ?? 1;
+  const health = unit.battery_health_percent === null ? 1 : 1 - Math.max(0, 90 - unit.battery_health_percent) * 0.005;
+  const cycles = unit.battery_cycle_count === null ? 1 : 1 - Math.min(0.1, Math.max(0, unit.battery_cycle_count - 300) / 10000);
+  const charger = unit.charger_included ? 1 : 0.96;
+  const box = unit.box_included ? 1.02 : 1;
+  return grade * health * cycles * charger * box;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// List prices end in 5 or 0
+const roundPrice = (price: number): number => Math.ceil(price / 5) * 5;
+
+// Lowest price leaving marginPercent of the price as profit on the landed
+// cost (25 means a quarter of the price is profit)
+export const getFloorPrice = (item: CostedItem, marginPercent: number): number =>
+  getLandedCost(item) / (1 - marginPercent / 100);
+
+// The market price of the comparables, never under the target margin floor
+export const suggestPrice = (
+  item: PricedItem,
+  units: ComparableUnit[],
+  sales: ComparableSale[],
+  targetMarginPercent: number
+): PriceSuggestion => {
+  const factor = conditionFactor(item);
+  const comparables = [...sales]
+    .sort((a, b) => b.sale_date.localeCompare(a.sale_date))
+    .slice(0, maxComparables)
+    .flatMap((sale) => {
+      const unit = units.find((candidate) => candidate.id === sale.item_id);
+      return unit ? [{ unit, sale, adjustedPrice: (getNetRevenue(sale) * factor) / conditionFactor(unit) }] : [];
+    });
+
+  const marketPrice = comparables.length > 0 ? median(comparables.map((comparable) => comparable.adjustedPrice)) : null;
+  const floorPrice = getFloorPrice(item, targetMarginPercent);
+
+  return {
+    price: roundPrice(Math.max(marketPrice ?? 0, floorPrice)),
+    marketPrice,
+    floorPrice,
+    comparables,
+  };
+};
+
+// Units of the same family, chip, RAM and storage that were sold and kept
+export const loadComparables = async (
+  item: PricedItem
+): Promise<{ data: { units: ComparableUnit[]; sales: ComparableSale[] }; error: PostgrestError | null }> => {
+  const { data: units, error } = await supabase
+    .from('inventory_items')
+    .select('id, item_id, condition_grade, battery_health_percent, battery_cycle_count, charger_included, box_included')
+    .eq('model_family', item.model_family)
+    .eq('chip', item.chip)
+    .eq('ram_gb', item.ram_gb)
+    .eq('storage_gb', item.storage_gb)
+    .eq('status', 'sold')
+    .neq('id', item.id);
+
+  if (error) {
+    console.error('Error loading comparable units:', error);
+    return { data: { units: [], sales: [] }, error };
+  }
+  if (units.length === 0) {
+    return { data: { units: [], sales: [] }, error: null };
+  }
+
+  const { data: sales, error: salesError } = await supabase
+    .from('sales')
+    .select('item_id, sale_price, sale_date, refund_total, unit_returned')
+    .in('item_id', units.map((unit) => unit.id))
+    .eq('unit_returned', false)
+    .order('sale_date', { ascending: false })
+    .limit(maxComparables);
+
+  if (salesError) {
+    console.error('Error loading comparable sales:', salesError);
+  }
+  return { data: { units, sales: sales || [] }, error: salesError };
+};
+
+// The next markdown rule a unit in stock will reach, and the asking price it
+// will leave. Rules the unit already reached were applied by apply_markdowns.
+// Mirrors apply_markdowns: the cut applies to the current asking price and
+// stops at the floor.
+export const getUpcomingMarkdown = (
+  item: Pick<InventoryItem, 'status' | 'purchase_date' | 'asking_price'> & CostedItem,
+  rules: MarkdownRule[],
+  floorMarginPercent: number,
+  now = new Date()
+): UpcomingMarkdown | null => {
+  if (item.status !== 'in_stock' || item.asking_price === null) return null;
+
+  const age = getAgeDays(item, now);
+  const rule = rules
+    .filter((candidate) => candidate.is_active && candidate.after_days > age)
+    .sort((a, b) => a.after_days - b.after_days)[0];
+  if (!rule) return null;
+
+  const floorPrice = Math.round(getFloorPrice(item, floorMarginPercent) * 100) / 100;
+  const price = Math.max(Math.round(item.asking_price * (1 - rule.discount_percent / 100) * 100) / 100, floorPrice);
+
+  return {
+    rule,
+    date: getDateAtAge(item, rule.after_days),
+    price: Math.min(price, item.asking_price),
+    atFloor: price >= item.asking_price,
+  };
+};
+
+// Suggested prices for many units, loading the comparables of each
+// configuration once
+export const loadSuggestions = async (
+  items: PricedItem[],
+  targetMarginPercent: number
+): Promise<Record<string, PriceSuggestion>> => {
+  const configKey = (item: PricedItem) => [item.model_family, item.chip, item.ram_gb, item.storage_gb].join('|');
+  const configs = [...new Map(items.map((item) => [configKey(item), item])).values()];
+  const results = await Promise.all(configs.map((item) => loadComparables(item)));
+  const comparables = new Map(configs.map((item, index) => [configKey(item), results[index].data]));
+
+  return Object.fromEntries(items.map((item) => {
+    const { units, sales } = comparables.get(configKey(item))!;
+    return [item.id, suggestPrice(item, units, sales, targetMarginPercent)];
+  }));
+};
+
+// Lowers the asking price of the units that reached a markdown rule
+export const applyMarkdowns = async (): Promise<void> => {
+  const { error } = await supabase.rpc('apply_markdowns');
+  if (error) {
+    console.error('Error applying markdowns:', error);
+  }
+};
@@ -0,0 +1,22 @@
+import type { Database } from './database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory_items']['Row'];
+type Sale = Database['public']['Tables']['sales']['Row'];
+
+export type CostedItem = Pick<InventoryItem, 'purchase_cost_base' | 'additional_costs'>;
+export type RefundedSale = Pick<Sale, 'sale_price' | 'refund_total' | 'unit_returned'>;
+
+// What a unit really cost, in the base currency: its converted purchase price
+// plus every cost line recorded against it (parts, refurbishment, fees, its
+// share of PO charges...). All profit figures use it.
+export const getLandedCost = (item: CostedItem): number =>
+  item.purchase_cost_base + (item.additional_costs || 0);
+
+// What the sale brought in once its refunds are taken off
+export const getNetRevenue = (sale: RefundedSale): number =>
+  sale.sale_price - (sale.refund_total || 0);
+
+// A returned unit goes back to inventory with its cost, so only the kept part
+// of the price (e.g. a restocking fee) remains as profit
+export const getSaleProfit = (sale: RefundedSale, item: CostedItem): number =>
+  getNetRevenue(sale) - (sale.unit_returned ? 0 : getLandedCost(item));
@@ -0,0 +1,62 @@
+import { getLandedCost, getSaleProfit } from './profit';
+import type { CostedItem, RefundedSale } from './profit';
+
+type LotItem = CostedItem & { id: string; status: string; purchase_date: string };
+type LotSale = RefundedSale & { item_id: string; sale_date: string };
+
+// Statuses of units still waiting for a buyer
+const onShelfStatuses = ['in_stock', 'reserved', 'returned'];
+
+// A typed invoice total that differs from the linked items by more than a cent
+export const hasTotalMismatch = (invoiceTotal: number | null, itemsTotal: number): boolean =>
+  invoiceTotal !== null && Math.abs(invoiceTotal - itemsTotal) >= 0.01;
+
+export const getItemsTotal = (items: { purchase_cost: number }[]): number =>
+  items.reduce((sum, item) => sum + item.purchase_cost, 0);
+
+export interface PoProfitability {
+  unitsReceived: number;
+  unitsSold: number;
+  unitsRemaining: number;
+  realizedProfit: number;
+  shelfCost: number;
+  rmaCredits: number;
+  avgDaysToSell: number;
+}
+
+// Profit of one purchase order's lot. RMA credits from the supplier count as
+// realized profit; days to sell use the sale that kept each sold unit.
+export const computePoProfitability = (
+  items: LotItem[],
+  sales: LotSale[],
+  rmaCredits: number
+): PoProfitability => {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  let realizedProfit = rmaCredits;
+  let totalDays = 0;
+  let unitsSold = 0;
+
+  sales.forEach((sale) => {
+    const item = itemsById.get(sale.item_id);
+    if (!item) return;
+    realizedProfit += getSaleProfit(sale, item);
+    if (!sale.unit_returned && item.status === 'sold') {
+      unitsSold += 1;
+      totalDays += Math.floor(
+        (new Date(sale.sale_date).getTime() - new Date(item.purchase_date).getTime()) / (1000 * 60 * 60 * 24)
+      );
+    }
+  });
+
+  const onShelf = items.filter((item) => onShelfStatuses.includes(item.status));
+
+  return {
+    unitsReceived: items.length,
+    unitsSold,
+    unitsRemaining: onShelf.length,
+    realizedProfit,
+    shelfCost: onShelf.reduce((sum, item) => sum + getLandedCost(item), 0),
+    rmaCredits,
+    avgDaysToSell: unitsSold > 0 ? Math.round(totalDays / unitsSold) : 0,
+  };
+};
@@ -0,0 +1,52 @@
+export type RmaStatus = 'open' | 'shipped' | 'credit_issued' | 'replaced' | 'rejected';
+
+// Still waiting on the supplier
+export const isOutstanding = (rma: { status: string }): boolean =>
+  rma.status === 'open' || rma.status === 'shipped';
+
+export interface SupplierRmaStats {
+  unitsBought: number;
+  doaUnits: number;
+  doaRate: number;
+  outstandingRmas: number;
+  outstandingValue: number;
+  credits: number;
+}
+
+// A unit counts as DOA when it is marked 'doa' or was ever sent back under an RMA
+export const computeSupplierRmaStats = (
+  items: { id: string; supplier_id: string; status: string }[],
+  rmas: { item_id: string; supplier_id: string; status: string; claim_value: number; credit_amount: number }[]
+): Record<string, SupplierRmaStats> => {
+  const stats: Record<string, SupplierRmaStats> = {};
+  const statsFor = (supplierId: string) => {
+    if (!stats[supplierId]) {
+      stats[supplierId] = { unitsBought: 0, doaUnits: 0, doaRate: 0, outstandingRmas: 0, outstandingValue: 0, credits: 0 };
+    }
+    return stats[supplierId];
+  };
+  const rmaItemIds = new Set(rmas.map((rma) => rma.item_id));
+
+  items.forEach((item) => {
+    const supplierStats = statsFor(item.supplier_id);
+    supplierStats.unitsBought += 1;
+    if (item.status === 'doa' || rmaItemIds.has(item.id)) {
+      supplierStats.doaUnits += 1;
+    }
+  });
+  rmas.forEach((rma) => {
+    const supplierStats = statsFor(rma.supplier_id);
+    supplierStats.credits += rma.credit_amount;
+    if (isOutstanding(rma)) {
+      supplierStats.outstandingRmas += 1;
+      supplierStats.outstandingValue += rma.claim_value;
+    }
+  });
+  Object.values(stats).forEach((supplierStats) => {
+    supplierStats.doaRate = supplierStats.unitsBought > 0
+      ? (supplierStats.doaUnits / supplierStats.unitsBought) * 100
+      : 0;
+  });
+
+  return stats;
+};
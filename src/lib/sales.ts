@@ -0,0 +1,170 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Sale = Database['public']['Tables']['sales']['Row'];
+type SaleInsert = Database['public']['Tables']['sales']['Insert'];
+type SaleReturn = Database['public']['Tables']['sale_returns']['Row'];
+type SaleReturnInsert = Database['public']['Tables']['sale_returns']['Insert'];
+type Reservation = Database['public']['Tables']['reservations']['Row'];
+type ReservationInsert = Database['public']['Tables']['reservations']['Insert'];
+
+export type SaleErrorCode =
+  | 'item_not_found'
+  | 'item_not_sellable'
+  | 'sale_not_found'
+  | 'invalid_sale_price'
+  | 'forbidden'
+  | 'invalid_refund'
+  | 'reservation_not_active'
+  | 'unknown';
+
+export interface SaleError {
+  code: SaleErrorCode;
+  message: string;
+}
+
+export type SaleResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: SaleError };
+
+// SQLSTATE codes raised by the sale functions (see the record_sale migration)
+const errorCodes: Record<string, SaleErrorCode> = {
+  UF001: 'item_not_found',
+  UF002: 'item_not_sellable',
+  UF003: 'sale_not_found',
+  UF004: 'invalid_sale_price',
+  UF005: 'forbidden',
+  UF006: 'invalid_refund',
+  UF007: 'reservation_not_active',
+  // insufficient_privilege, raised when an RLS policy rejects the write
+  '42501': 'forbidden',
+};
+
+const errorMessages: Record<SaleErrorCode, string> = {
+  item_not_found: 'Cet article n\'existe plus dans l\'inventaire.',
+  item_not_sellable: 'Cet article n\'est plus disponible à la vente (déjà vendu ou réservé).',
+  sale_not_found: 'Cette vente n\'existe plus.',
+  invalid_sale_price: 'Le prix de vente doit être supérieur à zéro.',
+  forbidden: 'Ton rôle ne permet pas cette action.',
+  invalid_refund: 'Ce remboursement dépasse ce qui reste à rembourser, ou l\'appareil a déjà été retourné.',
+  reservation_not_active: 'Cette réservation n\'est plus active (vendue, annulée ou expirée).',
+  unknown: 'Une erreur inattendue est survenue.',
+};
+
+const toSaleError = (error: PostgrestError): SaleError => {
+  const code = errorCodes[error.code] || 'unknown';
+  return { code, message: errorMessages[code] };
+};
+
+// With taxIncluded, sale_price is what the customer paid, taxes included.
+// Selling through a reservation applies its deposit to the sale.
+export const recordSale = async (
+  sale: SaleInsert,
+  taxIncluded = false,
+  reservationId: string | null = null
+): Promise<SaleResult<Sale>> => {
+  const { data, error } = await supabase.rpc('record_sale', {
+    p_item_id: sale.item_id,
+    p_customer_id: sale.customer_id,
+    p_sale_price: sale.sale_price,
+    p_sale_date: sale.sale_date,
+    p_payment_method: sale.payment_method,
+    p_channel: sale.channel,
+    p_notes: sale.notes,
+    p_tax_included: taxIncluded,
+    p_warranty_months: sale.warranty_months,
+    p_reservation_id: reservationId,
+  });
+
+  if (error) {
+    console.error('Error recording sale:', error);
+    return { data: null, error: toSaleError(error) };
+  }
+  return { data, error: null };
+};
+
+export const updateSale = async (
+  saleId: string,
+  sale: Omit<SaleInsert, 'item_id'>
+): Promise<SaleResult<Sale>> => {
+  const { data, error } = await supabase.rpc('update_sale', {
+    p_sale_id: saleId,
+    p_customer_id: sale.customer_id,
+    p_sale_price: sale.sale_price,
+    p_sale_date: sale.sale_date,
+    p_payment_method: sale.payment_method,
+    p_channel: sale.channel,
+    p_notes: sale.notes,
+    p_warranty_months: sale.warranty_months,
+  });
+
+  if (error) {
+    console.error('Error updating sale:', error);
+    return { data: null, error: toSaleError(error) };
+  }
+  return { data, error: null };
+};
+
+export const deleteSale = async (saleId: string): Promise<SaleResult<null>> => {
+  const { error } = await supabase.rpc('delete_sale', { p_sale_id: saleId });
+
+  if (error) {
+    console.error('Error deleting sale:', error);
+    return { data: null, error: toSaleError(error) };
+  }
+  return { data: null, error: null };
+};
+
+export const recordReturn = async (saleReturn: SaleReturnInsert): Promise<SaleResult<SaleReturn>> => {
+  const { data, error } = await supabase.rpc('record_return', {
+    p_sale_id: saleReturn.sale_id,
+    p_return_date: saleReturn.return_date,
+    p_reason: saleReturn.reason,
+    p_refund_amount: saleReturn.refund_amount,
+    p_restocking_fee: saleReturn.restocking_fee,
+    p_disposition: saleReturn.disposition,
+    p_notes: saleReturn.notes,
+  });
+
+  if (error) {
+    console.error('Error recording return:', error);
+    return { data: null, error: toSaleError(error) };
+  }
+  return { data, error: null };
+};
+
+export const reserveItem = async (reservation: ReservationInsert): Promise<SaleResult<Reservation>> => {
+  const { data, error } = await supabase.rpc('reserve_item', {
+    p_item_id: reservation.item_id,
+    p_customer_id: reservation.customer_id,
+    p_deposit_amount: reservation.deposit_amount,
+    p_payment_method: reservation.payment_method,
+    p_expires_on: reservation.expires_on,
+    p_notes: reservation.notes,
+  });
+
+  if (error) {
+    console.error('Error reserving item:', error);
+    return { data: null, error: toSaleError(error) };
+  }
+  return { data, error: null };
+};
+
+export const cancelReservation = async (reservationId: string): Promise<SaleResult<Reservation>> => {
+  const { data, error } = await supabase.rpc('cancel_reservation', { p_reservation_id: reservationId });
+
+  if (error) {
+    console.error('Error cancelling reservation:', error);
+    return { data: null, error: toSaleError(error) };
+  }
+  return { data, error: null };
+};
+
+// Expires reservations past their date and puts their units back in stock
+export const releaseExpiredReservations = async (): Promise<void> => {
+  const { error } = await supabase.rpc('release_expired_reservations');
+  if (error) {
+    console.error('Error releasing expired reservations:', error);
+  }
+};
@@ -0,0 +1,3 @@
+// Grades offered wherever a unit's condition is entered. Model specs come
+// from the workspace's model catalog (see models.ts).
+export const conditionGrades = ['A', 'B', 'C'];
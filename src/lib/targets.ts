@@ -0,0 +1,309 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { getLandedCost } from './profit';
+import { addMonths } from './dates';
+
+type TargetRow = Database['public']['Tables']['targets']['Row'];
+type TargetInsert = Database['public']['Tables']['targets']['Insert'];
+type TargetPeriod = Database['public']['Tables']['target_periods']['Row'];
+
+export type TargetType = 'revenue' | 'profit' | 'units' | 'margin';
+export type VisualType = 'progress' | 'pie' | 'funnel';
+export type Recurrence = 'none' | 'weekly' | 'monthly' | 'quarterly';
+
+// Optional filters; a null field doesn't restrict that dimension
+export interface TargetScope {
+  modelFamily: string | null;
+  screenSize: string | null;
+  channel: string | null;
+  supplierId: string | null;
+  customerType: string | null;
+}
+
+export const emptyScope: TargetScope = {
+  modelFamily: null,
+  screenSize: null,
+  channel: null,
+  supplierId: null,
+  customerType: null,
+};
+
+export interface TargetItem {
+  id: string;
+  type: TargetType;
+  title: string;
+  targetValue: number;
+  currentValue: number;
+  startDate: string;
+  deadline: string;
+  createdAt: string;
+  completed: boolean;
+  visualType: VisualType;
+  recurrence: Recurrence;
+  scope: TargetScope;
+}
+
+// Where targets lived before they moved to Supabase
+const LEGACY_STORAGE_KEY = 'unitflow_targets';
+
+export const toTargetItem = (row: TargetRow): TargetItem => ({
+  id: row.id,
+  type: row.type as TargetType,
+  title: row.title,
+  targetValue: row.target_value,
+  currentValue: row.current_value,
+  startDate: row.start_date,
+  deadline: row.deadline,
+  createdAt: row.created_at,
+  completed: row.completed,
+  visualType: (row.visual_type || 'progress') as VisualType,
+  recurrence: (row.recurrence || 'none') as Recurrence,
+  scope: {
+    modelFamily: row.scope_model_family,
+    screenSize: row.scope_screen_size,
+    channel: row.scope_channel,
+    supplierId: row.scope_supplier_id,
+    customerType: row.scope_customer_type,
+  },
+});
+
+export const toScopeColumns = (scope: TargetScope) => ({
+  scope_model_family: scope.modelFamily,
+  scope_screen_size: scope.screenSize,
+  scope_channel: scope.channel,
+  scope_supplier_id: scope.supplierId,
+  scope_customer_type: scope.customerType,
+});
+
+const toTargetInsert = (target: TargetItem): TargetInsert => {
+  const startDate = (target.startDate || target.createdAt).split('T')[0];
+
+  return {
+    type: target.type,
+    title: target.title,
+    target_value: target.targetValue,
+    current_value: target.currentValue || 0,
+    start_date: startDate < target.deadline ? startDate : target.deadline,
+    deadline: target.deadline,
+    completed: target.completed || false,
+    visual_type: target.visualType || 'progress',
+    recurrence: 'none',
+    ...toScopeColumns(emptyScope),
+    created_at: target.createdAt,
+  };
+};
+
+let legacyImport: Promise<void> | null = null;
+
+// Copies targets saved by older versions of the app into the workspace, then
+// clears them from localStorage so the import only ever runs once per browser.
+// The key is kept if the insert fails so nothing is lost.
+export const importLegacyTargets = (): Promise<void> => {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!stored) return;
+
+      let legacyTargets: TargetItem[];
+      try {
+        legacyTargets = JSON.parse(stored);
+      } catch (error) {
+        console.error('Error reading stored targets:', error);
+        return;
+      }
+
+      if (legacyTargets.length > 0) {
+        const { error } = await supabase
+          .from('targets')
+          .insert(legacyTargets.map(toTargetInsert));
+
+        if (error) {
+          console.error('Error importing stored targets:', error);
+          legacyImport = null;
+          return;
+        }
+      }
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    })();
+  }
+  return legacyImport;
+};
+
+export interface TargetSale {
+  sale_price: number;
+  sale_date: string;
+  channel: string;
+  inventory_items: {
+    purchase_cost_base: number;
+    additional_costs: number;
+    model_family: string;
+    screen_size: string;
+    supplier_id: string;
+  } | null;
+  customers: { customer_type: string } | null;
+}
+
+export interface TargetPace {
+  projectedValue: number;
+  onTrack: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Both dates are YYYY-MM-DD strings; the result counts both ends
+const daysInclusive = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS) + 1;
+
+// Loads every sale needed to compute the given targets in a single query
+export const loadTargetSales = async (targets: TargetItem[]): Promise<TargetSale[]> => {
+  if (targets.length === 0) return [];
+
+  const from = targets.reduce((min, t) => (t.startDate < min ? t.startDate : min), targets[0].startDate);
+  const to = targets.reduce((max, t) => (t.deadline > max ? t.deadline : max), targets[0].deadline);
+
+  const { data, error } = await supabase
+    .from('sales')
+    .select(`
+      sale_price,
+      sale_date,
+      channel,
+      inventory_items (purchase_cost_base, additional_costs, model_family, screen_size, supplier_id),
+      customers (customer_type)
+    `)
+    .gte('sale_date', from)
+    .lte('sale_date', to);
+
+  if (error) {
+    console.error('Error loading target sales:', error);
+    return [];
+  }
+  return data || [];
+};
+
+const matchesScope = (sale: TargetSale, scope: TargetScope) => {
+  const item = sale.inventory_items;
+  return (!scope.modelFamily || item?.model_family === scope.modelFamily)
+    && (!scope.screenSize || item?.screen_size === scope.screenSize)
+    && (!scope.channel || sale.channel === scope.channel)
+    && (!scope.supplierId || item?.supplier_id === scope.supplierId)
+    && (!scope.customerType || sale.customers?.customer_type === scope.customerType);
+};
+
+// Progress from the sales made between the target's start date and deadline,
+// restricted to the target's scope. Mirrors target_actual_value() in the database.
+export const computeTargetValue = (target: TargetItem, sales: TargetSale[]): number => {
+  const inWindow = sales.filter(
+    (sale) => sale.sale_date >= target.startDate
+      && sale.sale_date <= target.deadline
+      && matchesScope(sale, target.scope)
+  );
+
+  const revenue = inWindow.reduce((sum, sale) => sum + sale.sale_price, 0);
+  const profit = inWindow.reduce(
+    (sum, sale) => sum + (sale.inventory_items ? sale.sale_price - getLandedCost(sale.inventory_items) : 0),
+    0
+  );
+
+  switch (target.type) {
+    case 'revenue': return revenue;
+    case 'profit': return profit;
+    case 'units': return inWindow.length;
+    case 'margin': return revenue > 0 ? (profit / revenue) * 100 : 0;
+    default: return 0;
+  }
+};
+
+// Extrapolates the daily rate so far to the whole window. A margin is a ratio,
+// not a running total, so its projection is simply the current margin.
+// Returns null before the target has started.
+export const projectTargetPace = (target: TargetItem): TargetPace | null => {
+  const now = today();
+  if (now < target.startDate) return null;
+
+  const elapsedDays = daysInclusive(target.startDate, now < target.deadline ? now : target.deadline);
+  const totalDays = daysInclusive(target.startDate, target.deadline);
+
+  const projectedValue = target.type === 'margin'
+    ? target.currentValue
+    : (target.currentValue / elapsedDays) * totalDays;
+
+  return { projectedValue, onTrack: projectedValue >= target.targetValue };
+};
+
+// Last day of a recurring period starting on startDate, e.g. Jan 31 for a
+// monthly target starting Jan 1. Matches roll_over_targets() in the database.
+export const getPeriodEnd = (startDate: string, recurrence: Recurrence): string => {
+  const end = new Date(startDate);
+  switch (recurrence) {
+    case 'weekly':
+      end.setUTCDate(end.getUTCDate() + 7);
+      break;
+    case 'monthly':
+      addMonths(end, 1);
+      break;
+    case 'quarterly':
+      addMonths(end, 3);
+      break;
+    default:
+      return startDate;
+  }
+  end.setUTCDate(end.getUTCDate() - 1);
+  return end.toISOString().split('T')[0];
+};
+
+// Archives expired periods and moves recurring targets to their current period
+export const rollOverTargets = async (): Promise<void> => {
+  const { error } = await supabase.rpc('roll_over_targets');
+  if (error) {
+    console.error('Error rolling over targets:', error);
+  }
+};
+
+export interface TargetStats {
+  periods: number;
+  hits: number;
+  hitRate: number;
+  currentStreak: number;
+  bestStreak: number;
+}
+
+// Hit rate and streaks per target type; periods are walked oldest first
+export const computeTargetStats = (periods: TargetPeriod[]): Partial<Record<TargetType, TargetStats>> => {
+  const stats: Partial<Record<TargetType, TargetStats>> = {};
+  const sorted = [...periods].sort((a, b) => a.period_end.localeCompare(b.period_end));
+
+  sorted.forEach((period) => {
+    const type = period.type as TargetType;
+    const entry = stats[type] || { periods: 0, hits: 0, hitRate: 0, currentStreak: 0, bestStreak: 0 };
+
+    entry.periods += 1;
+    if (period.hit) {
+      entry.hits += 1;
+      entry.currentStreak += 1;
+      entry.bestStreak = Math.max(entry.bestStreak, entry.currentStreak);
+    } else {
+      entry.currentStreak = 0;
+    }
+    entry.hitRate = (entry.hits / entry.periods) * 100;
+
+    stats[type] = entry;
+  });
+
+  return stats;
+};
+
+// Short human label for a scope, e.g. 'MacBook Air 13" · instagram'
+export const describeScope = (scope: TargetScope, supplierName?: string): string | null => {
+  const parts = [
+    scope.modelFamily && `${scope.modelFamily}${scope.screenSize ? ` ${scope.screenSize}"` : ''}`,
+    !scope.modelFamily && scope.screenSize && `${scope.screenSize}"`,
+    scope.channel,
+    scope.supplierId && (supplierName || 'Fournisseur'),
+    scope.customerType && scope.customerType.replace('_', '/'),
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
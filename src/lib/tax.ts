@@ -0,0 +1,109 @@
+import type { Database } from './database.types';
+
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+type SaleTax = Database['public']['Tables']['sale_taxes']['Row'];
+
+export type FilingPeriod = 'monthly' | 'quarterly' | 'annual';
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxBreakdown {
+  subtotal: number;
+  lines: TaxLine[];
+  taxTotal: number;
+  total: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Same arithmetic as record_sale(): a tax-included price is split back into
+// its pre-tax subtotal, then every tax is rounded on that subtotal.
+export const computeTaxes = (
+  price: number,
+  rates: Pick<TaxRate, 'name' | 'rate'>[],
+  taxIncluded: boolean
+): TaxBreakdown => {
+  const rateTotal = rates.reduce((sum, rate) => sum + rate.rate, 0);
+  const subtotal = taxIncluded ? round(price / (1 + rateTotal / 100)) : price;
+  const lines = rates.map((rate) => ({
+    name: rate.name,
+    rate: rate.rate,
+    amount: round((subtotal * rate.rate) / 100),
+  }));
+  const taxTotal = round(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  return { subtotal, lines, taxTotal, total: round(subtotal + taxTotal) };
+};
+
+export const getFilingPeriod = (date: string, period: FilingPeriod): string => {
+  const [year, month] = date.split('-');
+  if (period === 'annual') return year;
+  if (period === 'quarterly') return `${year}-T${Math.ceil(parseInt(month) / 3)}`;
+  return `${year}-${month}`;
+};
+
+export interface TaxedSale {
+  sale_date: string;
+  sale_price: number;
+  sale_taxes: Pick<SaleTax, 'name' | 'amount'>[];
+}
+
+export interface TaxedRefund {
+  return_date: string;
+  refund_amount: number;
+  sales: TaxedSale | null;
+}
+
+export interface TaxPeriodTotal {
+  period: string;
+  salesCount: number;
+  taxableSales: number;
+  refunds: number;
+  taxes: Record<string, number>;
+  taxTotal: number;
+}
+
+// Totals per filing period, most recent first. Refunds are taken off the
+// period they were given in, each tax in proportion to the refunded amount.
+export const summarizeTaxes = (
+  sales: TaxedSale[],
+  period: FilingPeriod,
+  refunds: TaxedRefund[] = []
+): TaxPeriodTotal[] => {
+  const totals = new Map<string, TaxPeriodTotal>();
+  const getTotal = (key: string): TaxPeriodTotal => {
+    const total = totals.get(key) || { period: key, salesCount: 0, taxableSales: 0, refunds: 0, taxes: {}, taxTotal: 0 };
+    totals.set(key, total);
+    return total;
+  };
+  const addTax = (total: TaxPeriodTotal, name: string, amount: number) => {
+    total.taxes[name] = round((total.taxes[name] || 0) + amount);
+    total.taxTotal = round(total.taxTotal + amount);
+  };
+
+  sales.forEach((sale) => {
+    const total = getTotal(getFilingPeriod(sale.sale_date, period));
+
+    total.salesCount += 1;
+    total.taxableSales = round(total.taxableSales + sale.sale_price);
+    sale.sale_taxes.forEach((tax) => addTax(total, tax.name, tax.amount));
+  });
+
+  refunds.forEach((refund) => {
+    const sale = refund.sales;
+    if (!sale || sale.sale_price <= 0) return;
+
+    const total = getTotal(getFilingPeriod(refund.return_date, period));
+    const share = refund.refund_amount / sale.sale_price;
+
+    total.refunds = round(total.refunds + refund.refund_amount);
+    total.taxableSales = round(total.taxableSales - refund.refund_amount);
+    sale.sale_taxes.forEach((tax) => addTax(total, tax.name, -round(tax.amount * share)));
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.period.localeCompare(a.period));
+};
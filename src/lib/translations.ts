@@ -5,6 +5,374 @@ export const fr = {
     inventory: 'Inventaire',
     sales: 'Ventes',
     customers: 'Clients',
+    taxes: 'Taxes',
+    reservations: 'Réservations',
+    warranty: 'Garanties',
+    aging: 'Vieillissement',
+    team: 'Équipe',
+    settings: 'Paramètres',
+  },
+  auth: {
+    title: 'Connexion',
+    subtitle: 'Connecte-toi pour accéder à ton espace de travail',
+    email: 'Adresse courriel',
+    emailPlaceholder: 'toi@exemple.com',
+    sendMagicLink: 'Recevoir un lien de connexion',
+    sending: 'Envoi en cours',
+    linkSent: 'Lien envoyé! Vérifie ta boîte courriel et clique sur le lien pour te connecter.',
+    useAnotherEmail: 'Utiliser une autre adresse',
+    signOut: 'Se déconnecter',
+    noWorkspace: 'Aucun espace de travail n\'est associé à ce compte.',
+    error: 'Impossible d\'envoyer le lien de connexion. Réessaie dans un instant.',
+  },
+  taxes: {
+    title: 'Taxes',
+    subtitle: 'Taxes perçues par période de déclaration',
+    helperText: 'Les montants à remettre, prêts pour ta déclaration de TPS et de TVQ.',
+    filingPeriod: 'Période de déclaration',
+    periods: {
+      monthly: 'Mensuelle',
+      quarterly: 'Trimestrielle',
+      annual: 'Annuelle',
+    },
+    year: 'Année',
+    period: 'Période',
+    salesCount: 'Ventes',
+    refunds: 'Remboursements',
+    taxableSales: 'Ventes taxables nettes',
+    totalTax: 'Total à remettre',
+    noSales: 'Aucune vente pour cette année.',
+    rates: 'Taux de taxe',
+    ratesHelper: 'Les taux actifs s\'appliquent aux nouvelles ventes. Les ventes passées gardent leurs taux.',
+    addRate: 'Ajouter un taux',
+    name: 'Nom',
+    rate: 'Taux (%)',
+    active: 'Actif',
+    noRates: 'Aucun taux de taxe configuré.',
+  },
+  invoice: {
+    invoice: 'Facture',
+    viewInvoice: 'Voir la facture',
+    date: 'Date',
+    billedTo: 'Facturé à',
+    walkInCustomer: 'Client au comptoir',
+    unit: 'Appareil',
+    serialNumber: 'Numéro de série',
+    conditionGrade: 'Grade d\'état',
+    subtotal: 'Sous-total',
+    total: 'Total',
+    paymentMethod: 'Mode de paiement',
+    gstNumber: 'No TPS',
+    qstNumber: 'No TVQ',
+    warranty: 'Garantie',
+    depositApplied: 'Dépôt déjà payé',
+    balanceDue: 'Solde à payer',
+    thanks: 'Merci pour ton achat!',
+    print: 'Imprimer / PDF',
+    email: 'Envoyer par courriel',
+    emailPrompt: 'Adresse courriel du client',
+    missingBusiness: 'Ajoute les informations de ton entreprise dans les paramètres pour qu\'elles apparaissent sur tes factures.',
+  },
+  returns: {
+    recordReturn: 'Retour / remboursement',
+    helperText: 'La vente reste dans l\'historique; le remboursement est déduit des totaux.',
+    originalSale: 'Vente d\'origine',
+    alreadyRefunded: 'Déjà remboursé',
+    leftToRefund: 'Reste à rembourser',
+    returnDate: 'Date du retour',
+    reason: 'Raison',
+    reasons: {
+      defective: 'Défectueux',
+      not_as_described: 'Non conforme à la description',
+      changed_mind: 'Changement d\'idée',
+      price_adjustment: 'Ajustement de prix',
+      other: 'Autre',
+    },
+    disposition: 'Appareil',
+    dispositions: {
+      kept: 'Le client le garde (remboursement partiel)',
+      returned: 'Retourné, à inspecter',
+      restocked: 'Retourné et remis en stock',
+    },
+    fullRefund: 'Remboursement complet',
+    refundAmount: 'Montant remboursé avant taxes ($)',
+    restockingFee: 'Frais de restockage ($)',
+    taxRefunded: 'Taxes remboursées (estimé)',
+    refunded: 'Remboursé',
+    returnedBadge: 'Retourné',
+    restock: 'Remettre en stock après inspection',
+    restockConfirm: 'L\'inspection est terminée et l\'appareil peut être revendu?',
+    netOfRefunds: 'net des remboursements',
+  },
+  warranty: {
+    title: 'Garanties',
+    subtitle: 'Les réclamations sur tes appareils vendus',
+    helperText: 'Le coût d\'une réclamation est déduit du profit de l\'appareil et compte dans la qualité du fournisseur.',
+    openClaim: 'Ouvrir une réclamation',
+    editClaim: 'Suivre la réclamation',
+    sale: 'Vente',
+    selectSale: 'Sélectionner une vente',
+    searchSale: 'Rechercher par facture, ID article, série ou client...',
+    underWarranty: 'Sous garantie',
+    expired: 'Expirée',
+    openedOn: 'Ouverte le',
+    closedOn: 'Fermée le',
+    issue: 'Problème signalé',
+    diagnosis: 'Diagnostic',
+    resolution: 'Résolution',
+    cost: 'Coût',
+    costHelper: 'Pièces, main-d\'œuvre ou appareil de remplacement.',
+    status: 'Statut',
+    statuses: {
+      open: 'Ouverte',
+      in_progress: 'En cours',
+      closed: 'Fermée',
+    },
+    resolutions: {
+      repair: 'Réparation',
+      replacement: 'Remplacement',
+      refund: 'Remboursement',
+      no_fault: 'Aucun défaut',
+    },
+    showClosed: 'Afficher les réclamations fermées',
+    noClaims: 'Aucune réclamation. Tant mieux!',
+    unitsSold: 'Vendus',
+    claims: 'Réclamations',
+    claimRate: 'Taux',
+    claimCosts: 'Coût garanties',
+  },
+  reservations: {
+    title: 'Réservations',
+    subtitle: 'Les appareils mis de côté pour un client',
+    helperText: 'Une réservation expirée remet l\'appareil en stock automatiquement. Le dépôt est appliqué à la vente.',
+    reserveItem: 'Réserver un appareil',
+    item: 'Appareil',
+    selectItem: 'Sélectionner un appareil en stock',
+    searchItem: 'Rechercher par ID article, modèle ou série...',
+    customer: 'Client',
+    selectCustomer: 'Sélectionner un client',
+    deposit: 'Dépôt ($)',
+    depositPaidBy: 'Dépôt payé par',
+    reservedOn: 'Réservé le',
+    expiresOn: 'Réservé jusqu\'au',
+    daysLeft: 'jours restants',
+    expiresToday: 'Expire aujourd\'hui',
+    status: 'Statut',
+    statuses: {
+      active: 'Active',
+      converted: 'Vendue',
+      expired: 'Expirée',
+      cancelled: 'Annulée',
+    },
+    cancel: 'Annuler la réservation',
+    cancelConfirm: 'Annuler cette réservation et remettre l\'appareil en stock? Le remboursement du dépôt se fait à part.',
+    showInactive: 'Afficher les réservations passées',
+    noReservations: 'Aucune réservation active.',
+  },
+  rma: {
+    title: 'RMA fournisseur',
+    helperText: 'Un appareil arrivé mort retourne chez son fournisseur. Le crédit ou l\'appareil de remplacement reste rattaché au bon de commande d\'origine.',
+    openRma: 'Ouvrir un RMA',
+    editRma: 'Suivre le RMA',
+    rmaNumber: 'No RMA',
+    openedOn: 'Ouvert le',
+    reason: 'Problème',
+    claimValue: 'Valeur réclamée',
+    status: 'Statut',
+    statuses: {
+      open: 'Ouvert',
+      shipped: 'Expédié',
+      credit_issued: 'Crédit reçu',
+      replaced: 'Remplacé',
+      rejected: 'Refusé',
+    },
+    shippedOn: 'Expédié le',
+    trackingNumber: 'No de suivi',
+    resolvedOn: 'Réglé le',
+    creditAmount: 'Crédit reçu ($)',
+    replacementItem: 'Appareil de remplacement',
+    selectReplacement: 'Sélectionner l\'appareil reçu',
+    replacementHelper: 'Ajoute d\'abord l\'appareil reçu à l\'inventaire; il sera rattaché au bon de commande d\'origine.',
+    purchaseOrder: 'Bon de commande',
+    noRmas: 'Aucun RMA pour cet appareil.',
+    doaUnits: 'DOA',
+    outstandingValue: 'RMA en attente',
+  },
+  inventoryImport: {
+    title: 'Importer un manifeste',
+    helperText: 'Un CSV du fournisseur, une ligne par appareil. L\'ID de chaque article est généré comme dans le formulaire: code fournisseur + numéro d\'article.',
+    importCsv: 'Importer un CSV',
+    file: 'Fichier CSV',
+    defaultPurchaseDate: 'Date d\'achat par défaut',
+    defaultPurchaseDateHelper: 'Utilisée quand le fichier n\'a pas de colonne de date.',
+    mapping: 'Correspondance des colonnes',
+    mappingHelper: 'Choisis la colonne du fichier pour chaque champ. Les correspondances évidentes sont déjà faites.',
+    notProvided: '— Non fourni —',
+    required: 'Champs requis',
+    optional: 'Champs optionnels',
+    preview: 'Aperçu',
+    back: 'Retour',
+    line: 'Ligne',
+    errors: 'Erreurs',
+    validRows: 'prêtes à importer',
+    invalidRows: 'avec erreurs (ignorées)',
+    importRows: 'Importer',
+    rows: 'articles',
+    imported: 'articles importés',
+  },
+  settings: {
+    title: 'Paramètres',
+    subtitle: 'Les informations de ton entreprise',
+    helperText: 'Ces informations apparaissent sur tes factures.',
+    business: 'Entreprise',
+    businessName: 'Nom de l\'entreprise',
+    businessAddress: 'Adresse',
+    businessPhone: 'Téléphone',
+    businessEmail: 'Courriel',
+    gstNumber: 'Numéro de TPS',
+    qstNumber: 'Numéro de TVQ',
+    nextInvoiceNumber: 'Prochain numéro de facture',
+    nextInvoiceNumberHelper: 'Utile pour continuer une numérotation commencée ailleurs. Les numéros déjà utilisés sont refusés.',
+    saved: 'Paramètres enregistrés',
+    baseCurrency: 'Devise de base',
+    baseCurrencyHelper: 'La devise de tes ventes. Les coûts d\'achat sont convertis dans cette devise pour les profits et marges. Recharge la page après un changement.',
+    targetMargin: 'Marge visée (%)',
+    targetMarginHelper: 'Les prix suggérés ne descendent jamais sous le prix qui laisse cette marge sur le coût de revient.',
+    floorMargin: 'Marge minimale des démarques (%)',
+    floorMarginHelper: 'Les démarques automatiques ne descendent jamais sous le prix qui laisse cette marge sur le coût de revient.',
+    exchangeRates: 'Taux de change',
+    exchangeRatesHelper: 'Chaque coût d\'achat est converti au taux en vigueur à sa date d\'achat. Pour importer, un CSV avec les colonnes currency, date (AAAA-MM-JJ) et rate.',
+    addRate: 'Ajouter un taux',
+    importCsv: 'Importer un CSV',
+    currency: 'Devise',
+    rateDate: 'Date',
+    rate: 'Taux',
+    rateSource: 'Source',
+    rateSources: {
+      manual: 'Manuel',
+      csv: 'CSV',
+    },
+    noRates: 'Aucun taux enregistré.',
+    missingRates: 'Des articles sont achetés dans une devise sans taux; leur coût est pris tel quel',
+    ratesImported: 'taux importés',
+    rowsRejected: 'Lignes ignorées',
+    backup: 'Sauvegarde',
+    backupHelper: 'Télécharge toutes les données de l\'espace de travail dans un fichier JSON. Une restauration remplace les données actuelles par celles du fichier; l\'équipe et les invitations ne changent pas.',
+    downloadBackup: 'Télécharger une sauvegarde',
+    restoreBackup: 'Restaurer une sauvegarde',
+    backupDownloaded: 'Sauvegarde téléchargée',
+    restoreConfirm: 'Toutes les données actuelles seront remplacées par celles de la sauvegarde du',
+    restored: 'Sauvegarde restaurée',
+    models: 'Modèles',
+    modelsHelper: 'Les choix offerts quand tu entres un MacBook: famille, taille, puce, puis le modèle qui fixe l\'année, la RAM et le stockage possibles.',
+    addModel: 'Ajouter un modèle',
+    aNumber: 'Numéro A',
+    chips: 'Puces',
+    ramOptions: 'RAM offertes (GB)',
+    storageOptions: 'Stockages offerts (GB)',
+    launchPrice: 'Prix de lancement',
+    commaSeparated: 'Séparées par des virgules',
+    noModels: 'Aucun modèle dans le catalogue.',
+  },
+  pricing: {
+    suggestedPrice: 'Prix suggéré',
+    basedOn: 'Basé sur',
+    comparableSales: 'ventes d\'unités comparables (même famille, puce, RAM et stockage), ajustées selon l\'état',
+    marketPrice: 'Prix du marché',
+    noComparables: 'Aucune vente comparable: le prix suggéré vient de la marge visée.',
+    floorPrice: 'Prix plancher pour la marge visée',
+    saleDate: 'Date de vente',
+    soldFor: 'Vendu',
+    adjustedPrice: 'Prix ajusté',
+    cycles: 'cycles',
+    noCharger: 'sans chargeur',
+    withBox: 'avec boîte',
+    askingPrice: 'Prix demandé',
+    askingPriceHelper: 'Prix affiché, en devise de base. Chaque changement est gardé dans l\'historique.',
+    priceHistory: 'Historique des prix',
+    noPriceHistory: 'Aucun changement de prix.',
+    changedAt: 'Date',
+    oldPrice: 'Ancien prix',
+    newPrice: 'Nouveau prix',
+    reason: 'Raison',
+    manualChange: 'Manuel',
+    markdown: 'Démarque',
+    nextMarkdown: 'Prochaine démarque',
+    atFloor: 'plancher atteint',
+    markdownRules: 'Démarques automatiques',
+    markdownRulesHelper: 'Baisse le prix demandé des unités en stock selon leur âge (jours depuis l\'achat). Chaque démarque s\'applique au prix courant, sans descendre sous la marge minimale.',
+    addRule: 'Ajouter une démarque',
+    afterDays: 'Après (jours)',
+    discount: 'Baisse (%)',
+    agingBucket: 'Tranche d\'âge',
+    active: 'Active',
+    noRules: 'Aucune démarque configurée.',
+  },
+  aging: {
+    title: 'Vieillissement de l\'inventaire',
+    subtitle: 'Les unités en stock, des plus anciennes aux plus récentes',
+    helperText: 'Sélectionne des unités pour changer leur prix ou les sortir de la vente au détail.',
+    all: 'Toutes',
+    units: 'unités',
+    capitalTiedUp: 'Capital immobilisé',
+    daysInStock: 'Jours en stock',
+    disposition: 'Destination',
+    dispositions: {
+      clearance: 'Liquidation',
+      wholesale: 'Vente en gros',
+    },
+    retail: 'Détail',
+    selected: 'sélectionnées',
+    reprice: 'Changer le prix',
+    repriceModes: {
+      suggested: 'Prix suggéré',
+      percent: 'Baisse en %',
+      fixed: 'Prix fixe',
+    },
+    apply: 'Appliquer',
+    moveToClearance: 'Envoyer en liquidation',
+    markForWholesale: 'Réserver pour la vente en gros',
+    backToRetail: 'Remettre au détail',
+    noItems: 'Aucune unité en stock dans cette tranche.',
+  },
+  export: {
+    export: 'Exporter',
+    rows: 'lignes',
+    status: 'Statut',
+    netRevenue: 'Revenu net',
+    formats: {
+      csv: 'CSV',
+      xlsx: 'Excel (XLSX)',
+      json: 'JSON',
+    },
+  },
+  team: {
+    title: 'Équipe',
+    subtitle: 'Qui a accès à ton espace de travail',
+    helperText: 'Chaque rôle voit seulement ce dont il a besoin.',
+    members: 'Membres',
+    invitations: 'Invitations en attente',
+    inviteMember: 'Inviter un membre',
+    invite: 'Inviter',
+    email: 'Email',
+    role: 'Rôle',
+    you: 'toi',
+    joined: 'Membre depuis',
+    invitedOn: 'Invité le',
+    inviteHelper: 'La personne obtiendra ce rôle en se connectant avec cette adresse.',
+    removeConfirm: 'Retirer ce membre de l\'espace de travail?',
+    cancelInviteConfirm: 'Annuler cette invitation?',
+    noInvitations: 'Aucune invitation en attente.',
+    roles: {
+      owner: 'Propriétaire',
+      seller: 'Vendeur',
+      bookkeeper: 'Comptable',
+    },
+    roleDescriptions: {
+      owner: 'Accès complet, gère l\'équipe.',
+      seller: 'Enregistre des ventes et des clients. Ne voit pas les coûts ni les profits.',
+      bookkeeper: 'Lecture seule sur tout, incluant coûts et profits.',
+    },
   },
   common: {
     add: 'Ajouter',
@@ -49,6 +417,8 @@ export const fr = {
     marketplace: 'Marketplace',
     other: 'Autre',
     codeHelper: '3-6 caractères majuscules',
+    currency: 'Devise de facturation',
+    currencyHelper: 'Proposée par défaut sur ses bons de commande et ses articles.',
     noSuppliers: 'Aucun fournisseur trouvé. Ajoutez votre premier fournisseur pour commencer.',
   },
   inventory: {
@@ -95,7 +465,9 @@ export const fr = {
     chargerIncluded: 'Chargeur inclus',
     boxIncluded: 'Boîte incluse',
     purchaseDetails: 'Détails d\'achat',
-    purchaseCost: 'Coût d\'achat ($)',
+    purchaseCost: 'Coût d\'achat',
+    purchaseCostBase: 'Coût converti',
+    currency: 'Devise',
     purchaseDate: 'Date d\'achat',
     purchaseOrder: 'Bon de commande',
     selectPO: 'Sélectionner un bon de commande',
@@ -104,6 +476,40 @@ export const fr = {
     accessories: 'Accessoires',
     none: 'Aucun',
     noItems: 'Aucun article trouvé. Ajoutez votre premier article d\'inventaire pour commencer.',
+    costLedger: 'Coûts additionnels',
+    costLedgerHelper: 'Pièces, remise à neuf, livraison, frais... tout ce que l\'article t\'a coûté en plus de son prix d\'achat.',
+    addCost: 'Ajouter un coût',
+    costType: 'Type de coût',
+    amount: 'Montant ($)',
+    description: 'Description',
+    costDate: 'Date',
+    noCosts: 'Aucun coût additionnel.',
+    landedCost: 'Coût de revient',
+    costTypes: {
+      parts: 'Pièces',
+      refurbishment: 'Remise à neuf',
+      cleaning: 'Nettoyage',
+      shipping: 'Livraison',
+      marketplace_fee: 'Frais de plateforme',
+      warranty: 'Garantie',
+      po_charge: 'Frais du BC',
+      other: 'Autre',
+    },
+    claimCostHelper: 'Géré par la réclamation de garantie',
+    poChargeCostHelper: 'Réparti depuis les frais du bon de commande',
+    catalogLookup: 'Numéro de modèle, de commande ou de série',
+    catalogLookupHelper: 'Le numéro de modèle (A2442) est gravé sous l\'appareil; le numéro de commande (MKGP3LL/A) est sur la boîte; l\'identifiant (MacBookPro18,3) est dans « À propos de ce Mac ».',
+    lookup: 'Rechercher',
+    specsLocked: 'Spécifications remplies depuis le catalogue',
+    unlockSpecs: 'Déverrouiller',
+    catalogUnknown: 'Inconnu du catalogue: vérifie les spécifications à la main.',
+    randomSerial: 'Ce numéro de série (2021 et plus) est aléatoire et ne peut pas être décodé. Entre le numéro de modèle ou de commande.',
+    legacySerial: 'Ce numéro de série ne peut pas être décodé hors ligne. Entre le numéro de modèle ou de commande.',
+    manufacturedIn: 'Fabriqué en',
+    notInCatalog: 'Ces spécifications ne correspondent à aucun modèle du catalogue. Choisis un modèle, ou ajoute-le dans les paramètres.',
+    catalogModel: 'Modèle du catalogue',
+    offCatalog: 'hors catalogue',
+    noModels: 'Le catalogue de modèles est vide. Ajoute des modèles dans les paramètres.',
   },
   sales: {
     title: 'Ventes',
@@ -125,6 +531,13 @@ export const fr = {
     noCustomer: 'Aucun client / Vente au comptoir',
     newCustomer: 'Nouveau client',
     salePrice: 'Prix de vente ($)',
+    invoiceNumber: 'Facture',
+    warranty: 'Garantie',
+    noWarranty: 'Sans garantie',
+    months: 'mois',
+    warrantyUntil: 'Jusqu\'au',
+    preTaxPriceHelper: 'Prix avant taxes. Les taxes de la vente sont recalculées avec les taux d\'origine.',
+    taxes: 'Taxes',
     saleDate: 'Date de vente',
     paymentMethod: 'Mode de paiement',
     channel: 'Canal',
@@ -209,11 +622,64 @@ export const fr = {
     poNumber: 'Numéro de BC',
     orderDate: 'Date de commande',
     expectedDelivery: 'Livraison prévue',
-    totalAmount: 'Montant total',
+    totalAmount: 'Montant facturé',
+    totalAmountHelper: 'Le total de la facture du fournisseur, pour le comparer aux articles liés.',
+    itemsTotal: 'Total des articles',
+    totalMismatch: 'Le montant facturé ne correspond pas au coût des articles liés à ce BC.',
     pending: 'En attente',
     received: 'Reçu',
     partial: 'Partiel',
     cancelled: 'Annulé',
+    cancelOrder: 'Commande annulée',
+    statusHelper: 'Le statut suit les quantités reçues.',
+    details: 'Détails du BC',
+    lines: 'Lignes de commande',
+    linesHelper: 'Ce qui a été commandé. Recevoir une ligne crée les articles dans l\'inventaire, liés à ce BC.',
+    addLine: 'Ajouter une ligne',
+    model: 'Modèle',
+    specs: 'Config',
+    expectedGrade: 'Grade prévu',
+    quantity: 'Quantité',
+    unitCost: 'Coût unitaire',
+    lineTotal: 'Total ligne',
+    receivedQty: 'Reçus',
+    orderedTotal: 'Total commandé',
+    noLines: 'Aucune ligne. Ajoute ce qui a été commandé.',
+    receive: 'Recevoir',
+    receiveLine: 'Réception',
+    unitsToReceive: 'Unités reçues',
+    receivedOn: 'Reçu le',
+    currency: 'Devise',
+    itemsReceived: 'articles ajoutés à l\'inventaire',
+    profitability: 'Rentabilité du lot',
+    unitsReceived: 'Unités reçues',
+    unitsSold: 'Unités vendues',
+    unitsRemaining: 'Unités restantes',
+    realizedProfit: 'Profit réalisé',
+    shelfCost: 'Coût encore en stock',
+    rmaCredits: 'dont crédits RMA',
+    avgDaysToSell: 'Jours moyens pour vendre',
+    charges: 'Frais du BC',
+    chargesHelper: 'Livraison, douanes, courtage... payés une fois pour tout le BC et répartis sur ses unités.',
+    addCharge: 'Ajouter des frais',
+    chargeType: 'Type',
+    chargeTypes: {
+      shipping: 'Livraison',
+      customs: 'Douanes',
+      broker_fee: 'Frais de courtage',
+      other: 'Autre',
+    },
+    amount: 'Montant',
+    description: 'Description',
+    chargeDate: 'Date',
+    allocation: 'Répartition',
+    allocationMethods: {
+      cost_share: 'Au prorata du coût',
+      even: 'Parts égales',
+    },
+    noCharges: 'Aucuns frais sur ce BC.',
+    chargesTotal: 'Total des frais',
+    perUnit: 'unités liées',
   },
 };
 
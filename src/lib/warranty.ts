@@ -0,0 +1,57 @@
+import type { Database } from './database.types';
+import { addMonths } from './dates';
+
+type Sale = Database['public']['Tables']['sales']['Row'];
+
+export type ClaimStatus = 'open' | 'in_progress' | 'closed';
+export type ClaimResolution = 'repair' | 'replacement' | 'refund' | 'no_fault';
+
+export const warrantyOptions = [0, 3, 6, 12, 24];
+
+// Same date as the generated sales.warranty_expires_on column
+export const getWarrantyExpiry = (saleDate: string, months: number): string => {
+  const expiry = new Date(saleDate);
+  addMonths(expiry, months);
+  return expiry.toISOString().split('T')[0];
+};
+
+export const isUnderWarranty = (sale: Pick<Sale, 'warranty_months' | 'warranty_expires_on'>): boolean =>
+  sale.warranty_months > 0 && sale.warranty_expires_on >= new Date().toISOString().split('T')[0];
+
+export interface SupplierQuality {
+  unitsSold: number;
+  claims: number;
+  claimRate: number;
+  claimCosts: number;
+}
+
+// Claims per unit sold, by supplier
+export const computeSupplierQuality = (
+  soldItems: { supplier_id: string }[],
+  claims: { cost: number; supplier_id: string | null }[]
+): Record<string, SupplierQuality> => {
+  const stats: Record<string, SupplierQuality> = {};
+  const statsFor = (supplierId: string) => {
+    if (!stats[supplierId]) {
+      stats[supplierId] = { unitsSold: 0, claims: 0, claimRate: 0, claimCosts: 0 };
+    }
+    return stats[supplierId];
+  };
+
+  soldItems.forEach((item) => {
+    statsFor(item.supplier_id).unitsSold += 1;
+  });
+  claims.forEach((claim) => {
+    if (!claim.supplier_id) return;
+    const supplierStats = statsFor(claim.supplier_id);
+    supplierStats.claims += 1;
+    supplierStats.claimCosts += claim.cost;
+  });
+  Object.values(stats).forEach((supplierStats) => {
+    supplierStats.claimRate = supplierStats.unitsSold > 0
+      ? (supplierStats.claims / supplierStats.unitsSold) * 100
+      : 0;
+  });
+
+  return stats;
+};
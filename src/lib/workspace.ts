@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import type { Permission, Role } from './permissions';
+
+type Workspace = Database['public']['Tables']['workspaces']['Row'];
+
+export interface WorkspaceContextValue {
+  session: Session;
+  workspace: Workspace;
+  role: Role;
+  can: (permission: Permission) => boolean;
+}
+
+export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+export const useWorkspace = (): WorkspaceContextValue => {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used inside <AuthGate>');
+  }
+  return context;
+};
@@ -0,0 +1,154 @@
+// Minimal XLSX writer: a single worksheet of text and numbers in an
+// uncompressed zip, which Excel, Numbers and LibreOffice all open.
+
+export type XlsxCell = string | number | null;
+
+const encoder = new TextEncoder();
+
+// Drops the control characters XML does not allow (tab and line breaks stay)
+const escapeXml = (value: string): string =>
+  Array.from(value)
+    .filter((char) => char.charCodeAt(0) >= 32 || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const cellXml = (value: XlsxCell, ref: string): string => {
+  if (value === null || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const sheetXml = (rows: XlsxCell[][]): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+  rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('') +
+  '</sheetData></worksheet>';
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Little-endian record of 2 and 4 byte fields
+const record = (fields: [value: number, size: 2 | 4][]): Uint8Array => {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let position = 0;
+  fields.forEach(([value, size]) => {
+    if (size === 2) {
+      view.setUint16(position, value, true);
+    } else {
+      view.setUint32(position, value, true);
+    }
+    position += size;
+  });
+  return bytes;
+};
+
+// Stored (uncompressed) zip entries, names flagged as UTF-8, dated 1980-01-01
+const zip = (files: { name: string; content: string }[]): Uint8Array[] => {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+    const header = record([
+      [0x04034b50, 4], [20, 2], [0x0800, 2], [0, 2], [0, 2], [0x21, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [name.length, 2], [0, 2],
+    ]);
+    central.push(
+      record([
+        [0x02014b50, 4], [20, 2], [20, 2], [0x0800, 2], [0, 2], [0, 2], [0x21, 2],
+        [crc, 4], [data.length, 4], [data.length, 4], [name.length, 2], [0, 2],
+        [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4],
+      ]),
+      name
+    );
+    local.push(header, name, data);
+    offset += header.length + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = record([
+    [0x06054b50, 4], [0, 2], [0, 2], [files.length, 2], [files.length, 2],
+    [centralSize, 4], [offset, 4], [0, 2],
+  ]);
+
+  return [...local, ...central, end];
+};
+
+// Sheet names are limited to 31 characters, without []:*?/\
+export const buildXlsx = (sheetName: string, rows: XlsxCell[][]): Blob => {
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  const parts = zip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>',
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: sheetXml(rows) },
+  ]);
+
+  return new Blob(parts, { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,141 @@
+-- Atomic Sale Functions
+--
+-- Overview:
+-- Moves sale writes into server-side functions so the sale row and the
+-- inventory status change happen in a single transaction.
+--
+-- New Functions:
+-- 1. record_sale - Locks the inventory item, checks it is still in stock,
+--    inserts the sale and marks the item as sold
+-- 2. update_sale - Updates an existing sale (the sold item cannot change)
+-- 3. delete_sale - Deletes a sale and puts the item back in stock
+--
+-- Errors:
+-- Raised with custom SQLSTATE codes so the client can tell them apart:
+--    - UF001 item_not_found
+--    - UF002 item_not_sellable
+--    - UF003 sale_not_found
+--    - UF004 invalid_sale_price
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_item_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status text;
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  -- Lock the item so two concurrent sales cannot both see it in stock
+  SELECT status INTO v_status
+  FROM inventory_items
+  WHERE id = p_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', p_item_id
+      USING ERRCODE = 'UF001';
+  END IF;
+
+  IF v_status <> 'in_stock' THEN
+    RAISE EXCEPTION 'Inventory item % is not sellable (status: %)', p_item_id, v_status
+      USING ERRCODE = 'UF002';
+  END IF;
+
+  INSERT INTO sales (item_id, customer_id, sale_price, sale_date, payment_method, channel, notes)
+  VALUES (p_item_id, p_customer_id, p_sale_price, p_sale_date, p_payment_method, p_channel, p_notes)
+  RETURNING * INTO v_sale;
+
+  UPDATE inventory_items
+  SET status = 'sold',
+      sold_date = now(),
+      updated_at = now()
+  WHERE id = p_item_id;
+
+  RETURN v_sale;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_sale(
+  p_sale_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  UPDATE sales
+  SET customer_id = p_customer_id,
+      sale_price = p_sale_price,
+      sale_date = p_sale_date,
+      payment_method = p_payment_method,
+      channel = p_channel,
+      notes = p_notes
+  WHERE id = p_sale_id
+  RETURNING * INTO v_sale;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  RETURN v_sale;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_sale(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item_id uuid;
+BEGIN
+  SELECT item_id INTO v_item_id
+  FROM sales
+  WHERE id = p_sale_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  PERFORM 1 FROM inventory_items WHERE id = v_item_id FOR UPDATE;
+
+  DELETE FROM sales WHERE id = p_sale_id;
+
+  UPDATE inventory_items
+  SET status = 'in_stock',
+      sold_date = NULL,
+      updated_at = now()
+  WHERE id = v_item_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_sale(uuid, uuid, decimal, date, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_sale(uuid, uuid, decimal, date, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_sale(uuid) TO anon, authenticated;
@@ -0,0 +1,224 @@
+-- Workspaces, Authentication and Row Level Security
+--
+-- Overview:
+-- Replaces the single-user "Allow all access" policies with per-workspace
+-- access for signed-in users (Supabase Auth).
+--
+-- New Tables:
+-- 1. workspaces - One business (shop) using UnitFlow
+--    - id (uuid, primary key)
+--    - name (text)
+--    - created_at (timestamptz)
+-- 2. workspace_members - Links auth users to the workspace they work in
+--    - workspace_id (uuid, foreign key)
+--    - user_id (uuid, foreign key to auth.users)
+--    - email (text) - Copied from auth.users for display
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 3. suppliers, inventory_items, customers, sales, purchase_orders
+--    - workspace_id (uuid, foreign key) - Defaults to the signed-in user's workspace
+--    - Unique codes (supplier_code, item_id, po_number) are now unique per workspace
+--
+-- Existing Data:
+-- Rows created before this migration are moved into a first workspace.
+-- The first user to sign up becomes its member; every later sign-up gets
+-- a fresh, empty workspace. Sign up with the business account right after
+-- applying this migration (or disable public sign-ups in Supabase Auth).
+--
+-- Security:
+-- Drops the public access policies. Only authenticated members of a
+-- workspace can read or write its rows.
+
+-- Create workspaces table
+CREATE TABLE IF NOT EXISTS workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create workspace_members table
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+-- Helper functions (SECURITY DEFINER so policies can call them without
+-- recursing into the workspace_members policies)
+CREATE OR REPLACE FUNCTION is_workspace_member(p_workspace_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = p_workspace_id
+      AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION current_workspace_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT workspace_id FROM workspace_members
+  WHERE user_id = auth.uid()
+  ORDER BY created_at
+  LIMIT 1;
+$$;
+
+-- Move existing rows into a first workspace
+DO $$
+DECLARE
+  v_workspace_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM workspaces) THEN
+    INSERT INTO workspaces (name)
+    VALUES ('Espace de travail d''Elena')
+    RETURNING id INTO v_workspace_id;
+  ELSE
+    SELECT id INTO v_workspace_id FROM workspaces ORDER BY created_at LIMIT 1;
+  END IF;
+
+  ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE;
+  ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE;
+  ALTER TABLE customers ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE;
+  ALTER TABLE sales ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE;
+  ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE;
+
+  UPDATE suppliers SET workspace_id = v_workspace_id WHERE workspace_id IS NULL;
+  UPDATE inventory_items SET workspace_id = v_workspace_id WHERE workspace_id IS NULL;
+  UPDATE customers SET workspace_id = v_workspace_id WHERE workspace_id IS NULL;
+  UPDATE sales SET workspace_id = v_workspace_id WHERE workspace_id IS NULL;
+  UPDATE purchase_orders SET workspace_id = v_workspace_id WHERE workspace_id IS NULL;
+END $$;
+
+ALTER TABLE suppliers ALTER COLUMN workspace_id SET DEFAULT current_workspace_id();
+ALTER TABLE suppliers ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE inventory_items ALTER COLUMN workspace_id SET DEFAULT current_workspace_id();
+ALTER TABLE inventory_items ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE customers ALTER COLUMN workspace_id SET DEFAULT current_workspace_id();
+ALTER TABLE customers ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE sales ALTER COLUMN workspace_id SET DEFAULT current_workspace_id();
+ALTER TABLE sales ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE purchase_orders ALTER COLUMN workspace_id SET DEFAULT current_workspace_id();
+ALTER TABLE purchase_orders ALTER COLUMN workspace_id SET NOT NULL;
+
+-- Codes only need to be unique inside a workspace
+ALTER TABLE suppliers DROP CONSTRAINT IF EXISTS suppliers_supplier_code_key;
+ALTER TABLE suppliers ADD CONSTRAINT suppliers_workspace_supplier_code_key UNIQUE (workspace_id, supplier_code);
+ALTER TABLE inventory_items DROP CONSTRAINT IF EXISTS inventory_items_item_id_key;
+ALTER TABLE inventory_items ADD CONSTRAINT inventory_items_workspace_item_id_key UNIQUE (workspace_id, item_id);
+ALTER TABLE purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_po_number_key;
+ALTER TABLE purchase_orders ADD CONSTRAINT purchase_orders_workspace_po_number_key UNIQUE (workspace_id, po_number);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_suppliers_workspace ON suppliers(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_items_workspace ON inventory_items(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_customers_workspace ON customers(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_sales_workspace ON sales(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_workspace ON purchase_orders(workspace_id);
+
+-- Give every new user a workspace
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id uuid;
+BEGIN
+  -- The first user claims the workspace holding the pre-existing data
+  SELECT w.id INTO v_workspace_id
+  FROM workspaces w
+  WHERE NOT EXISTS (SELECT 1 FROM workspace_members m WHERE m.workspace_id = w.id)
+  ORDER BY w.created_at
+  LIMIT 1;
+
+  IF v_workspace_id IS NULL THEN
+    INSERT INTO workspaces (name)
+    VALUES (coalesce(split_part(NEW.email, '@', 1), 'Mon espace'))
+    RETURNING id INTO v_workspace_id;
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, email)
+  VALUES (v_workspace_id, NEW.id, NEW.email);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Enable Row Level Security
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for workspaces
+CREATE POLICY "Members can read their workspace"
+  ON workspaces FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(id));
+
+CREATE POLICY "Members can rename their workspace"
+  ON workspaces FOR UPDATE
+  TO authenticated
+  USING (is_workspace_member(id))
+  WITH CHECK (is_workspace_member(id));
+
+-- Create policies for workspace_members
+CREATE POLICY "Members can read their workspace members"
+  ON workspace_members FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+-- Replace public access policies with workspace policies
+DROP POLICY IF EXISTS "Allow all access to suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Allow all access to inventory_items" ON inventory_items;
+DROP POLICY IF EXISTS "Allow all access to customers" ON customers;
+DROP POLICY IF EXISTS "Allow all access to sales" ON sales;
+DROP POLICY IF EXISTS "Allow all access to purchase_orders" ON purchase_orders;
+
+CREATE POLICY "Workspace members can access suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (is_workspace_member(workspace_id))
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Workspace members can access inventory_items"
+  ON inventory_items FOR ALL
+  TO authenticated
+  USING (is_workspace_member(workspace_id))
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Workspace members can access customers"
+  ON customers FOR ALL
+  TO authenticated
+  USING (is_workspace_member(workspace_id))
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Workspace members can access sales"
+  ON sales FOR ALL
+  TO authenticated
+  USING (is_workspace_member(workspace_id))
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Workspace members can access purchase_orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (is_workspace_member(workspace_id))
+  WITH CHECK (is_workspace_member(workspace_id));
\ No newline at end of file
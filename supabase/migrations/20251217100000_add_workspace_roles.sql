@@ -0,0 +1,335 @@
+-- Workspace Roles and Permissions
+--
+-- Overview:
+-- Adds roles to workspace members and scopes every write policy by role.
+--
+-- Roles:
+--    - owner: full access, manages the team
+--    - seller: records sales, manages customers, updates inventory details
+--      (but not purchase costs); cannot delete anything
+--    - bookkeeper: read-only access to everything
+--
+-- Modified Tables:
+-- 1. workspace_members
+--    - role (text) - owner, seller, bookkeeper (existing members become owners)
+--
+-- New Tables:
+-- 2. workspace_invitations - Pending invitations, consumed at sign-up
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - email (text) - Unique per workspace, stored lowercase
+--    - role (text)
+--    - created_at (timestamptz)
+--
+-- Security:
+-- Read access stays open to every member. Postgres RLS cannot hide a single
+-- column, so purchase costs are still readable by sellers through the API;
+-- the app hides them, and a trigger blocks sellers from changing them.
+
+-- Add role to workspace_members
+ALTER TABLE workspace_members
+  ADD COLUMN IF NOT EXISTS role text DEFAULT 'owner' NOT NULL
+  CHECK (role IN ('owner', 'seller', 'bookkeeper'));
+
+-- Create workspace_invitations table
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('owner', 'seller', 'bookkeeper')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (workspace_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email ON workspace_invitations(email);
+
+-- Role helper
+CREATE OR REPLACE FUNCTION has_workspace_role(p_workspace_id uuid, p_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = p_workspace_id
+      AND user_id = auth.uid()
+      AND role = ANY (p_roles)
+  );
+$$;
+
+-- New users join the workspace they were invited to, if any
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id uuid;
+  v_role text := 'owner';
+  v_invitation workspace_invitations;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM workspace_invitations
+  WHERE email = lower(NEW.email)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_workspace_id := v_invitation.workspace_id;
+    v_role := v_invitation.role;
+    DELETE FROM workspace_invitations WHERE email = lower(NEW.email);
+  ELSE
+    -- The first user claims the workspace holding the pre-existing data
+    SELECT w.id INTO v_workspace_id
+    FROM workspaces w
+    WHERE NOT EXISTS (SELECT 1 FROM workspace_members m WHERE m.workspace_id = w.id)
+    ORDER BY w.created_at
+    LIMIT 1;
+
+    IF v_workspace_id IS NULL THEN
+      INSERT INTO workspaces (name)
+      VALUES (coalesce(split_part(NEW.email, '@', 1), 'Mon espace'))
+      RETURNING id INTO v_workspace_id;
+    END IF;
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, email, role)
+  VALUES (v_workspace_id, NEW.id, NEW.email, v_role);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only owners may change purchase costs
+CREATE OR REPLACE FUNCTION guard_inventory_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.purchase_cost IS DISTINCT FROM OLD.purchase_cost
+     AND NOT has_workspace_role(NEW.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can change purchase costs'
+      USING ERRCODE = 'UF005';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_inventory_cost ON inventory_items;
+CREATE TRIGGER guard_inventory_cost
+  BEFORE UPDATE ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION guard_inventory_cost();
+
+-- Editing and deleting sales is reserved to owners. The functions check it
+-- themselves because an RLS-filtered DELETE silently affects no rows.
+CREATE OR REPLACE FUNCTION update_sale(
+  p_sale_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  IF NOT has_workspace_role(v_sale.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can edit sales'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  UPDATE sales
+  SET customer_id = p_customer_id,
+      sale_price = p_sale_price,
+      sale_date = p_sale_date,
+      payment_method = p_payment_method,
+      channel = p_channel,
+      notes = p_notes
+  WHERE id = p_sale_id
+  RETURNING * INTO v_sale;
+
+  RETURN v_sale;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_sale(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  IF NOT has_workspace_role(v_sale.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can delete sales'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  PERFORM 1 FROM inventory_items WHERE id = v_sale.item_id FOR UPDATE;
+
+  DELETE FROM sales WHERE id = p_sale_id;
+
+  UPDATE inventory_items
+  SET status = 'in_stock',
+      sold_date = NULL,
+      updated_at = now()
+  WHERE id = v_sale.item_id;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Replace the member-wide policies with role-scoped ones
+DROP POLICY IF EXISTS "Members can rename their workspace" ON workspaces;
+DROP POLICY IF EXISTS "Workspace members can access suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Workspace members can access inventory_items" ON inventory_items;
+DROP POLICY IF EXISTS "Workspace members can access customers" ON customers;
+DROP POLICY IF EXISTS "Workspace members can access sales" ON sales;
+DROP POLICY IF EXISTS "Workspace members can access purchase_orders" ON purchase_orders;
+
+-- Create policies for workspaces
+CREATE POLICY "Owners can rename their workspace"
+  ON workspaces FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(id, ARRAY['owner']));
+
+-- Create policies for workspace_members
+CREATE POLICY "Owners can change member roles"
+  ON workspace_members FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can remove members"
+  ON workspace_members FOR DELETE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for workspace_invitations
+CREATE POLICY "Members can read invitations"
+  ON workspace_invitations FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage invitations"
+  ON workspace_invitations FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for suppliers
+CREATE POLICY "Members can read suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for purchase_orders
+CREATE POLICY "Members can read purchase_orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage purchase_orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for inventory_items
+CREATE POLICY "Members can read inventory_items"
+  ON inventory_items FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can add inventory_items"
+  ON inventory_items FOR INSERT
+  TO authenticated
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+CREATE POLICY "Owners and sellers can update inventory_items"
+  ON inventory_items FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'seller']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners can delete inventory_items"
+  ON inventory_items FOR DELETE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for customers
+CREATE POLICY "Members can read customers"
+  ON customers FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners and sellers can add customers"
+  ON customers FOR INSERT
+  TO authenticated
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners and sellers can update customers"
+  ON customers FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'seller']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners can delete customers"
+  ON customers FOR DELETE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for sales
+CREATE POLICY "Members can read sales"
+  ON sales FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners and sellers can record sales"
+  ON sales FOR INSERT
+  TO authenticated
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners can update sales"
+  ON sales FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete sales"
+  ON sales FOR DELETE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']));
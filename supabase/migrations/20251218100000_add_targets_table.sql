@@ -0,0 +1,53 @@
+-- Add Sales Targets Table
+--
+-- Overview:
+-- Moves sales targets out of the browser's localStorage so they survive a
+-- cleared cache and sync between devices.
+--
+-- New Tables:
+-- 1. targets - Sales objectives tracked on the dashboard
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - type (text) - revenue, profit, units, margin
+--    - title (text)
+--    - target_value (decimal) - Value to reach
+--    - current_value (decimal) - Last recorded progress
+--    - deadline (date)
+--    - completed (boolean)
+--    - visual_type (text) - progress, pie, funnel
+--    - created_at (timestamptz)
+--
+-- Security:
+-- Members can read targets; only owners can create, edit or delete them.
+
+-- Create targets table
+CREATE TABLE IF NOT EXISTS targets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  type text NOT NULL CHECK (type IN ('revenue', 'profit', 'units', 'margin')),
+  title text NOT NULL,
+  target_value decimal(10,2) NOT NULL CHECK (target_value > 0),
+  current_value decimal(10,2) DEFAULT 0 NOT NULL,
+  deadline date NOT NULL,
+  completed boolean DEFAULT false NOT NULL,
+  visual_type text DEFAULT 'progress' NOT NULL CHECK (visual_type IN ('progress', 'pie', 'funnel')),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_targets_workspace ON targets(workspace_id);
+
+-- Enable Row Level Security
+ALTER TABLE targets ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for targets
+CREATE POLICY "Members can read targets"
+  ON targets FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage targets"
+  ON targets FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
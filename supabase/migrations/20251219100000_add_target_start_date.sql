@@ -0,0 +1,21 @@
+-- Add Target Start Date
+--
+-- Overview:
+-- Target progress is now computed from the sales made between the target's
+-- own start date and its deadline, instead of the dashboard's date filter.
+--
+-- Modified Tables:
+-- 1. targets
+--    - start_date (date) - First day counted towards the target
+--      (existing targets start on the day they were created)
+
+ALTER TABLE targets ADD COLUMN IF NOT EXISTS start_date date;
+
+UPDATE targets SET start_date = created_at::date WHERE start_date IS NULL;
+
+ALTER TABLE targets
+  ALTER COLUMN start_date SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN start_date SET NOT NULL;
+
+ALTER TABLE targets
+  ADD CONSTRAINT targets_deadline_after_start CHECK (deadline >= start_date);
@@ -0,0 +1,161 @@
+-- Recurring Targets and Target History
+--
+-- Overview:
+-- Targets can now repeat every week, month or quarter. When a target's
+-- deadline passes, roll_over_targets() archives the period's outcome and
+-- moves recurring targets on to their next period. One-off targets are
+-- archived once and marked completed.
+--
+-- Modified Tables:
+-- 1. targets
+--    - recurrence (text) - none, weekly, monthly, quarterly
+--
+-- New Tables:
+-- 2. target_periods - Outcome of each finished target period
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - target_id (uuid, foreign key, optional) - Kept as null once the target is deleted
+--    - title (text) - Target title at the time of the period
+--    - type (text) - revenue, profit, units, margin
+--    - recurrence (text)
+--    - period_start (date)
+--    - period_end (date)
+--    - target_value (decimal)
+--    - actual_value (decimal)
+--    - hit (boolean) - Whether the actual value reached the target
+--    - created_at (timestamptz)
+--
+-- New Functions:
+-- - target_actual_value(type, workspace, from, to) - Revenue, profit, units or
+--   margin of the sales made between two dates (inclusive)
+-- - roll_over_targets() - Archives and advances every expired target of the
+--   caller's workspaces; safe to call on every page load
+--
+-- Security:
+-- Members can read the history; rows are only written by roll_over_targets().
+
+-- Add recurrence to targets
+ALTER TABLE targets
+  ADD COLUMN IF NOT EXISTS recurrence text DEFAULT 'none' NOT NULL
+  CHECK (recurrence IN ('none', 'weekly', 'monthly', 'quarterly'));
+
+-- Create target_periods table
+CREATE TABLE IF NOT EXISTS target_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  target_id uuid REFERENCES targets(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  type text NOT NULL CHECK (type IN ('revenue', 'profit', 'units', 'margin')),
+  recurrence text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  target_value decimal(10,2) NOT NULL,
+  actual_value decimal(10,2) NOT NULL,
+  hit boolean NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (target_id, period_start)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_target_periods_workspace ON target_periods(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_target_periods_period_end ON target_periods(period_end);
+
+-- Enable Row Level Security
+ALTER TABLE target_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read target_periods"
+  ON target_periods FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+-- Actual value of a target type over a date range
+CREATE OR REPLACE FUNCTION target_actual_value(
+  p_type text,
+  p_workspace_id uuid,
+  p_from date,
+  p_to date
+)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_type
+    WHEN 'revenue' THEN COALESCE(SUM(s.sale_price), 0)
+    WHEN 'profit' THEN COALESCE(SUM(s.sale_price - i.purchase_cost), 0)
+    WHEN 'units' THEN COUNT(*)
+    WHEN 'margin' THEN
+      CASE WHEN COALESCE(SUM(s.sale_price), 0) > 0
+        THEN SUM(s.sale_price - i.purchase_cost) / SUM(s.sale_price) * 100
+        ELSE 0
+      END
+    ELSE 0
+  END
+  FROM sales s
+  JOIN inventory_items i ON i.id = s.item_id
+  WHERE s.workspace_id = p_workspace_id
+    AND s.sale_date BETWEEN p_from AND p_to;
+$$;
+
+-- Archive and advance expired targets
+CREATE OR REPLACE FUNCTION roll_over_targets()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target targets%ROWTYPE;
+  v_actual decimal;
+  v_length interval;
+BEGIN
+  FOR v_target IN
+    SELECT * FROM targets
+    WHERE is_workspace_member(workspace_id)
+      AND NOT completed
+      AND deadline < CURRENT_DATE
+    FOR UPDATE
+  LOOP
+    v_length := CASE v_target.recurrence
+      WHEN 'weekly' THEN interval '7 days'
+      WHEN 'monthly' THEN interval '1 month'
+      WHEN 'quarterly' THEN interval '3 months'
+    END;
+
+    -- Archive every period that ended since the target was last looked at
+    LOOP
+      v_actual := target_actual_value(v_target.type, v_target.workspace_id, v_target.start_date, v_target.deadline);
+
+      INSERT INTO target_periods (
+        workspace_id, target_id, title, type, recurrence,
+        period_start, period_end, target_value, actual_value, hit
+      )
+      VALUES (
+        v_target.workspace_id, v_target.id, v_target.title, v_target.type, v_target.recurrence,
+        v_target.start_date, v_target.deadline, v_target.target_value, v_actual,
+        v_actual >= v_target.target_value
+      )
+      ON CONFLICT (target_id, period_start) DO NOTHING;
+
+      EXIT WHEN v_target.recurrence = 'none';
+
+      v_target.start_date := v_target.deadline + 1;
+      v_target.deadline := (v_target.start_date + v_length)::date - 1;
+
+      EXIT WHEN v_target.deadline >= CURRENT_DATE;
+    END LOOP;
+
+    IF v_target.recurrence = 'none' THEN
+      UPDATE targets
+      SET completed = true, current_value = v_actual
+      WHERE id = v_target.id;
+    ELSE
+      UPDATE targets
+      SET start_date = v_target.start_date, deadline = v_target.deadline, current_value = 0
+      WHERE id = v_target.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION roll_over_targets() TO authenticated;
@@ -0,0 +1,133 @@
+-- Scoped Targets
+--
+-- Overview:
+-- A target can now count only part of the sales, e.g. "10 MacBook Air 13"
+-- this month", "$3k profit through Instagram" or "20% margin on units from
+-- supplier XYZ". Every scope column is optional; a null column means no
+-- filter on that dimension, and filters combine with AND.
+--
+-- Modified Tables:
+-- 1. targets
+--    - scope_model_family (text, optional) - Only items of this model family
+--    - scope_screen_size (text, optional) - Only items of this screen size
+--    - scope_channel (text, optional) - Only sales made through this channel
+--    - scope_supplier_id (uuid, optional) - Only items bought from this supplier
+--    - scope_customer_type (text, optional) - Only sales to this customer type
+--
+-- Modified Functions:
+-- - target_actual_value() takes the scope filters
+-- - roll_over_targets() passes each target's scope when archiving a period
+
+ALTER TABLE targets
+  ADD COLUMN IF NOT EXISTS scope_model_family text,
+  ADD COLUMN IF NOT EXISTS scope_screen_size text,
+  ADD COLUMN IF NOT EXISTS scope_channel text,
+  ADD COLUMN IF NOT EXISTS scope_supplier_id uuid REFERENCES suppliers(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS scope_customer_type text;
+
+DROP FUNCTION IF EXISTS target_actual_value(text, uuid, date, date);
+
+-- Actual value of a target type over a date range, within an optional scope
+CREATE OR REPLACE FUNCTION target_actual_value(
+  p_type text,
+  p_workspace_id uuid,
+  p_from date,
+  p_to date,
+  p_model_family text DEFAULT NULL,
+  p_screen_size text DEFAULT NULL,
+  p_channel text DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL,
+  p_customer_type text DEFAULT NULL
+)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_type
+    WHEN 'revenue' THEN COALESCE(SUM(s.sale_price), 0)
+    WHEN 'profit' THEN COALESCE(SUM(s.sale_price - i.purchase_cost), 0)
+    WHEN 'units' THEN COUNT(*)
+    WHEN 'margin' THEN
+      CASE WHEN COALESCE(SUM(s.sale_price), 0) > 0
+        THEN SUM(s.sale_price - i.purchase_cost) / SUM(s.sale_price) * 100
+        ELSE 0
+      END
+    ELSE 0
+  END
+  FROM sales s
+  JOIN inventory_items i ON i.id = s.item_id
+  LEFT JOIN customers c ON c.id = s.customer_id
+  WHERE s.workspace_id = p_workspace_id
+    AND s.sale_date BETWEEN p_from AND p_to
+    AND (p_model_family IS NULL OR i.model_family = p_model_family)
+    AND (p_screen_size IS NULL OR i.screen_size = p_screen_size)
+    AND (p_channel IS NULL OR s.channel = p_channel)
+    AND (p_supplier_id IS NULL OR i.supplier_id = p_supplier_id)
+    AND (p_customer_type IS NULL OR c.customer_type = p_customer_type);
+$$;
+
+-- Archive and advance expired targets
+CREATE OR REPLACE FUNCTION roll_over_targets()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target targets%ROWTYPE;
+  v_actual decimal;
+  v_length interval;
+BEGIN
+  FOR v_target IN
+    SELECT * FROM targets
+    WHERE is_workspace_member(workspace_id)
+      AND NOT completed
+      AND deadline < CURRENT_DATE
+    FOR UPDATE
+  LOOP
+    v_length := CASE v_target.recurrence
+      WHEN 'weekly' THEN interval '7 days'
+      WHEN 'monthly' THEN interval '1 month'
+      WHEN 'quarterly' THEN interval '3 months'
+    END;
+
+    -- Archive every period that ended since the target was last looked at
+    LOOP
+      v_actual := target_actual_value(
+        v_target.type, v_target.workspace_id, v_target.start_date, v_target.deadline,
+        v_target.scope_model_family, v_target.scope_screen_size, v_target.scope_channel,
+        v_target.scope_supplier_id, v_target.scope_customer_type
+      );
+
+      INSERT INTO target_periods (
+        workspace_id, target_id, title, type, recurrence,
+        period_start, period_end, target_value, actual_value, hit
+      )
+      VALUES (
+        v_target.workspace_id, v_target.id, v_target.title, v_target.type, v_target.recurrence,
+        v_target.start_date, v_target.deadline, v_target.target_value, v_actual,
+        v_actual >= v_target.target_value
+      )
+      ON CONFLICT (target_id, period_start) DO NOTHING;
+
+      EXIT WHEN v_target.recurrence = 'none';
+
+      v_target.start_date := v_target.deadline + 1;
+      v_target.deadline := (v_target.start_date + v_length)::date - 1;
+
+      EXIT WHEN v_target.deadline >= CURRENT_DATE;
+    END LOOP;
+
+    IF v_target.recurrence = 'none' THEN
+      UPDATE targets
+      SET completed = true, current_value = v_actual
+      WHERE id = v_target.id;
+    ELSE
+      UPDATE targets
+      SET start_date = v_target.start_date, deadline = v_target.deadline, current_value = 0
+      WHERE id = v_target.id;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,153 @@
+-- Unit Cost Ledger
+--
+-- Overview:
+-- Records what each unit costs on top of its purchase price (batteries,
+-- keyboards, cleaning, shipping, marketplace fees...). Profit is now computed
+-- on the landed cost: purchase_cost + additional_costs.
+--
+-- New Tables:
+-- 1. item_costs - Typed cost lines attached to an inventory item
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - item_id (uuid, foreign key) - Reference to inventory_items
+--    - cost_type (text) - parts, refurbishment, cleaning, shipping, marketplace_fee, other
+--    - amount (decimal)
+--    - description (text, optional) - e.g. "Battery replacement"
+--    - cost_date (date)
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 2. inventory_items
+--    - additional_costs (decimal) - Sum of the item's cost lines, kept in
+--      sync by a trigger; direct writes are ignored
+--
+-- Modified Functions:
+-- - target_actual_value() computes profit and margin on landed cost
+--
+-- Security:
+-- Members can read cost lines; only owners can add, edit or remove them.
+
+-- Create item_costs table
+CREATE TABLE IF NOT EXISTS item_costs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  item_id uuid REFERENCES inventory_items(id) ON DELETE CASCADE NOT NULL,
+  cost_type text NOT NULL CHECK (cost_type IN ('parts', 'refurbishment', 'cleaning', 'shipping', 'marketplace_fee', 'other')),
+  amount decimal(10,2) NOT NULL CHECK (amount >= 0),
+  description text,
+  cost_date date DEFAULT CURRENT_DATE NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_item_costs_item ON item_costs(item_id);
+
+-- Add additional_costs to inventory_items
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS additional_costs decimal(10,2) DEFAULT 0 NOT NULL;
+
+-- Keep inventory_items.additional_costs equal to the sum of its cost lines
+CREATE OR REPLACE FUNCTION refresh_item_additional_costs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_id uuid;
+BEGIN
+  FOR v_item_id IN
+    SELECT DISTINCT id FROM (VALUES (OLD.item_id), (NEW.item_id)) AS changed(id)
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE inventory_items
+    SET additional_costs = (
+      SELECT COALESCE(SUM(amount), 0) FROM item_costs WHERE item_id = v_item_id
+    )
+    WHERE id = v_item_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_item_additional_costs ON item_costs;
+CREATE TRIGGER refresh_item_additional_costs
+  AFTER INSERT OR UPDATE OR DELETE ON item_costs
+  FOR EACH ROW EXECUTE FUNCTION refresh_item_additional_costs();
+
+-- additional_costs is only written by the trigger above (which runs nested,
+-- at trigger depth 2). Direct updates keep the stored value.
+CREATE OR REPLACE FUNCTION guard_inventory_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.purchase_cost IS DISTINCT FROM OLD.purchase_cost
+     AND NOT has_workspace_role(NEW.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can change purchase costs'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF pg_trigger_depth() = 1 THEN
+    NEW.additional_costs := OLD.additional_costs;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE item_costs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for item_costs
+CREATE POLICY "Members can read item_costs"
+  ON item_costs FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage item_costs"
+  ON item_costs FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Profit and margin on landed cost
+CREATE OR REPLACE FUNCTION target_actual_value(
+  p_type text,
+  p_workspace_id uuid,
+  p_from date,
+  p_to date,
+  p_model_family text DEFAULT NULL,
+  p_screen_size text DEFAULT NULL,
+  p_channel text DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL,
+  p_customer_type text DEFAULT NULL
+)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_type
+    WHEN 'revenue' THEN COALESCE(SUM(s.sale_price), 0)
+    WHEN 'profit' THEN COALESCE(SUM(s.sale_price - i.purchase_cost - i.additional_costs), 0)
+    WHEN 'units' THEN COUNT(*)
+    WHEN 'margin' THEN
+      CASE WHEN COALESCE(SUM(s.sale_price), 0) > 0
+        THEN SUM(s.sale_price - i.purchase_cost - i.additional_costs) / SUM(s.sale_price) * 100
+        ELSE 0
+      END
+    ELSE 0
+  END
+  FROM sales s
+  JOIN inventory_items i ON i.id = s.item_id
+  LEFT JOIN customers c ON c.id = s.customer_id
+  WHERE s.workspace_id = p_workspace_id
+    AND s.sale_date BETWEEN p_from AND p_to
+    AND (p_model_family IS NULL OR i.model_family = p_model_family)
+    AND (p_screen_size IS NULL OR i.screen_size = p_screen_size)
+    AND (p_channel IS NULL OR s.channel = p_channel)
+    AND (p_supplier_id IS NULL OR i.supplier_id = p_supplier_id)
+    AND (p_customer_type IS NULL OR c.customer_type = p_customer_type);
+$$;
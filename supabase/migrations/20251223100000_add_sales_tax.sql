@@ -0,0 +1,258 @@
+-- Sales Tax
+--
+-- Overview:
+-- Sales now collect the workspace's active taxes (GST and QST by default).
+-- sales.sale_price stays the pre-tax price, so revenue and profit figures are
+-- unchanged; the amount of each tax is stored on the sale for remittance.
+--
+-- New Tables:
+-- 1. tax_rates - Taxes a workspace charges on its sales
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - name (text) - e.g. "TPS", "TVQ"
+--    - rate (decimal) - Percentage, e.g. 5.000 or 9.975
+--    - is_active (boolean) - Only active rates apply to new sales
+--    - created_at (timestamptz)
+--
+-- 2. sale_taxes - Taxes collected by a sale, one line per tax
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - sale_id (uuid, foreign key) - Reference to sales
+--    - tax_rate_id (uuid, foreign key, optional) - Kept as null once the rate is deleted
+--    - name (text) - Tax name at the time of the sale
+--    - rate (decimal) - Rate applied at the time of the sale
+--    - amount (decimal)
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 3. sales
+--    - tax_total (decimal) - Sum of the sale's tax lines
+--
+-- Modified Functions:
+-- - record_sale() takes p_tax_included; when true, p_sale_price is the price
+--   the customer paid and the pre-tax price is derived from it
+-- - update_sale() recomputes the tax lines with the rates stored on the sale
+--
+-- Security:
+-- Members can read rates and tax lines; only owners can change the rates.
+-- Tax lines are written by the sale functions.
+
+-- Create tax_rates table
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  name text NOT NULL,
+  rate decimal(6,3) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create sale_taxes table
+CREATE TABLE IF NOT EXISTS sale_taxes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  sale_id uuid REFERENCES sales(id) ON DELETE CASCADE NOT NULL,
+  tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  rate decimal(6,3) NOT NULL,
+  amount decimal(10,2) NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tax_rates_workspace ON tax_rates(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_sale_taxes_sale ON sale_taxes(sale_id);
+
+-- Add tax_total to sales
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS tax_total decimal(10,2) DEFAULT 0 NOT NULL;
+
+-- Québec defaults for existing workspaces
+INSERT INTO tax_rates (workspace_id, name, rate)
+SELECT w.id, r.name, r.rate
+FROM workspaces w
+CROSS JOIN (VALUES ('TPS', 5.000), ('TVQ', 9.975)) AS r(name, rate)
+WHERE NOT EXISTS (SELECT 1 FROM tax_rates t WHERE t.workspace_id = w.id);
+
+-- ...and for every new workspace
+CREATE OR REPLACE FUNCTION create_default_tax_rates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO tax_rates (workspace_id, name, rate)
+  VALUES (NEW.id, 'TPS', 5.000), (NEW.id, 'TVQ', 9.975);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_default_tax_rates ON workspaces;
+CREATE TRIGGER create_default_tax_rates
+  AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION create_default_tax_rates();
+
+-- Enable Row Level Security
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_taxes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for tax_rates
+CREATE POLICY "Members can read tax_rates"
+  ON tax_rates FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage tax_rates"
+  ON tax_rates FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for sale_taxes (same rules as sales)
+CREATE POLICY "Members can read sale_taxes"
+  ON sale_taxes FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners and sellers can record sale_taxes"
+  ON sale_taxes FOR INSERT
+  TO authenticated
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners can update sale_taxes"
+  ON sale_taxes FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- record_sale gains a parameter, so the old signature has to go
+DROP FUNCTION IF EXISTS record_sale(uuid, uuid, decimal, date, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_item_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL,
+  p_tax_included boolean DEFAULT false
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item inventory_items;
+  v_rate_total decimal;
+  v_price decimal;
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  -- Lock the item so two concurrent sales cannot both see it in stock
+  SELECT * INTO v_item
+  FROM inventory_items
+  WHERE id = p_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', p_item_id
+      USING ERRCODE = 'UF001';
+  END IF;
+
+  IF v_item.status <> 'in_stock' THEN
+    RAISE EXCEPTION 'Inventory item % is not sellable (status: %)', p_item_id, v_item.status
+      USING ERRCODE = 'UF002';
+  END IF;
+
+  SELECT COALESCE(SUM(rate), 0) INTO v_rate_total
+  FROM tax_rates
+  WHERE workspace_id = v_item.workspace_id AND is_active;
+
+  v_price := CASE WHEN p_tax_included
+    THEN round(p_sale_price / (1 + v_rate_total / 100), 2)
+    ELSE p_sale_price
+  END;
+
+  INSERT INTO sales (workspace_id, item_id, customer_id, sale_price, sale_date, payment_method, channel, notes)
+  VALUES (v_item.workspace_id, p_item_id, p_customer_id, v_price, p_sale_date, p_payment_method, p_channel, p_notes)
+  RETURNING * INTO v_sale;
+
+  INSERT INTO sale_taxes (workspace_id, sale_id, tax_rate_id, name, rate, amount)
+  SELECT v_sale.workspace_id, v_sale.id, id, name, rate, round(v_price * rate / 100, 2)
+  FROM tax_rates
+  WHERE workspace_id = v_item.workspace_id AND is_active;
+
+  UPDATE sales
+  SET tax_total = (SELECT COALESCE(SUM(amount), 0) FROM sale_taxes WHERE sale_id = v_sale.id)
+  WHERE id = v_sale.id
+  RETURNING * INTO v_sale;
+
+  UPDATE inventory_items
+  SET status = 'sold',
+      sold_date = now(),
+      updated_at = now()
+  WHERE id = p_item_id;
+
+  RETURN v_sale;
+END;
+$$;
+
+-- A sale keeps the rates it was recorded with, even if they change later
+CREATE OR REPLACE FUNCTION update_sale(
+  p_sale_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  IF NOT has_workspace_role(v_sale.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can edit sales'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  UPDATE sale_taxes
+  SET amount = round(p_sale_price * rate / 100, 2)
+  WHERE sale_id = p_sale_id;
+
+  UPDATE sales
+  SET customer_id = p_customer_id,
+      sale_price = p_sale_price,
+      sale_date = p_sale_date,
+      payment_method = p_payment_method,
+      channel = p_channel,
+      notes = p_notes,
+      tax_total = (SELECT COALESCE(SUM(amount), 0) FROM sale_taxes WHERE sale_id = p_sale_id)
+  WHERE id = p_sale_id
+  RETURNING * INTO v_sale;
+
+  RETURN v_sale;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_sale(uuid, uuid, decimal, date, text, text, text, boolean) TO anon, authenticated;
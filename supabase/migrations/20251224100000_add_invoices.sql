@@ -0,0 +1,78 @@
+-- Sale Invoices
+--
+-- Overview:
+-- Every sale gets a sequential invoice number, unique within its workspace,
+-- and the workspace stores the business details printed on invoices.
+--
+-- Modified Tables:
+-- 1. workspaces
+--    - business_name (text, optional) - Legal or trade name shown on invoices
+--    - business_address (text, optional)
+--    - business_phone (text, optional)
+--    - business_email (text, optional)
+--    - gst_number (text, optional) - GST registration number
+--    - qst_number (text, optional) - QST registration number
+--    - next_invoice_number (integer) - Number given to the next sale
+--
+-- 2. sales
+--    - invoice_number (integer) - Assigned on insert; existing sales are
+--      numbered by sale date
+--
+-- Security:
+-- Numbers are assigned by a trigger, so sellers get one without being able
+-- to update the workspace. Owners can move next_invoice_number forward,
+-- e.g. to continue a numbering started elsewhere.
+
+-- Add business details to workspaces
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS business_name text,
+  ADD COLUMN IF NOT EXISTS business_address text,
+  ADD COLUMN IF NOT EXISTS business_phone text,
+  ADD COLUMN IF NOT EXISTS business_email text,
+  ADD COLUMN IF NOT EXISTS gst_number text,
+  ADD COLUMN IF NOT EXISTS qst_number text,
+  ADD COLUMN IF NOT EXISTS next_invoice_number integer DEFAULT 1 NOT NULL CHECK (next_invoice_number > 0);
+
+-- Add invoice_number to sales
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS invoice_number integer;
+
+-- Number existing sales in the order they were made
+WITH numbered AS (
+  SELECT id, row_number() OVER (PARTITION BY workspace_id ORDER BY sale_date, created_at) AS n
+  FROM sales
+)
+UPDATE sales s
+SET invoice_number = numbered.n
+FROM numbered
+WHERE numbered.id = s.id AND s.invoice_number IS NULL;
+
+UPDATE workspaces w
+SET next_invoice_number = COALESCE((SELECT MAX(invoice_number) FROM sales WHERE workspace_id = w.id), 0) + 1;
+
+ALTER TABLE sales ALTER COLUMN invoice_number SET NOT NULL;
+ALTER TABLE sales ADD CONSTRAINT sales_invoice_number_key UNIQUE (workspace_id, invoice_number);
+
+-- Take the workspace's next number. The row lock on the workspace keeps
+-- concurrent sales from getting the same number, and a rolled back sale
+-- gives its number back.
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE workspaces
+  SET next_invoice_number = next_invoice_number + 1
+  WHERE id = NEW.workspace_id
+  RETURNING next_invoice_number - 1 INTO NEW.invoice_number;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_invoice_number ON sales;
+CREATE TRIGGER assign_invoice_number
+  BEFORE INSERT ON sales
+  FOR EACH ROW EXECUTE FUNCTION assign_invoice_number();
@@ -0,0 +1,267 @@
+-- Warranties and Warranty Claims
+--
+-- Overview:
+-- A sale can carry a warranty of a number of months, chosen when the sale is
+-- recorded. Claims are opened against a sale and followed from diagnosis to
+-- repair, replacement or refund. What a claim costs is booked as a
+-- 'warranty' line in the unit's cost ledger, so it lowers that unit's profit
+-- and shows up in its supplier's quality stats.
+--
+-- Modified Tables:
+-- 1. sales
+--    - warranty_months (integer) - 0 when the unit is sold without warranty
+--    - warranty_expires_on (date, generated) - sale_date + warranty_months
+--
+-- 2. item_costs
+--    - cost_type also accepts 'warranty'
+--    - claim_id (uuid, foreign key, optional) - Set on lines maintained by a claim
+--
+-- New Tables:
+-- 3. warranty_claims - Problems reported on a sold unit
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - sale_id (uuid, foreign key) - Reference to sales
+--    - opened_on (date)
+--    - issue (text) - What the customer reported
+--    - diagnosis (text, optional)
+--    - resolution (text, optional) - repair, replacement, refund, no_fault
+--    - cost (decimal) - Parts, labour or replacement unit
+--    - status (text) - open, in_progress, closed
+--    - closed_on (date, optional)
+--    - notes (text, optional)
+--    - created_at (timestamptz)
+--
+-- Modified Functions:
+-- - record_sale() takes p_warranty_months
+-- - update_sale() takes p_warranty_months
+--
+-- Security:
+-- Members can read claims; owners and sellers can open and follow them, only
+-- owners can delete them. The cost ledger line is written by a trigger.
+
+-- Add warranty to sales
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS warranty_months integer DEFAULT 0 NOT NULL CHECK (warranty_months >= 0),
+  ADD COLUMN IF NOT EXISTS warranty_expires_on date
+    GENERATED ALWAYS AS ((sale_date + warranty_months * interval '1 month')::date) STORED;
+
+-- Create warranty_claims table
+CREATE TABLE IF NOT EXISTS warranty_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  sale_id uuid REFERENCES sales(id) ON DELETE CASCADE NOT NULL,
+  opened_on date DEFAULT CURRENT_DATE NOT NULL,
+  issue text NOT NULL,
+  diagnosis text,
+  resolution text CHECK (resolution IN ('repair', 'replacement', 'refund', 'no_fault')),
+  cost decimal(10,2) DEFAULT 0 NOT NULL CHECK (cost >= 0),
+  status text DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'in_progress', 'closed')),
+  closed_on date,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_warranty_claims_sale ON warranty_claims(sale_id);
+CREATE INDEX IF NOT EXISTS idx_warranty_claims_status ON warranty_claims(status);
+
+-- Warranty lines in the cost ledger
+ALTER TABLE item_costs DROP CONSTRAINT IF EXISTS item_costs_cost_type_check;
+ALTER TABLE item_costs
+  ADD CONSTRAINT item_costs_cost_type_check
+  CHECK (cost_type IN ('parts', 'refurbishment', 'cleaning', 'shipping', 'marketplace_fee', 'warranty', 'other'));
+
+ALTER TABLE item_costs
+  ADD COLUMN IF NOT EXISTS claim_id uuid UNIQUE REFERENCES warranty_claims(id) ON DELETE CASCADE;
+
+-- Keep one ledger line per claim with a cost
+CREATE OR REPLACE FUNCTION sync_claim_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_id uuid;
+BEGIN
+  IF NEW.cost = 0 THEN
+    DELETE FROM item_costs WHERE claim_id = NEW.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT item_id INTO v_item_id FROM sales WHERE id = NEW.sale_id;
+
+  INSERT INTO item_costs (workspace_id, item_id, cost_type, amount, description, cost_date, claim_id)
+  VALUES (NEW.workspace_id, v_item_id, 'warranty', NEW.cost, NEW.issue, COALESCE(NEW.closed_on, NEW.opened_on), NEW.id)
+  ON CONFLICT (claim_id) DO UPDATE
+  SET amount = EXCLUDED.amount,
+      description = EXCLUDED.description,
+      cost_date = EXCLUDED.cost_date;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_claim_cost ON warranty_claims;
+CREATE TRIGGER sync_claim_cost
+  AFTER INSERT OR UPDATE ON warranty_claims
+  FOR EACH ROW EXECUTE FUNCTION sync_claim_cost();
+
+-- Enable Row Level Security
+ALTER TABLE warranty_claims ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for warranty_claims
+CREATE POLICY "Members can read warranty_claims"
+  ON warranty_claims FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners and sellers can open warranty_claims"
+  ON warranty_claims FOR INSERT
+  TO authenticated
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners and sellers can update warranty_claims"
+  ON warranty_claims FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'seller']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners can delete warranty_claims"
+  ON warranty_claims FOR DELETE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- record_sale and update_sale gain a parameter, so the old signatures have to go
+DROP FUNCTION IF EXISTS record_sale(uuid, uuid, decimal, date, text, text, text, boolean);
+DROP FUNCTION IF EXISTS update_sale(uuid, uuid, decimal, date, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_item_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL,
+  p_tax_included boolean DEFAULT false,
+  p_warranty_months integer DEFAULT 0
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item inventory_items;
+  v_rate_total decimal;
+  v_price decimal;
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  -- Lock the item so two concurrent sales cannot both see it in stock
+  SELECT * INTO v_item
+  FROM inventory_items
+  WHERE id = p_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', p_item_id
+      USING ERRCODE = 'UF001';
+  END IF;
+
+  IF v_item.status <> 'in_stock' THEN
+    RAISE EXCEPTION 'Inventory item % is not sellable (status: %)', p_item_id, v_item.status
+      USING ERRCODE = 'UF002';
+  END IF;
+
+  SELECT COALESCE(SUM(rate), 0) INTO v_rate_total
+  FROM tax_rates
+  WHERE workspace_id = v_item.workspace_id AND is_active;
+
+  v_price := CASE WHEN p_tax_included
+    THEN round(p_sale_price / (1 + v_rate_total / 100), 2)
+    ELSE p_sale_price
+  END;
+
+  INSERT INTO sales (workspace_id, item_id, customer_id, sale_price, sale_date, payment_method, channel, notes, warranty_months)
+  VALUES (v_item.workspace_id, p_item_id, p_customer_id, v_price, p_sale_date, p_payment_method, p_channel, p_notes, COALESCE(p_warranty_months, 0))
+  RETURNING * INTO v_sale;
+
+  INSERT INTO sale_taxes (workspace_id, sale_id, tax_rate_id, name, rate, amount)
+  SELECT v_sale.workspace_id, v_sale.id, id, name, rate, round(v_price * rate / 100, 2)
+  FROM tax_rates
+  WHERE workspace_id = v_item.workspace_id AND is_active;
+
+  UPDATE sales
+  SET tax_total = (SELECT COALESCE(SUM(amount), 0) FROM sale_taxes WHERE sale_id = v_sale.id)
+  WHERE id = v_sale.id
+  RETURNING * INTO v_sale;
+
+  UPDATE inventory_items
+  SET status = 'sold',
+      sold_date = now(),
+      updated_at = now()
+  WHERE id = p_item_id;
+
+  RETURN v_sale;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_sale(
+  p_sale_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL,
+  p_warranty_months integer DEFAULT NULL
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  IF NOT has_workspace_role(v_sale.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can edit sales'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  UPDATE sale_taxes
+  SET amount = round(p_sale_price * rate / 100, 2)
+  WHERE sale_id = p_sale_id;
+
+  UPDATE sales
+  SET customer_id = p_customer_id,
+      sale_price = p_sale_price,
+      sale_date = p_sale_date,
+      payment_method = p_payment_method,
+      channel = p_channel,
+      notes = p_notes,
+      warranty_months = COALESCE(p_warranty_months, warranty_months),
+      tax_total = (SELECT COALESCE(SUM(amount), 0) FROM sale_taxes WHERE sale_id = p_sale_id)
+  WHERE id = p_sale_id
+  RETURNING * INTO v_sale;
+
+  RETURN v_sale;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_sale(uuid, uuid, decimal, date, text, text, text, boolean, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_sale(uuid, uuid, decimal, date, text, text, text, integer) TO anon, authenticated;
@@ -0,0 +1,185 @@
+-- Returns and Refunds
+--
+-- Overview:
+-- Undoing a sale no longer means deleting it. A return records the refund
+-- against the original sale, which stays in the history, and decides what
+-- happens to the unit: the customer keeps it (partial refund), it comes back
+-- as 'returned' for inspection, or it goes straight back in stock.
+--
+-- New Tables:
+-- 1. sale_returns - Refunds given on a sale
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - sale_id (uuid, foreign key) - Reference to sales
+--    - return_date (date)
+--    - reason (text) - defective, not_as_described, changed_mind, price_adjustment, other
+--    - refund_amount (decimal) - Pre-tax amount given back
+--    - restocking_fee (decimal) - Kept from the sale price on a returned unit
+--    - tax_refunded (decimal) - Share of the sale's taxes given back
+--    - disposition (text) - kept, returned, restocked
+--    - notes (text, optional)
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 2. sales
+--    - refund_total (decimal) - Sum of the sale's refunds
+--    - unit_returned (boolean) - The unit came back; its cost no longer
+--      counts against this sale
+--
+-- New Functions:
+-- - record_return() - Locks the sale, checks the refund fits in what is left
+--   to refund, records it and moves the unit
+--
+-- Modified Functions:
+-- - delete_sale() leaves the unit alone when it was already returned, since
+--   it may have been sold again since
+--
+-- Errors:
+--    - UF006 invalid_refund
+--
+-- Security:
+-- Members can read returns; only owners can record them, like edits to sales.
+
+-- Create sale_returns table
+CREATE TABLE IF NOT EXISTS sale_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  sale_id uuid REFERENCES sales(id) ON DELETE CASCADE NOT NULL,
+  return_date date DEFAULT CURRENT_DATE NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('defective', 'not_as_described', 'changed_mind', 'price_adjustment', 'other')),
+  refund_amount decimal(10,2) NOT NULL CHECK (refund_amount >= 0),
+  restocking_fee decimal(10,2) DEFAULT 0 NOT NULL CHECK (restocking_fee >= 0),
+  tax_refunded decimal(10,2) DEFAULT 0 NOT NULL,
+  disposition text NOT NULL CHECK (disposition IN ('kept', 'returned', 'restocked')),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_sale_returns_sale ON sale_returns(sale_id);
+
+-- Add refund tracking to sales
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS refund_total decimal(10,2) DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS unit_returned boolean DEFAULT false NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE sale_returns ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for sale_returns
+CREATE POLICY "Members can read sale_returns"
+  ON sale_returns FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage sale_returns"
+  ON sale_returns FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+CREATE OR REPLACE FUNCTION record_return(
+  p_sale_id uuid,
+  p_return_date date,
+  p_reason text,
+  p_refund_amount decimal,
+  p_restocking_fee decimal,
+  p_disposition text,
+  p_notes text DEFAULT NULL
+)
+RETURNS sale_returns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+  v_return sale_returns;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  IF NOT has_workspace_role(v_sale.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can record returns'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF p_refund_amount IS NULL OR p_refund_amount < 0
+     OR v_sale.refund_total + p_refund_amount > v_sale.sale_price THEN
+    RAISE EXCEPTION 'Refund of % exceeds what is left to refund on sale %', p_refund_amount, p_sale_id
+      USING ERRCODE = 'UF006';
+  END IF;
+
+  IF p_disposition <> 'kept' AND v_sale.unit_returned THEN
+    RAISE EXCEPTION 'The unit of sale % was already returned', p_sale_id
+      USING ERRCODE = 'UF006';
+  END IF;
+
+  INSERT INTO sale_returns (
+    workspace_id, sale_id, return_date, reason, refund_amount,
+    restocking_fee, tax_refunded, disposition, notes
+  )
+  VALUES (
+    v_sale.workspace_id, p_sale_id, p_return_date, p_reason, p_refund_amount,
+    COALESCE(p_restocking_fee, 0),
+    CASE WHEN v_sale.sale_price > 0
+      THEN round(v_sale.tax_total * p_refund_amount / v_sale.sale_price, 2)
+      ELSE 0
+    END,
+    p_disposition, p_notes
+  )
+  RETURNING * INTO v_return;
+
+  UPDATE sales
+  SET refund_total = refund_total + p_refund_amount,
+      unit_returned = unit_returned OR p_disposition <> 'kept'
+  WHERE id = p_sale_id;
+
+  IF p_disposition <> 'kept' THEN
+    UPDATE inventory_items
+    SET status = CASE p_disposition WHEN 'restocked' THEN 'in_stock' ELSE 'returned' END,
+        sold_date = NULL,
+        updated_at = now()
+    WHERE id = v_sale.item_id;
+  END IF;
+
+  RETURN v_return;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_sale(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id
+      USING ERRCODE = 'UF003';
+  END IF;
+
+  IF NOT has_workspace_role(v_sale.workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can delete sales'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  PERFORM 1 FROM inventory_items WHERE id = v_sale.item_id FOR UPDATE;
+
+  DELETE FROM sales WHERE id = p_sale_id;
+
+  IF NOT v_sale.unit_returned THEN
+    UPDATE inventory_items
+    SET status = 'in_stock',
+        sold_date = NULL,
+        updated_at = now()
+    WHERE id = v_sale.item_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_return(uuid, date, text, decimal, decimal, text, text) TO authenticated;
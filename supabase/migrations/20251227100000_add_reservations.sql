@@ -0,0 +1,300 @@
+-- Reservations and Deposits
+--
+-- Overview:
+-- A unit can be held for a customer who paid a deposit. The reservation
+-- records who reserved it, the deposit and how it was paid, and until when
+-- the unit is held. Once that date has passed the reservation expires and
+-- the unit goes back in stock. When the customer comes back, the reservation
+-- is converted into a sale and the deposit is applied to it.
+--
+-- New Tables:
+-- 1. reservations - Units held for a customer
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - item_id (uuid, foreign key) - Reference to inventory_items
+--    - customer_id (uuid, foreign key) - Reference to customers
+--    - deposit_amount (decimal)
+--    - payment_method (text) - How the deposit was paid
+--    - reserved_on (date)
+--    - expires_on (date) - Last day the unit is held
+--    - status (text) - active, converted, expired, cancelled
+--    - sale_id (uuid, foreign key, optional) - Set once converted
+--    - notes (text, optional)
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 2. sales
+--    - deposit_applied (decimal) - Deposit from the reservation, already paid
+--
+-- New Functions:
+-- - reserve_item() - Locks an in-stock unit and reserves it
+-- - cancel_reservation() - Puts the unit back in stock
+-- - release_expired_reservations() - Expires every reservation past its date
+--   and puts the units back in stock
+--
+-- Modified Functions:
+-- - record_sale() takes p_reservation_id; a reserved unit can only be sold
+--   through its active reservation
+--
+-- Errors:
+--    - UF007 reservation_not_active
+--
+-- Security:
+-- Members can read reservations; owners and sellers can reserve units, only
+-- owners can delete reservations.
+
+-- Create reservations table
+CREATE TABLE IF NOT EXISTS reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  item_id uuid REFERENCES inventory_items(id) ON DELETE CASCADE NOT NULL,
+  customer_id uuid REFERENCES customers(id) NOT NULL,
+  deposit_amount decimal(10,2) DEFAULT 0 NOT NULL CHECK (deposit_amount >= 0),
+  payment_method text NOT NULL CHECK (payment_method IN ('cash', 'interac', 'credit_card', 'bank_transfer')),
+  reserved_on date DEFAULT CURRENT_DATE NOT NULL,
+  expires_on date NOT NULL,
+  status text DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'converted', 'expired', 'cancelled')),
+  sale_id uuid REFERENCES sales(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (expires_on >= reserved_on)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_reservations_status ON reservations(status);
+CREATE INDEX IF NOT EXISTS idx_reservations_customer ON reservations(customer_id);
+
+-- A unit can only be held for one customer at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reservations_active_item
+  ON reservations(item_id) WHERE status = 'active';
+
+-- Deposit carried over to the sale
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS deposit_applied decimal(10,2) DEFAULT 0 NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for reservations
+CREATE POLICY "Members can read reservations"
+  ON reservations FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners and sellers can add reservations"
+  ON reservations FOR INSERT
+  TO authenticated
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners and sellers can update reservations"
+  ON reservations FOR UPDATE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'seller']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'seller']));
+
+CREATE POLICY "Owners can delete reservations"
+  ON reservations FOR DELETE
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']));
+
+CREATE OR REPLACE FUNCTION reserve_item(
+  p_item_id uuid,
+  p_customer_id uuid,
+  p_deposit_amount decimal,
+  p_payment_method text,
+  p_expires_on date,
+  p_notes text DEFAULT NULL
+)
+RETURNS reservations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item inventory_items;
+  v_reservation reservations;
+BEGIN
+  SELECT * INTO v_item
+  FROM inventory_items
+  WHERE id = p_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', p_item_id
+      USING ERRCODE = 'UF001';
+  END IF;
+
+  IF v_item.status <> 'in_stock' THEN
+    RAISE EXCEPTION 'Inventory item % cannot be reserved (status: %)', p_item_id, v_item.status
+      USING ERRCODE = 'UF002';
+  END IF;
+
+  INSERT INTO reservations (workspace_id, item_id, customer_id, deposit_amount, payment_method, expires_on, notes)
+  VALUES (v_item.workspace_id, p_item_id, p_customer_id, COALESCE(p_deposit_amount, 0), p_payment_method, p_expires_on, p_notes)
+  RETURNING * INTO v_reservation;
+
+  UPDATE inventory_items
+  SET status = 'reserved',
+      updated_at = now()
+  WHERE id = p_item_id;
+
+  RETURN v_reservation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_reservation(p_reservation_id uuid)
+RETURNS reservations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reservation reservations;
+BEGIN
+  SELECT * INTO v_reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF NOT FOUND OR v_reservation.status <> 'active' THEN
+    RAISE EXCEPTION 'Reservation % is not active', p_reservation_id
+      USING ERRCODE = 'UF007';
+  END IF;
+
+  UPDATE reservations
+  SET status = 'cancelled'
+  WHERE id = p_reservation_id
+  RETURNING * INTO v_reservation;
+
+  UPDATE inventory_items
+  SET status = 'in_stock',
+      updated_at = now()
+  WHERE id = v_reservation.item_id AND status = 'reserved';
+
+  RETURN v_reservation;
+END;
+$$;
+
+-- Expire reservations past their date and release their units
+CREATE OR REPLACE FUNCTION release_expired_reservations()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH expired AS (
+    UPDATE reservations
+    SET status = 'expired'
+    WHERE is_workspace_member(workspace_id)
+      AND status = 'active'
+      AND expires_on < CURRENT_DATE
+    RETURNING item_id
+  )
+  UPDATE inventory_items
+  SET status = 'in_stock',
+      updated_at = now()
+  WHERE id IN (SELECT item_id FROM expired) AND status = 'reserved';
+END;
+$$;
+
+-- record_sale gains a parameter, so the old signature has to go
+DROP FUNCTION IF EXISTS record_sale(uuid, uuid, decimal, date, text, text, text, boolean, integer);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_item_id uuid,
+  p_customer_id uuid,
+  p_sale_price decimal,
+  p_sale_date date,
+  p_payment_method text,
+  p_channel text,
+  p_notes text DEFAULT NULL,
+  p_tax_included boolean DEFAULT false,
+  p_warranty_months integer DEFAULT 0,
+  p_reservation_id uuid DEFAULT NULL
+)
+RETURNS sales
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item inventory_items;
+  v_reservation reservations;
+  v_rate_total decimal;
+  v_price decimal;
+  v_sale sales;
+BEGIN
+  IF p_sale_price IS NULL OR p_sale_price <= 0 THEN
+    RAISE EXCEPTION 'Sale price must be greater than zero'
+      USING ERRCODE = 'UF004';
+  END IF;
+
+  -- Lock the item so two concurrent sales cannot both see it in stock
+  SELECT * INTO v_item
+  FROM inventory_items
+  WHERE id = p_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', p_item_id
+      USING ERRCODE = 'UF001';
+  END IF;
+
+  IF p_reservation_id IS NOT NULL THEN
+    SELECT * INTO v_reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+    IF NOT FOUND OR v_reservation.status <> 'active' OR v_reservation.item_id <> p_item_id THEN
+      RAISE EXCEPTION 'Reservation % is not active for item %', p_reservation_id, p_item_id
+        USING ERRCODE = 'UF007';
+    END IF;
+  END IF;
+
+  -- A reserved unit can only be sold through its reservation
+  IF v_item.status <> 'in_stock'
+     AND NOT (v_item.status = 'reserved' AND p_reservation_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Inventory item % is not sellable (status: %)', p_item_id, v_item.status
+      USING ERRCODE = 'UF002';
+  END IF;
+
+  SELECT COALESCE(SUM(rate), 0) INTO v_rate_total
+  FROM tax_rates
+  WHERE workspace_id = v_item.workspace_id AND is_active;
+
+  v_price := CASE WHEN p_tax_included
+    THEN round(p_sale_price / (1 + v_rate_total / 100), 2)
+    ELSE p_sale_price
+  END;
+
+  INSERT INTO sales (
+    workspace_id, item_id, customer_id, sale_price, sale_date, payment_method,
+    channel, notes, warranty_months, deposit_applied
+  )
+  VALUES (
+    v_item.workspace_id, p_item_id, COALESCE(p_customer_id, v_reservation.customer_id), v_price, p_sale_date,
+    p_payment_method, p_channel, p_notes, COALESCE(p_warranty_months, 0), COALESCE(v_reservation.deposit_amount, 0)
+  )
+  RETURNING * INTO v_sale;
+
+  INSERT INTO sale_taxes (workspace_id, sale_id, tax_rate_id, name, rate, amount)
+  SELECT v_sale.workspace_id, v_sale.id, id, name, rate, round(v_price * rate / 100, 2)
+  FROM tax_rates
+  WHERE workspace_id = v_item.workspace_id AND is_active;
+
+  UPDATE sales
+  SET tax_total = (SELECT COALESCE(SUM(amount), 0) FROM sale_taxes WHERE sale_id = v_sale.id)
+  WHERE id = v_sale.id
+  RETURNING * INTO v_sale;
+
+  IF p_reservation_id IS NOT NULL THEN
+    UPDATE reservations
+    SET status = 'converted',
+        sale_id = v_sale.id
+    WHERE id = p_reservation_id;
+  END IF;
+
+  UPDATE inventory_items
+  SET status = 'sold',
+      sold_date = now(),
+      updated_at = now()
+  WHERE id = p_item_id;
+
+  RETURN v_sale;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reserve_item(uuid, uuid, decimal, text, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_reservation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_reservations() TO authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, uuid, decimal, date, text, text, text, boolean, integer, uuid) TO anon, authenticated;
@@ -0,0 +1,99 @@
+-- Supplier RMAs
+--
+-- Overview:
+-- A unit that arrives dead (status 'doa') is sent back to its supplier under
+-- an RMA. The RMA follows the unit from shipping to the supplier's answer:
+-- a credit, a replacement unit, or a rejection. Credits and replacements
+-- stay attached to the purchase order the unit came from.
+--
+-- New Tables:
+-- 1. supplier_rmas - Units sent back to a supplier
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - item_id (uuid, foreign key) - The dead unit
+--    - supplier_id (uuid, foreign key) - Reference to suppliers
+--    - po_id (uuid, foreign key, optional) - Purchase order the unit came from
+--    - rma_number (text, optional) - Number given by the supplier
+--    - opened_on (date)
+--    - reason (text) - What is wrong with the unit
+--    - claim_value (decimal) - What we are asking back, usually the unit cost
+--    - status (text) - open, shipped, credit_issued, replaced, rejected
+--    - shipped_on (date, optional)
+--    - tracking_number (text, optional)
+--    - resolved_on (date, optional)
+--    - credit_amount (decimal) - Credit received from the supplier
+--    - replacement_item_id (uuid, foreign key, optional) - Unit received instead
+--    - notes (text, optional)
+--    - created_at (timestamptz)
+--
+-- A replacement unit is moved onto the RMA's purchase order by a trigger.
+--
+-- Security:
+-- Members can read RMAs; only owners can manage them, like purchase orders.
+
+-- Create supplier_rmas table
+CREATE TABLE IF NOT EXISTS supplier_rmas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  item_id uuid REFERENCES inventory_items(id) ON DELETE CASCADE NOT NULL,
+  supplier_id uuid REFERENCES suppliers(id) NOT NULL,
+  po_id uuid REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  rma_number text,
+  opened_on date DEFAULT CURRENT_DATE NOT NULL,
+  reason text NOT NULL,
+  claim_value decimal(10,2) DEFAULT 0 NOT NULL CHECK (claim_value >= 0),
+  status text DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'shipped', 'credit_issued', 'replaced', 'rejected')),
+  shipped_on date,
+  tracking_number text,
+  resolved_on date,
+  credit_amount decimal(10,2) DEFAULT 0 NOT NULL CHECK (credit_amount >= 0),
+  replacement_item_id uuid REFERENCES inventory_items(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_supplier_rmas_item ON supplier_rmas(item_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_rmas_supplier ON supplier_rmas(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_rmas_po ON supplier_rmas(po_id);
+
+-- A unit can only be under one RMA at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_rmas_outstanding_item
+  ON supplier_rmas(item_id) WHERE status IN ('open', 'shipped');
+
+-- Replacement units belong to the purchase order of the unit they replace
+CREATE OR REPLACE FUNCTION link_rma_replacement()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.replacement_item_id IS NOT NULL AND NEW.po_id IS NOT NULL THEN
+    UPDATE inventory_items
+    SET po_id = NEW.po_id,
+        updated_at = now()
+    WHERE id = NEW.replacement_item_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_rma_replacement ON supplier_rmas;
+CREATE TRIGGER link_rma_replacement
+  AFTER INSERT OR UPDATE OF replacement_item_id ON supplier_rmas
+  FOR EACH ROW EXECUTE FUNCTION link_rma_replacement();
+
+-- Enable Row Level Security
+ALTER TABLE supplier_rmas ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for supplier_rmas
+CREATE POLICY "Members can read supplier_rmas"
+  ON supplier_rmas FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage supplier_rmas"
+  ON supplier_rmas FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
@@ -0,0 +1,159 @@
+-- Purchase Order Lines and Receiving
+--
+-- Overview:
+-- A purchase order now says what was ordered: one line per configuration,
+-- with a quantity and a unit cost. Receiving a line creates the inventory
+-- items, pre-filled from the line and linked to the order. The order's
+-- status is no longer picked by hand; it follows what has been received.
+--
+-- New Tables:
+-- 1. purchase_order_lines - What was ordered on a purchase order
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - po_id (uuid, foreign key) - Reference to purchase_orders
+--    - model_family, screen_size, year, chip (text/integer)
+--    - ram_gb, storage_gb (integer)
+--    - expected_grade (text) - A, B or C
+--    - quantity (integer) - Units ordered
+--    - unit_cost (decimal)
+--    - received_quantity (integer) - Units received so far, kept by a trigger
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 2. inventory_items
+--    - po_line_id (uuid, foreign key, optional) - Line the unit was received on
+--
+-- 3. purchase_orders
+--    - status is derived: pending until something is received, partial until
+--      every line is complete, then received. Only 'cancelled' is set by hand.
+--      Orders without lines keep the status they had.
+--
+-- Security:
+-- Members can read lines; only owners can manage them, like purchase orders.
+
+-- Create purchase_order_lines table
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  po_id uuid REFERENCES purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  model_family text NOT NULL,
+  screen_size text NOT NULL,
+  year integer NOT NULL,
+  chip text NOT NULL,
+  ram_gb integer NOT NULL,
+  storage_gb integer NOT NULL,
+  expected_grade text DEFAULT 'A' NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_cost decimal(10,2) NOT NULL CHECK (unit_cost >= 0),
+  received_quantity integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po ON purchase_order_lines(po_id);
+
+-- Link received units to their line
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS po_line_id uuid REFERENCES purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_po_line ON inventory_items(po_line_id);
+
+-- Status of an order from its lines; orders without lines keep their status
+CREATE OR REPLACE FUNCTION derive_po_status(p_po_id uuid, p_current text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_current = 'cancelled' OR COUNT(*) = 0 THEN p_current
+    WHEN COALESCE(SUM(received_quantity), 0) = 0 THEN 'pending'
+    WHEN SUM(LEAST(received_quantity, quantity)) < SUM(quantity) THEN 'partial'
+    ELSE 'received'
+  END
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+$$;
+
+-- Keep a hand-edited status in line with what was received
+CREATE OR REPLACE FUNCTION set_po_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.status := derive_po_status(NEW.id, NEW.status);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_po_status ON purchase_orders;
+CREATE TRIGGER set_po_status
+  BEFORE UPDATE OF status ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION set_po_status();
+
+-- Refresh the order's status when its lines change
+CREATE OR REPLACE FUNCTION refresh_po_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.po_id ELSE NEW.po_id END;
+BEGIN
+  -- An order whose last line was removed goes back to pending
+  UPDATE purchase_orders
+  SET status = derive_po_status(id, CASE WHEN status = 'cancelled' THEN 'cancelled' ELSE 'pending' END)
+  WHERE id = v_po_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_po_status ON purchase_order_lines;
+CREATE TRIGGER refresh_po_status
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_order_lines
+  FOR EACH ROW EXECUTE FUNCTION refresh_po_status();
+
+-- Count the units received on each line
+CREATE OR REPLACE FUNCTION sync_po_line_received()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.po_line_id IS NOT NULL THEN
+    UPDATE purchase_order_lines
+    SET received_quantity = (SELECT COUNT(*) FROM inventory_items WHERE po_line_id = OLD.po_line_id)
+    WHERE id = OLD.po_line_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.po_line_id IS NOT NULL THEN
+    UPDATE purchase_order_lines
+    SET received_quantity = (SELECT COUNT(*) FROM inventory_items WHERE po_line_id = NEW.po_line_id)
+    WHERE id = NEW.po_line_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_po_line_received ON inventory_items;
+CREATE TRIGGER sync_po_line_received
+  AFTER INSERT OR DELETE OR UPDATE OF po_line_id ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION sync_po_line_received();
+
+-- Enable Row Level Security
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for purchase_order_lines
+CREATE POLICY "Members can read purchase_order_lines"
+  ON purchase_order_lines FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage purchase_order_lines"
+  ON purchase_order_lines FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
@@ -0,0 +1,158 @@
+-- Purchase Order Charges
+--
+-- Overview:
+-- Shipping, customs and broker fees are paid once per purchase order, not per
+-- MacBook. They are recorded on the order and spread over its units as lines
+-- in the cost ledger, so each unit's landed cost (and every profit and margin
+-- figure built on it) carries its share.
+--
+-- New Tables:
+-- 1. po_charges - Extra charges paid on a purchase order
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - po_id (uuid, foreign key) - Reference to purchase_orders
+--    - charge_type (text) - shipping, customs, broker_fee, other
+--    - amount (decimal)
+--    - description (text, optional)
+--    - charge_date (date)
+--    - allocation_method (text) - cost_share (by purchase cost) or even
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 2. item_costs
+--    - cost_type accepts 'po_charge'
+--    - po_charge_id (uuid, foreign key, optional) - Set on lines allocated
+--      from a purchase order charge
+--
+-- New Functions:
+-- - allocate_po_charges(p_po_id) rewrites the allocated lines of an order.
+--   It runs whenever a charge changes or a unit joins, leaves or changes
+--   cost on the order. Shares are rounded to the cent; the last unit takes
+--   the rounding difference so the lines add up to the charge.
+--
+-- Security:
+-- Members can read charges; only owners can manage them, like purchase orders.
+
+-- Create po_charges table
+CREATE TABLE IF NOT EXISTS po_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  po_id uuid REFERENCES purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  charge_type text NOT NULL CHECK (charge_type IN ('shipping', 'customs', 'broker_fee', 'other')),
+  amount decimal(10,2) NOT NULL CHECK (amount >= 0),
+  description text,
+  charge_date date DEFAULT CURRENT_DATE NOT NULL,
+  allocation_method text DEFAULT 'cost_share' NOT NULL CHECK (allocation_method IN ('cost_share', 'even')),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_po_charges_po ON po_charges(po_id);
+
+-- Allocated lines in the cost ledger
+ALTER TABLE item_costs DROP CONSTRAINT IF EXISTS item_costs_cost_type_check;
+ALTER TABLE item_costs
+  ADD CONSTRAINT item_costs_cost_type_check
+  CHECK (cost_type IN ('parts', 'refurbishment', 'cleaning', 'shipping', 'marketplace_fee', 'warranty', 'po_charge', 'other'));
+
+ALTER TABLE item_costs
+  ADD COLUMN IF NOT EXISTS po_charge_id uuid REFERENCES po_charges(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_item_costs_po_charge ON item_costs(po_charge_id);
+
+-- Spread every charge of an order over the units linked to it
+CREATE OR REPLACE FUNCTION allocate_po_charges(p_po_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_po_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM item_costs
+  WHERE po_charge_id IN (SELECT id FROM po_charges WHERE po_id = p_po_id);
+
+  WITH shares AS (
+    SELECT
+      c.id AS charge_id,
+      c.workspace_id,
+      c.amount AS charge_amount,
+      c.charge_date,
+      po.po_number || COALESCE(' - ' || c.description, '') AS description,
+      i.id AS item_id,
+      ROUND(c.amount * CASE
+        WHEN c.allocation_method = 'cost_share' AND SUM(i.purchase_cost) OVER (PARTITION BY c.id) > 0
+          THEN i.purchase_cost / SUM(i.purchase_cost) OVER (PARTITION BY c.id)
+        ELSE 1.0 / COUNT(*) OVER (PARTITION BY c.id)
+      END, 2) AS share,
+      ROW_NUMBER() OVER (PARTITION BY c.id ORDER BY i.item_id) AS position,
+      COUNT(*) OVER (PARTITION BY c.id) AS unit_count
+    FROM po_charges c
+    JOIN purchase_orders po ON po.id = c.po_id
+    JOIN inventory_items i ON i.po_id = c.po_id
+    WHERE c.po_id = p_po_id
+  )
+  INSERT INTO item_costs (workspace_id, item_id, cost_type, amount, description, cost_date, po_charge_id)
+  SELECT
+    workspace_id,
+    item_id,
+    'po_charge',
+    CASE WHEN position = unit_count
+      THEN GREATEST(charge_amount - (SUM(share) OVER (PARTITION BY charge_id) - share), 0)
+      ELSE share
+    END,
+    description,
+    charge_date,
+    charge_id
+  FROM shares;
+END;
+$$;
+
+-- Reallocate when a charge changes
+CREATE OR REPLACE FUNCTION reallocate_po_charges()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM allocate_po_charges(OLD.po_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.po_id IS DISTINCT FROM OLD.po_id) THEN
+    PERFORM allocate_po_charges(NEW.po_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reallocate_po_charges ON po_charges;
+CREATE TRIGGER reallocate_po_charges
+  AFTER INSERT OR UPDATE OR DELETE ON po_charges
+  FOR EACH ROW EXECUTE FUNCTION reallocate_po_charges();
+
+-- Reallocate when a unit joins, leaves or changes cost on an order
+DROP TRIGGER IF EXISTS reallocate_po_charges ON inventory_items;
+CREATE TRIGGER reallocate_po_charges
+  AFTER INSERT OR DELETE OR UPDATE OF po_id, purchase_cost ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION reallocate_po_charges();
+
+-- Enable Row Level Security
+ALTER TABLE po_charges ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for po_charges
+CREATE POLICY "Members can read po_charges"
+  ON po_charges FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage po_charges"
+  ON po_charges FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
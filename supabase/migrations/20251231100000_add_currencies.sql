@@ -0,0 +1,291 @@
+-- Currencies and Exchange Rates
+--
+-- Overview:
+-- Some suppliers invoice in USD while sales are in CAD. Suppliers, purchase
+-- orders and inventory items now carry a currency, and each workspace has a
+-- base currency that every profit figure is computed in. Purchase costs are
+-- converted with the stored rate in effect on the purchase date.
+--
+-- New Tables:
+-- 1. exchange_rates - Value of one unit of a currency in the base currency
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - currency (text) - ISO code, e.g. USD
+--    - rate_date (date)
+--    - rate (decimal) - e.g. 1.36 for USD when the base currency is CAD
+--    - source (text) - manual or csv
+--    - created_at (timestamptz)
+--    One rate per currency and day; a CSV import replaces the day's rate.
+--
+-- Modified Tables:
+-- 2. workspaces
+--    - base_currency (text) - Currency sales are made in, CAD by default
+--
+-- 3. suppliers, purchase_orders
+--    - currency (text) - Currency the supplier invoices in
+--
+-- 4. inventory_items
+--    - currency (text) - Currency of purchase_cost
+--    - purchase_cost_base (decimal) - purchase_cost in the base currency,
+--      kept by triggers; direct writes are ignored
+--
+-- New Functions:
+-- - exchange_rate_on(p_workspace_id, p_currency, p_date) returns the latest
+--   rate on or before the date, else the earliest one after it. It returns 1
+--   for the base currency and NULL when the currency has no rate at all;
+--   such costs are taken as-is until a rate is entered.
+--
+-- Modified Functions:
+-- - target_actual_value() computes profit and margin on converted costs
+-- - allocate_po_charges() shares charges by converted cost, so units of an
+--   order bought in different currencies are weighed alike. Orders are
+--   reallocated when a unit's converted cost changes, e.g. with a new rate.
+--
+-- Notes:
+-- Cost ledger lines, purchase order charges and RMA credits are in the base
+-- currency.
+--
+-- Security:
+-- Members can read rates; only owners can manage them.
+
+-- Base currency of a workspace
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS base_currency text DEFAULT 'CAD' NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- Invoicing currency of suppliers and purchase orders
+ALTER TABLE suppliers
+  ADD COLUMN IF NOT EXISTS currency text DEFAULT 'CAD' NOT NULL CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE purchase_orders
+  ADD COLUMN IF NOT EXISTS currency text DEFAULT 'CAD' NOT NULL CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Currency of each unit's purchase cost, and that cost in the base currency
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS currency text DEFAULT 'CAD' NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN IF NOT EXISTS purchase_cost_base decimal(10,2);
+
+-- Create exchange_rates table
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_date date NOT NULL,
+  rate decimal(12,6) NOT NULL CHECK (rate > 0),
+  source text DEFAULT 'manual' NOT NULL CHECK (source IN ('manual', 'csv')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (workspace_id, currency, rate_date)
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(workspace_id, currency, rate_date);
+
+-- Rate in effect on a date
+CREATE OR REPLACE FUNCTION exchange_rate_on(p_workspace_id uuid, p_currency text, p_date date)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_currency = (SELECT base_currency FROM workspaces WHERE id = p_workspace_id) THEN 1
+    ELSE COALESCE(
+      (SELECT rate FROM exchange_rates
+       WHERE workspace_id = p_workspace_id AND currency = p_currency AND rate_date <= p_date
+       ORDER BY rate_date DESC LIMIT 1),
+      (SELECT rate FROM exchange_rates
+       WHERE workspace_id = p_workspace_id AND currency = p_currency
+       ORDER BY rate_date LIMIT 1)
+    )
+  END;
+$$;
+
+-- purchase_cost_base always follows the cost, its currency and its date
+CREATE OR REPLACE FUNCTION set_item_base_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.purchase_cost_base := ROUND(
+    NEW.purchase_cost * COALESCE(exchange_rate_on(NEW.workspace_id, NEW.currency, NEW.purchase_date), 1),
+    2
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_item_base_cost ON inventory_items;
+CREATE TRIGGER set_item_base_cost
+  BEFORE INSERT OR UPDATE ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION set_item_base_cost();
+
+-- Convert existing units
+UPDATE inventory_items
+SET purchase_cost_base = purchase_cost;
+
+ALTER TABLE inventory_items
+  ALTER COLUMN purchase_cost_base SET NOT NULL;
+
+-- Reconvert a currency's units when its rates change
+CREATE OR REPLACE FUNCTION refresh_base_costs_for_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.workspace_id ELSE NEW.workspace_id END;
+  v_currency text := CASE WHEN TG_OP = 'DELETE' THEN OLD.currency ELSE NEW.currency END;
+BEGIN
+  -- set_item_base_cost recomputes the value on update
+  UPDATE inventory_items
+  SET purchase_cost_base = purchase_cost_base
+  WHERE workspace_id = v_workspace_id
+    AND currency = v_currency;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_base_costs_for_rate ON exchange_rates;
+CREATE TRIGGER refresh_base_costs_for_rate
+  AFTER INSERT OR UPDATE OR DELETE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION refresh_base_costs_for_rate();
+
+-- Reconvert everything when the base currency changes
+CREATE OR REPLACE FUNCTION refresh_base_costs_for_workspace()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE inventory_items
+  SET purchase_cost_base = purchase_cost_base
+  WHERE workspace_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_base_costs_for_workspace ON workspaces;
+CREATE TRIGGER refresh_base_costs_for_workspace
+  AFTER UPDATE OF base_currency ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION refresh_base_costs_for_workspace();
+
+-- Share purchase order charges by converted cost
+CREATE OR REPLACE FUNCTION allocate_po_charges(p_po_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_po_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM item_costs
+  WHERE po_charge_id IN (SELECT id FROM po_charges WHERE po_id = p_po_id);
+
+  WITH shares AS (
+    SELECT
+      c.id AS charge_id,
+      c.workspace_id,
+      c.amount AS charge_amount,
+      c.charge_date,
+      po.po_number || COALESCE(' - ' || c.description, '') AS description,
+      i.id AS item_id,
+      ROUND(c.amount * CASE
+        WHEN c.allocation_method = 'cost_share' AND SUM(i.purchase_cost_base) OVER (PARTITION BY c.id) > 0
+          THEN i.purchase_cost_base / SUM(i.purchase_cost_base) OVER (PARTITION BY c.id)
+        ELSE 1.0 / COUNT(*) OVER (PARTITION BY c.id)
+      END, 2) AS share,
+      ROW_NUMBER() OVER (PARTITION BY c.id ORDER BY i.item_id) AS position,
+      COUNT(*) OVER (PARTITION BY c.id) AS unit_count
+    FROM po_charges c
+    JOIN purchase_orders po ON po.id = c.po_id
+    JOIN inventory_items i ON i.po_id = c.po_id
+    WHERE c.po_id = p_po_id
+  )
+  INSERT INTO item_costs (workspace_id, item_id, cost_type, amount, description, cost_date, po_charge_id)
+  SELECT
+    workspace_id,
+    item_id,
+    'po_charge',
+    CASE WHEN position = unit_count
+      THEN GREATEST(charge_amount - (SUM(share) OVER (PARTITION BY charge_id) - share), 0)
+      ELSE share
+    END,
+    description,
+    charge_date,
+    charge_id
+  FROM shares;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reallocate_po_charges ON inventory_items;
+CREATE TRIGGER reallocate_po_charges
+  AFTER INSERT OR DELETE OR UPDATE OF po_id, purchase_cost, purchase_cost_base ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION reallocate_po_charges();
+
+-- Reallocate existing charges on converted costs
+SELECT allocate_po_charges(id)
+FROM purchase_orders
+WHERE EXISTS (SELECT 1 FROM po_charges c WHERE c.po_id = purchase_orders.id);
+
+-- Enable Row Level Security
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for exchange_rates
+CREATE POLICY "Members can read exchange_rates"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage exchange_rates"
+  ON exchange_rates FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Profit and margin on converted costs
+CREATE OR REPLACE FUNCTION target_actual_value(
+  p_type text,
+  p_workspace_id uuid,
+  p_from date,
+  p_to date,
+  p_model_family text DEFAULT NULL,
+  p_screen_size text DEFAULT NULL,
+  p_channel text DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL,
+  p_customer_type text DEFAULT NULL
+)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_type
+    WHEN 'revenue' THEN COALESCE(SUM(s.sale_price), 0)
+    WHEN 'profit' THEN COALESCE(SUM(s.sale_price - i.purchase_cost_base - i.additional_costs), 0)
+    WHEN 'units' THEN COUNT(*)
+    WHEN 'margin' THEN
+      CASE WHEN COALESCE(SUM(s.sale_price), 0) > 0
+        THEN SUM(s.sale_price - i.purchase_cost_base - i.additional_costs) / SUM(s.sale_price) * 100
+        ELSE 0
+      END
+    ELSE 0
+  END
+  FROM sales s
+  JOIN inventory_items i ON i.id = s.item_id
+  LEFT JOIN customers c ON c.id = s.customer_id
+  WHERE s.workspace_id = p_workspace_id
+    AND s.sale_date BETWEEN p_from AND p_to
+    AND (p_model_family IS NULL OR i.model_family = p_model_family)
+    AND (p_screen_size IS NULL OR i.screen_size = p_screen_size)
+    AND (p_channel IS NULL OR s.channel = p_channel)
+    AND (p_supplier_id IS NULL OR i.supplier_id = p_supplier_id)
+    AND (p_customer_type IS NULL OR c.customer_type = p_customer_type);
+$$;
@@ -0,0 +1,130 @@
+-- Workspace Backup and Restore
+--
+-- Overview:
+-- Owners can download the whole workspace as a JSON file (one array of rows
+-- per table, read through the normal select policies) and restore it later.
+-- A restore replaces the workspace's data with the backup's in a single
+-- transaction, so a failed restore leaves everything as it was.
+--
+-- New Functions:
+-- - restore_workspace(p_workspace_id, p_backup) deletes the workspace's
+--   business data, inserts the backup's rows under the workspace and puts
+--   back its settings. Returns the number of rows restored per table.
+--
+-- Modified Functions:
+-- - assign_invoice_number() keeps the invoice number of a restored sale
+--   instead of taking the next one
+--
+-- Notes:
+-- Cost lines generated from warranty claims and purchase order charges are
+-- not restored as such; the triggers recreate them from their source rows.
+-- Members, invitations and the workspace itself are left untouched.
+--
+-- Errors:
+--    - UF008 invalid_backup
+--
+-- Security:
+-- Only owners can restore. The function bypasses RLS once the role check
+-- has passed, since some tables are otherwise only written by triggers.
+
+-- Restored sales keep their invoice number
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS NOT NULL AND current_setting('app.restoring', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE workspaces
+  SET next_invoice_number = next_invoice_number + 1
+  WHERE id = NEW.workspace_id
+  RETURNING next_invoice_number - 1 INTO NEW.invoice_number;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_workspace(p_workspace_id uuid, p_backup jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children
+  v_tables text[] := ARRAY[
+    'suppliers', 'customers', 'tax_rates', 'exchange_rates', 'purchase_orders',
+    'purchase_order_lines', 'inventory_items', 'po_charges', 'item_costs', 'sales',
+    'sale_taxes', 'sale_returns', 'reservations', 'warranty_claims', 'supplier_rmas',
+    'targets', 'target_periods'
+  ];
+  v_table text;
+  v_columns text;
+  v_rows jsonb;
+  v_count integer;
+  v_restored jsonb := '{}'::jsonb;
+BEGIN
+  IF NOT has_workspace_role(p_workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can restore a backup'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF jsonb_typeof(p_backup->'tables') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Not a workspace backup'
+      USING ERRCODE = 'UF008';
+  END IF;
+
+  PERFORM set_config('app.restoring', 'on', true);
+
+  FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+    EXECUTE format('DELETE FROM %I WHERE workspace_id = $1', v_tables[i]) USING p_workspace_id;
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- Generated columns cannot be inserted
+    SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = v_table::regclass
+      AND attnum > 0
+      AND NOT attisdropped
+      AND attgenerated = '';
+
+    SELECT COALESCE(jsonb_agg(e.value || jsonb_build_object('workspace_id', p_workspace_id)), '[]'::jsonb)
+    INTO v_rows
+    FROM jsonb_array_elements(COALESCE(p_backup->'tables'->v_table, '[]'::jsonb)) AS e(value)
+    WHERE v_table <> 'item_costs'
+       OR (e.value->>'claim_id' IS NULL AND e.value->>'po_charge_id' IS NULL);
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    ) USING v_rows;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_restored := v_restored || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  UPDATE workspaces
+  SET business_name = p_backup->'workspace'->>'business_name',
+      business_address = p_backup->'workspace'->>'business_address',
+      business_phone = p_backup->'workspace'->>'business_phone',
+      business_email = p_backup->'workspace'->>'business_email',
+      gst_number = p_backup->'workspace'->>'gst_number',
+      qst_number = p_backup->'workspace'->>'qst_number',
+      base_currency = COALESCE(p_backup->'workspace'->>'base_currency', base_currency),
+      next_invoice_number = GREATEST(
+        COALESCE((p_backup->'workspace'->>'next_invoice_number')::integer, 1),
+        (SELECT COALESCE(MAX(invoice_number), 0) + 1 FROM sales WHERE workspace_id = p_workspace_id)
+      )
+  WHERE id = p_workspace_id;
+
+  RETURN v_restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_workspace(uuid, jsonb) TO authenticated;
@@ -0,0 +1,296 @@
+-- MacBook Model Catalog
+--
+-- Overview:
+-- Specs used to be free text with the choices hardcoded in the app. Each
+-- workspace now keeps a catalog of MacBook models that drives the spec
+-- dropdowns: family, then size, then chip, then the model itself, which
+-- settles the year and the RAM and storage sizes that can be picked.
+--
+-- New Tables:
+-- 1. models - One MacBook model as sold by Apple
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - model_family (text) - e.g. MacBook Pro
+--    - screen_size (text) - e.g. 14
+--    - year (integer)
+--    - a_number (text) - Apple model number engraved under the case, e.g. A2442
+--    - chips (text[]) - Chips the model was offered with
+--    - ram_options (integer[]) - RAM sizes offered, in GB
+--    - storage_options (integer[]) - Storage sizes offered, in GB
+--    - launch_price (decimal) - Apple's price for the base configuration
+--    - launch_currency (text) - Currency of launch_price, USD by default
+--    - created_at (timestamptz)
+--
+-- Modified Tables:
+-- 2. inventory_items, purchase_order_lines
+--    - model_id (uuid, foreign key) - Model the specs were picked from. Family,
+--      size, chip, year, RAM and storage stay on the row so reports and
+--      filters keep working.
+--
+-- New Functions:
+-- - seed_models(p_workspace_id) adds the standard Apple models, adds one
+--   model per family, size and year found in inventory or purchase order
+--   lines that none covers, and links unlinked units and lines to the model
+--   matching their specs. New workspaces are seeded on creation.
+--
+-- Modified Functions:
+-- - restore_workspace() restores models before the rows that reference
+--   them, and seeds the catalog when a backup predates it
+--
+-- Notes:
+-- Deleting a model keeps the specs of its units and lines; they are only
+-- unlinked.
+--
+-- Security:
+-- Members can read models; only owners can manage them.
+
+-- Create models table
+CREATE TABLE IF NOT EXISTS models (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  model_family text NOT NULL,
+  screen_size text NOT NULL,
+  year integer NOT NULL,
+  a_number text,
+  chips text[] NOT NULL CHECK (cardinality(chips) > 0),
+  ram_options integer[] NOT NULL CHECK (cardinality(ram_options) > 0),
+  storage_options integer[] NOT NULL CHECK (cardinality(storage_options) > 0),
+  launch_price decimal(10,2) CHECK (launch_price >= 0),
+  launch_currency text DEFAULT 'USD' NOT NULL CHECK (launch_currency ~ '^[A-Z]{3}$'),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_models_workspace ON models(workspace_id, model_family, screen_size);
+
+-- Model of each unit and purchase order line
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS model_id uuid REFERENCES models(id) ON DELETE SET NULL;
+
+ALTER TABLE purchase_order_lines
+  ADD COLUMN IF NOT EXISTS model_id uuid REFERENCES models(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_model ON inventory_items(model_id);
+
+-- Standard Apple models, specs found in inventory, and links to both
+CREATE OR REPLACE FUNCTION seed_models(p_workspace_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO models (workspace_id, model_family, screen_size, year, a_number, chips, ram_options, storage_options, launch_price)
+  SELECT p_workspace_id, v.model_family, v.screen_size, v.year, v.a_number, v.chips, v.ram_options, v.storage_options, v.launch_price
+  FROM (VALUES
+    ('MacBook Air', '13', 2020, 'A2337', ARRAY['M1'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 999),
+    ('MacBook Pro', '13', 2020, 'A2338', ARRAY['M1'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '14', 2021, 'A2442', ARRAY['M1 Pro', 'M1 Max'], ARRAY[16, 32, 64], ARRAY[512, 1024, 2048, 4096, 8192], 1999),
+    ('MacBook Pro', '16', 2021, 'A2485', ARRAY['M1 Pro', 'M1 Max'], ARRAY[16, 32, 64], ARRAY[512, 1024, 2048, 4096, 8192], 2499),
+    ('MacBook Air', '13', 2022, 'A2681', ARRAY['M2'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1199),
+    ('MacBook Pro', '13', 2022, 'A2338', ARRAY['M2'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '14', 2023, 'A2779', ARRAY['M2 Pro', 'M2 Max'], ARRAY[16, 32, 64, 96], ARRAY[512, 1024, 2048, 4096, 8192], 1999),
+    ('MacBook Pro', '16', 2023, 'A2780', ARRAY['M2 Pro', 'M2 Max'], ARRAY[16, 32, 64, 96], ARRAY[512, 1024, 2048, 4096, 8192], 2499),
+    ('MacBook Air', '15', 2023, 'A2941', ARRAY['M2'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '14', 2023, 'A2918', ARRAY['M3'], ARRAY[8, 16, 24], ARRAY[512, 1024, 2048], 1599),
+    ('MacBook Pro', '14', 2023, 'A2992', ARRAY['M3 Pro', 'M3 Max'], ARRAY[18, 36, 48, 64, 96, 128], ARRAY[512, 1024, 2048, 4096, 8192], 1999),
+    ('MacBook Pro', '16', 2023, 'A2991', ARRAY['M3 Pro', 'M3 Max'], ARRAY[18, 36, 48, 64, 96, 128], ARRAY[512, 1024, 2048, 4096, 8192], 2499),
+    ('MacBook Air', '13', 2024, 'A3113', ARRAY['M3'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1099),
+    ('MacBook Air', '15', 2024, 'A3114', ARRAY['M3'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Air', '13', 2020, 'A2179', ARRAY['i3', 'i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 999),
+    ('MacBook Pro', '13', 2020, 'A2289', ARRAY['i5'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '13', 2020, 'A2251', ARRAY['i5', 'i7'], ARRAY[16, 32], ARRAY[512, 1024, 2048, 4096], 1799),
+    ('MacBook Pro', '16', 2019, 'A2141', ARRAY['i7', 'i9'], ARRAY[16, 32, 64], ARRAY[512, 1024, 2048, 4096, 8192], 2399),
+    ('MacBook Pro', '13', 2019, 'A2159', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '13', 2018, 'A1989', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1799),
+    ('MacBook Pro', '13', 2019, 'A1989', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1799),
+    ('MacBook Pro', '15', 2018, 'A1990', ARRAY['i7', 'i9'], ARRAY[16, 32], ARRAY[256, 512, 1024, 2048, 4096], 2399),
+    ('MacBook Pro', '15', 2019, 'A1990', ARRAY['i7', 'i9'], ARRAY[16, 32], ARRAY[256, 512, 1024, 2048, 4096], 2399),
+    ('MacBook Air', '13', 2018, 'A1932', ARRAY['i5'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024, 1536], 1199),
+    ('MacBook Air', '13', 2019, 'A1932', ARRAY['i5'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024, 1536], 1099),
+    ('MacBook Pro', '13', 2016, 'A1708', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024], 1499),
+    ('MacBook Pro', '13', 2017, 'A1708', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024], 1299),
+    ('MacBook Pro', '13', 2016, 'A1706', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024], 1799),
+    ('MacBook Pro', '13', 2017, 'A1706', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024], 1799),
+    ('MacBook Pro', '15', 2016, 'A1707', ARRAY['i7'], ARRAY[16], ARRAY[256, 512, 1024, 2048], 2399),
+    ('MacBook Pro', '15', 2017, 'A1707', ARRAY['i7'], ARRAY[16], ARRAY[256, 512, 1024, 2048], 2399),
+    ('MacBook Air', '13', 2015, 'A1466', ARRAY['i5', 'i7'], ARRAY[4, 8], ARRAY[128, 256, 512], 999),
+    ('MacBook Air', '13', 2017, 'A1466', ARRAY['i5', 'i7'], ARRAY[8], ARRAY[128, 256, 512], 999)
+  ) AS v(model_family, screen_size, year, a_number, chips, ram_options, storage_options, launch_price)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM models m
+    WHERE m.workspace_id = p_workspace_id AND m.a_number = v.a_number AND m.year = v.year
+  );
+
+  -- Specs already entered that no model covers
+  INSERT INTO models (workspace_id, model_family, screen_size, year, chips, ram_options, storage_options)
+  SELECT p_workspace_id, s.model_family, s.screen_size, s.year,
+         array_agg(DISTINCT s.chip), array_agg(DISTINCT s.ram_gb), array_agg(DISTINCT s.storage_gb)
+  FROM (
+    SELECT model_family, screen_size, year, chip, ram_gb, storage_gb
+    FROM inventory_items WHERE workspace_id = p_workspace_id
+    UNION
+    SELECT model_family, screen_size, year, chip, ram_gb, storage_gb
+    FROM purchase_order_lines WHERE workspace_id = p_workspace_id
+  ) s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM models m
+    WHERE m.workspace_id = p_workspace_id
+      AND m.model_family = s.model_family
+      AND m.screen_size = s.screen_size
+      AND m.year = s.year
+      AND s.chip = ANY(m.chips)
+  )
+  GROUP BY s.model_family, s.screen_size, s.year;
+
+  -- When two models match, the one offering the RAM and storage wins
+  UPDATE inventory_items i
+  SET model_id = (
+    SELECT m.id FROM models m
+    WHERE m.workspace_id = i.workspace_id
+      AND m.model_family = i.model_family
+      AND m.screen_size = i.screen_size
+      AND m.year = i.year
+      AND i.chip = ANY(m.chips)
+    ORDER BY (i.ram_gb = ANY(m.ram_options) AND i.storage_gb = ANY(m.storage_options)) DESC, m.launch_price
+    LIMIT 1
+  )
+  WHERE i.workspace_id = p_workspace_id
+    AND i.model_id IS NULL;
+
+  UPDATE purchase_order_lines l
+  SET model_id = (
+    SELECT m.id FROM models m
+    WHERE m.workspace_id = l.workspace_id
+      AND m.model_family = l.model_family
+      AND m.screen_size = l.screen_size
+      AND m.year = l.year
+      AND l.chip = ANY(m.chips)
+    ORDER BY (l.ram_gb = ANY(m.ram_options) AND l.storage_gb = ANY(m.storage_options)) DESC, m.launch_price
+    LIMIT 1
+  )
+  WHERE l.workspace_id = p_workspace_id
+    AND l.model_id IS NULL;
+END;
+$$;
+
+-- Seed existing workspaces
+SELECT seed_models(id) FROM workspaces;
+
+-- Seed new workspaces
+CREATE OR REPLACE FUNCTION seed_new_workspace_models()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_models(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_new_workspace_models ON workspaces;
+CREATE TRIGGER seed_new_workspace_models
+  AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION seed_new_workspace_models();
+
+-- Enable Row Level Security
+ALTER TABLE models ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for models
+CREATE POLICY "Members can read models"
+  ON models FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage models"
+  ON models FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Restore models with the rest of the workspace
+CREATE OR REPLACE FUNCTION restore_workspace(p_workspace_id uuid, p_backup jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children
+  v_tables text[] := ARRAY[
+    'suppliers', 'customers', 'tax_rates', 'exchange_rates', 'models', 'purchase_orders',
+    'purchase_order_lines', 'inventory_items', 'po_charges', 'item_costs', 'sales',
+    'sale_taxes', 'sale_returns', 'reservations', 'warranty_claims', 'supplier_rmas',
+    'targets', 'target_periods'
+  ];
+  v_table text;
+  v_columns text;
+  v_rows jsonb;
+  v_count integer;
+  v_restored jsonb := '{}'::jsonb;
+BEGIN
+  IF NOT has_workspace_role(p_workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can restore a backup'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF jsonb_typeof(p_backup->'tables') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Not a workspace backup'
+      USING ERRCODE = 'UF008';
+  END IF;
+
+  PERFORM set_config('app.restoring', 'on', true);
+
+  FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+    EXECUTE format('DELETE FROM %I WHERE workspace_id = $1', v_tables[i]) USING p_workspace_id;
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- Generated columns cannot be inserted
+    SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = v_table::regclass
+      AND attnum > 0
+      AND NOT attisdropped
+      AND attgenerated = '';
+
+    SELECT COALESCE(jsonb_agg(e.value || jsonb_build_object('workspace_id', p_workspace_id)), '[]'::jsonb)
+    INTO v_rows
+    FROM jsonb_array_elements(COALESCE(p_backup->'tables'->v_table, '[]'::jsonb)) AS e(value)
+    WHERE v_table <> 'item_costs'
+       OR (e.value->>'claim_id' IS NULL AND e.value->>'po_charge_id' IS NULL);
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    ) USING v_rows;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_restored := v_restored || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- Backups taken before the model catalog existed
+  IF NOT (p_backup->'tables' ? 'models') THEN
+    PERFORM seed_models(p_workspace_id);
+  END IF;
+
+  UPDATE workspaces
+  SET business_name = p_backup->'workspace'->>'business_name',
+      business_address = p_backup->'workspace'->>'business_address',
+      business_phone = p_backup->'workspace'->>'business_phone',
+      business_email = p_backup->'workspace'->>'business_email',
+      gst_number = p_backup->'workspace'->>'gst_number',
+      qst_number = p_backup->'workspace'->>'qst_number',
+      base_currency = COALESCE(p_backup->'workspace'->>'base_currency', base_currency),
+      next_invoice_number = GREATEST(
+        COALESCE((p_backup->'workspace'->>'next_invoice_number')::integer, 1),
+        (SELECT COALESCE(MAX(invoice_number), 0) + 1 FROM sales WHERE workspace_id = p_workspace_id)
+      )
+  WHERE id = p_workspace_id;
+
+  RETURN v_restored;
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Target Margin for Price Suggestions
+--
+-- Overview:
+-- The app suggests a list price for each unit from the sale prices of
+-- comparable units. The suggestion never goes below the price that would
+-- leave the workspace's target margin on the unit's landed cost.
+--
+-- Modified Tables:
+-- 1. workspaces
+--    - target_margin_percent (decimal) - Margin aimed for on each sale, as a
+--      percentage of the sale price, 25 by default
+--
+-- Modified Functions:
+-- - restore_workspace() restores every workspace setting found in the
+--   backup, so settings added later need no change to the function. The
+--   name and the invoice counter are handled as before.
+--
+-- Security:
+-- Only owners can change the target margin, like the other settings.
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS target_margin_percent decimal(5,2) DEFAULT 25 NOT NULL
+  CHECK (target_margin_percent >= 0 AND target_margin_percent < 100);
+
+CREATE OR REPLACE FUNCTION restore_workspace(p_workspace_id uuid, p_backup jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children
+  v_tables text[] := ARRAY[
+    'suppliers', 'customers', 'tax_rates', 'exchange_rates', 'models', 'purchase_orders',
+    'purchase_order_lines', 'inventory_items', 'po_charges', 'item_costs', 'sales',
+    'sale_taxes', 'sale_returns', 'reservations', 'warranty_claims', 'supplier_rmas',
+    'targets', 'target_periods'
+  ];
+  v_table text;
+  v_columns text;
+  v_rows jsonb;
+  v_count integer;
+  v_restored jsonb := '{}'::jsonb;
+BEGIN
+  IF NOT has_workspace_role(p_workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can restore a backup'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF jsonb_typeof(p_backup->'tables') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Not a workspace backup'
+      USING ERRCODE = 'UF008';
+  END IF;
+
+  PERFORM set_config('app.restoring', 'on', true);
+
+  FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+    EXECUTE format('DELETE FROM %I WHERE workspace_id = $1', v_tables[i]) USING p_workspace_id;
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- Generated columns cannot be inserted
+    SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = v_table::regclass
+      AND attnum > 0
+      AND NOT attisdropped
+      AND attgenerated = '';
+
+    SELECT COALESCE(jsonb_agg(e.value || jsonb_build_object('workspace_id', p_workspace_id)), '[]'::jsonb)
+    INTO v_rows
+    FROM jsonb_array_elements(COALESCE(p_backup->'tables'->v_table, '[]'::jsonb)) AS e(value)
+    WHERE v_table <> 'item_costs'
+       OR (e.value->>'claim_id' IS NULL AND e.value->>'po_charge_id' IS NULL);
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    ) USING v_rows;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_restored := v_restored || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- Backups taken before the model catalog existed
+  IF NOT (p_backup->'tables' ? 'models') THEN
+    PERFORM seed_models(p_workspace_id);
+  END IF;
+
+  -- Every setting; those missing from an older backup keep their value
+  SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+  INTO v_columns
+  FROM pg_attribute
+  WHERE attrelid = 'workspaces'::regclass
+    AND attnum > 0
+    AND NOT attisdropped
+    AND attname NOT IN ('id', 'name', 'next_invoice_number', 'created_at');
+
+  EXECUTE format(
+    'UPDATE workspaces w SET (%s) = (SELECT %s FROM jsonb_populate_record(w, $1)) WHERE w.id = $2',
+    v_columns, v_columns
+  ) USING COALESCE(p_backup->'workspace', '{}'::jsonb), p_workspace_id;
+
+  UPDATE workspaces
+  SET next_invoice_number = GREATEST(
+        COALESCE((p_backup->'workspace'->>'next_invoice_number')::integer, 1),
+        (SELECT COALESCE(MAX(invoice_number), 0) + 1 FROM sales WHERE workspace_id = p_workspace_id)
+      )
+  WHERE id = p_workspace_id;
+
+  RETURN v_restored;
+END;
+$$;
@@ -0,0 +1,311 @@
+-- Asking Prices and Markdowns
+--
+-- Overview:
+-- Units get an asking price, and every change to it is kept. Owners set
+-- markdown rules on the age of a unit (days since its purchase date, the
+-- same age the Dashboard buckets into 0-30, 31-60, 61-90 and 90+ days).
+-- Once a unit reaches a rule's age, its asking price is lowered by the
+-- rule's percentage, but never under the price that would leave the
+-- workspace's minimum margin on the unit's landed cost.
+--
+-- New Tables:
+-- 1. markdown_rules - An automatic price cut at a given age
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - after_days (integer) - Age of the unit, e.g. 45
+--    - discount_percent (decimal) - Cut of the current asking price, e.g. 5
+--    - is_active (boolean)
+--    - created_at (timestamptz)
+--
+-- 2. price_changes - History of asking prices, written by a trigger
+--    - id (uuid, primary key)
+--    - workspace_id (uuid, foreign key)
+--    - item_id (uuid, foreign key)
+--    - old_price (decimal) - NULL for the first price
+--    - new_price (decimal) - NULL when the price is cleared
+--    - reason (text) - manual or markdown
+--    - rule_id (uuid, foreign key) - Markdown rule that made the change
+--    - changed_by (uuid) - Member who made the change, NULL for markdowns
+--    - changed_at (timestamptz)
+--
+-- Modified Tables:
+-- 3. inventory_items
+--    - asking_price (decimal) - List price, in the base currency
+--
+-- 4. workspaces
+--    - markdown_floor_margin_percent (decimal) - Minimum margin markdowns
+--      keep on the landed cost, 10 by default
+--
+-- New Functions:
+-- - apply_markdowns() applies every rule a unit in stock has reached and
+--   that has not lowered its price yet, youngest rule first. Each rule
+--   cuts the price left by the previous one. Called when the inventory is
+--   loaded. Returns the number of price changes made.
+--
+-- Modified Functions:
+-- - restore_workspace() restores markdown rules and the price history
+--
+-- Notes:
+-- A rule held back by the floor is tried again on later runs, so it still
+-- applies if the floor drops or the price is raised.
+--
+-- Security:
+-- Members can read rules and the price history; only owners can manage
+-- rules. The history is only written by the trigger.
+
+-- Asking price of each unit
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS asking_price decimal(10,2) CHECK (asking_price >= 0);
+
+-- Margin markdowns never go under
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS markdown_floor_margin_percent decimal(5,2) DEFAULT 10 NOT NULL
+  CHECK (markdown_floor_margin_percent >= 0 AND markdown_floor_margin_percent < 100);
+
+-- Create markdown_rules table
+CREATE TABLE IF NOT EXISTS markdown_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  after_days integer NOT NULL CHECK (after_days > 0),
+  discount_percent decimal(5,2) NOT NULL CHECK (discount_percent > 0 AND discount_percent < 100),
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create price_changes table
+CREATE TABLE IF NOT EXISTS price_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT current_workspace_id(),
+  item_id uuid REFERENCES inventory_items(id) ON DELETE CASCADE NOT NULL,
+  old_price decimal(10,2),
+  new_price decimal(10,2),
+  reason text DEFAULT 'manual' NOT NULL CHECK (reason IN ('manual', 'markdown')),
+  rule_id uuid REFERENCES markdown_rules(id) ON DELETE SET NULL,
+  changed_by uuid,
+  changed_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_markdown_rules_workspace ON markdown_rules(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_price_changes_item ON price_changes(item_id, changed_at);
+
+-- Keep the history of asking prices. apply_markdowns() sets the reason and
+-- the rule for the changes it makes.
+CREATE OR REPLACE FUNCTION record_price_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.restoring', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.asking_price IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.asking_price IS NOT DISTINCT FROM OLD.asking_price THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO price_changes (workspace_id, item_id, old_price, new_price, reason, rule_id, changed_by)
+  VALUES (
+    NEW.workspace_id,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.asking_price END,
+    NEW.asking_price,
+    COALESCE(NULLIF(current_setting('app.price_change_reason', true), ''), 'manual'),
+    NULLIF(current_setting('app.markdown_rule_id', true), '')::uuid,
+    CASE WHEN current_setting('app.price_change_reason', true) = 'markdown' THEN NULL ELSE auth.uid() END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_price_change ON inventory_items;
+CREATE TRIGGER record_price_change
+  AFTER INSERT OR UPDATE OF asking_price ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION record_price_change();
+
+-- Apply the markdown rules units in stock have reached
+CREATE OR REPLACE FUNCTION apply_markdowns()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+  v_rule record;
+  v_price decimal;
+  v_new_price decimal;
+  v_floor decimal;
+  v_count integer := 0;
+BEGIN
+  PERFORM set_config('app.price_change_reason', 'markdown', true);
+
+  FOR v_item IN
+    SELECT i.id, i.workspace_id, i.purchase_date, i.asking_price,
+           ROUND((i.purchase_cost_base + COALESCE(i.additional_costs, 0)) / (1 - w.markdown_floor_margin_percent / 100), 2) AS floor_price
+    FROM inventory_items i
+    JOIN workspaces w ON w.id = i.workspace_id
+    WHERE is_workspace_member(i.workspace_id)
+      AND i.status = 'in_stock'
+      AND i.asking_price IS NOT NULL
+  LOOP
+    v_price := v_item.asking_price;
+    v_floor := v_item.floor_price;
+
+    FOR v_rule IN
+      SELECT r.id, r.discount_percent
+      FROM markdown_rules r
+      WHERE r.workspace_id = v_item.workspace_id
+        AND r.is_active
+        AND CURRENT_DATE - v_item.purchase_date >= r.after_days
+        AND NOT EXISTS (
+          SELECT 1 FROM price_changes c
+          WHERE c.item_id = v_item.id AND c.rule_id = r.id
+        )
+      ORDER BY r.after_days
+    LOOP
+      v_new_price := GREATEST(ROUND(v_price * (1 - v_rule.discount_percent / 100), 2), v_floor);
+
+      IF v_new_price < v_price THEN
+        v_price := v_new_price;
+
+        PERFORM set_config('app.markdown_rule_id', v_rule.id::text, true);
+        UPDATE inventory_items
+        SET asking_price = v_price,
+            updated_at = now()
+        WHERE id = v_item.id;
+
+        v_count := v_count + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.price_change_reason', '', true);
+  PERFORM set_config('app.markdown_rule_id', '', true);
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_markdowns() TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE markdown_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_changes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for markdown_rules
+CREATE POLICY "Members can read markdown_rules"
+  ON markdown_rules FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage markdown_rules"
+  ON markdown_rules FOR ALL
+  TO authenticated
+  USING (has_workspace_role(workspace_id, ARRAY['owner']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- Create policies for price_changes
+CREATE POLICY "Members can read price_changes"
+  ON price_changes FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace_id));
+
+-- Restore markdown rules and the price history with the rest of the workspace
+CREATE OR REPLACE FUNCTION restore_workspace(p_workspace_id uuid, p_backup jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children
+  v_tables text[] := ARRAY[
+    'suppliers', 'customers', 'tax_rates', 'exchange_rates', 'models', 'markdown_rules',
+    'purchase_orders', 'purchase_order_lines', 'inventory_items', 'price_changes',
+    'po_charges', 'item_costs', 'sales', 'sale_taxes', 'sale_returns', 'reservations',
+    'warranty_claims', 'supplier_rmas', 'targets', 'target_periods'
+  ];
+  v_table text;
+  v_columns text;
+  v_rows jsonb;
+  v_count integer;
+  v_restored jsonb := '{}'::jsonb;
+BEGIN
+  IF NOT has_workspace_role(p_workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can restore a backup'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF jsonb_typeof(p_backup->'tables') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Not a workspace backup'
+      USING ERRCODE = 'UF008';
+  END IF;
+
+  PERFORM set_config('app.restoring', 'on', true);
+
+  FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+    EXECUTE format('DELETE FROM %I WHERE workspace_id = $1', v_tables[i]) USING p_workspace_id;
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- Generated columns cannot be inserted
+    SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = v_table::regclass
+      AND attnum > 0
+      AND NOT attisdropped
+      AND attgenerated = '';
+
+    SELECT COALESCE(jsonb_agg(e.value || jsonb_build_object('workspace_id', p_workspace_id)), '[]'::jsonb)
+    INTO v_rows
+    FROM jsonb_array_elements(COALESCE(p_backup->'tables'->v_table, '[]'::jsonb)) AS e(value)
+    WHERE v_table <> 'item_costs'
+       OR (e.value->>'claim_id' IS NULL AND e.value->>'po_charge_id' IS NULL);
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    ) USING v_rows;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_restored := v_restored || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- Backups taken before the model catalog existed
+  IF NOT (p_backup->'tables' ? 'models') THEN
+    PERFORM seed_models(p_workspace_id);
+  END IF;
+
+  -- Every setting; those missing from an older backup keep their value
+  SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+  INTO v_columns
+  FROM pg_attribute
+  WHERE attrelid = 'workspaces'::regclass
+    AND attnum > 0
+    AND NOT attisdropped
+    AND attname NOT IN ('id', 'name', 'next_invoice_number', 'created_at');
+
+  EXECUTE format(
+    'UPDATE workspaces w SET (%s) = (SELECT %s FROM jsonb_populate_record(w, $1)) WHERE w.id = $2',
+    v_columns, v_columns
+  ) USING COALESCE(p_backup->'workspace', '{}'::jsonb), p_workspace_id;
+
+  UPDATE workspaces
+  SET next_invoice_number = GREATEST(
+        COALESCE((p_backup->'workspace'->>'next_invoice_number')::integer, 1),
+        (SELECT COALESCE(MAX(invoice_number), 0) + 1 FROM sales WHERE workspace_id = p_workspace_id)
+      )
+  WHERE id = p_workspace_id;
+
+  RETURN v_restored;
+END;
+$$;
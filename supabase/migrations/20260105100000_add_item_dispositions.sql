@@ -0,0 +1,25 @@
+-- Item Dispositions
+--
+-- Overview:
+-- Units that sit in stock too long can be pulled from regular retail: sent
+-- to a clearance channel or set aside for a wholesale buyer. The aging
+-- view sets this on many units at once, and a sale of such a unit starts
+-- on the matching sales channel.
+--
+-- Modified Tables:
+-- 1. inventory_items
+--    - disposition (text) - clearance or wholesale, NULL for regular retail
+--
+-- Notes:
+-- Sold units keep their disposition, so reports can tell how they left.
+--
+-- Security:
+-- Covered by the existing inventory_items policies: members who can edit
+-- inventory can change the disposition.
+
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS disposition text
+  CHECK (disposition IN ('clearance', 'wholesale'));
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_disposition ON inventory_items(disposition)
+  WHERE disposition IS NOT NULL;
@@ -0,0 +1,149 @@
+-- Lock Down Model Seeding
+--
+-- Overview:
+-- seed_models() runs as its owner and takes any workspace id, yet it was
+-- executable by every role over RPC. It is only meant to run from the
+-- new-workspace trigger and from restore_workspace().
+--
+-- Modified Tables:
+-- 1. models
+--    - (workspace_id, a_number, year) is unique. Duplicates already there
+--      are merged into the oldest model; their units and lines move to it.
+--
+-- Modified Functions:
+-- - seed_models(p_workspace_id) skips standard models the workspace
+--   already has through the unique key
+--
+-- Security:
+-- EXECUTE on seed_models() is revoked from PUBLIC, anon and authenticated.
+-- The trigger and restore_workspace() are SECURITY DEFINER and keep
+-- calling it.
+
+-- Merge duplicates before the unique key
+CREATE TEMP TABLE duplicate_models AS
+SELECT id, kept_id
+FROM (
+  SELECT id,
+         FIRST_VALUE(id) OVER (PARTITION BY workspace_id, a_number, year ORDER BY created_at, id) AS kept_id
+  FROM models
+  WHERE a_number IS NOT NULL
+) ranked
+WHERE id <> kept_id;
+
+UPDATE inventory_items i
+SET model_id = d.kept_id
+FROM duplicate_models d
+WHERE i.model_id = d.id;
+
+UPDATE purchase_order_lines l
+SET model_id = d.kept_id
+FROM duplicate_models d
+WHERE l.model_id = d.id;
+
+DELETE FROM models
+WHERE id IN (SELECT id FROM duplicate_models);
+
+DROP TABLE duplicate_models;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_models_workspace_a_number_year
+  ON models(workspace_id, a_number, year);
+
+CREATE OR REPLACE FUNCTION seed_models(p_workspace_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO models (workspace_id, model_family, screen_size, year, a_number, chips, ram_options, storage_options, launch_price)
+  SELECT p_workspace_id, v.model_family, v.screen_size, v.year, v.a_number, v.chips, v.ram_options, v.storage_options, v.launch_price
+  FROM (VALUES
+    ('MacBook Air', '13', 2020, 'A2337', ARRAY['M1'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 999),
+    ('MacBook Pro', '13', 2020, 'A2338', ARRAY['M1'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '14', 2021, 'A2442', ARRAY['M1 Pro', 'M1 Max'], ARRAY[16, 32, 64], ARRAY[512, 1024, 2048, 4096, 8192], 1999),
+    ('MacBook Pro', '16', 2021, 'A2485', ARRAY['M1 Pro', 'M1 Max'], ARRAY[16, 32, 64], ARRAY[512, 1024, 2048, 4096, 8192], 2499),
+    ('MacBook Air', '13', 2022, 'A2681', ARRAY['M2'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1199),
+    ('MacBook Pro', '13', 2022, 'A2338', ARRAY['M2'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '14', 2023, 'A2779', ARRAY['M2 Pro', 'M2 Max'], ARRAY[16, 32, 64, 96], ARRAY[512, 1024, 2048, 4096, 8192], 1999),
+    ('MacBook Pro', '16', 2023, 'A2780', ARRAY['M2 Pro', 'M2 Max'], ARRAY[16, 32, 64, 96], ARRAY[512, 1024, 2048, 4096, 8192], 2499),
+    ('MacBook Air', '15', 2023, 'A2941', ARRAY['M2'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '14', 2023, 'A2918', ARRAY['M3'], ARRAY[8, 16, 24], ARRAY[512, 1024, 2048], 1599),
+    ('MacBook Pro', '14', 2023, 'A2992', ARRAY['M3 Pro', 'M3 Max'], ARRAY[18, 36, 48, 64, 96, 128], ARRAY[512, 1024, 2048, 4096, 8192], 1999),
+    ('MacBook Pro', '16', 2023, 'A2991', ARRAY['M3 Pro', 'M3 Max'], ARRAY[18, 36, 48, 64, 96, 128], ARRAY[512, 1024, 2048, 4096, 8192], 2499),
+    ('MacBook Air', '13', 2024, 'A3113', ARRAY['M3'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1099),
+    ('MacBook Air', '15', 2024, 'A3114', ARRAY['M3'], ARRAY[8, 16, 24], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Air', '13', 2020, 'A2179', ARRAY['i3', 'i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 999),
+    ('MacBook Pro', '13', 2020, 'A2289', ARRAY['i5'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '13', 2020, 'A2251', ARRAY['i5', 'i7'], ARRAY[16, 32], ARRAY[512, 1024, 2048, 4096], 1799),
+    ('MacBook Pro', '16', 2019, 'A2141', ARRAY['i7', 'i9'], ARRAY[16, 32, 64], ARRAY[512, 1024, 2048, 4096, 8192], 2399),
+    ('MacBook Pro', '13', 2019, 'A2159', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024, 2048], 1299),
+    ('MacBook Pro', '13', 2018, 'A1989', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1799),
+    ('MacBook Pro', '13', 2019, 'A1989', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024, 2048], 1799),
+    ('MacBook Pro', '15', 2018, 'A1990', ARRAY['i7', 'i9'], ARRAY[16, 32], ARRAY[256, 512, 1024, 2048, 4096], 2399),
+    ('MacBook Pro', '15', 2019, 'A1990', ARRAY['i7', 'i9'], ARRAY[16, 32], ARRAY[256, 512, 1024, 2048, 4096], 2399),
+    ('MacBook Air', '13', 2018, 'A1932', ARRAY['i5'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024, 1536], 1199),
+    ('MacBook Air', '13', 2019, 'A1932', ARRAY['i5'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024, 1536], 1099),
+    ('MacBook Pro', '13', 2016, 'A1708', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024], 1499),
+    ('MacBook Pro', '13', 2017, 'A1708', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[128, 256, 512, 1024], 1299),
+    ('MacBook Pro', '13', 2016, 'A1706', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024], 1799),
+    ('MacBook Pro', '13', 2017, 'A1706', ARRAY['i5', 'i7'], ARRAY[8, 16], ARRAY[256, 512, 1024], 1799),
+    ('MacBook Pro', '15', 2016, 'A1707', ARRAY['i7'], ARRAY[16], ARRAY[256, 512, 1024, 2048], 2399),
+    ('MacBook Pro', '15', 2017, 'A1707', ARRAY['i7'], ARRAY[16], ARRAY[256, 512, 1024, 2048], 2399),
+    ('MacBook Air', '13', 2015, 'A1466', ARRAY['i5', 'i7'], ARRAY[4, 8], ARRAY[128, 256, 512], 999),
+    ('MacBook Air', '13', 2017, 'A1466', ARRAY['i5', 'i7'], ARRAY[8], ARRAY[128, 256, 512], 999)
+  ) AS v(model_family, screen_size, year, a_number, chips, ram_options, storage_options, launch_price)
+  ON CONFLICT (workspace_id, a_number, year) DO NOTHING;
+
+  -- Specs already entered that no model covers
+  INSERT INTO models (workspace_id, model_family, screen_size, year, chips, ram_options, storage_options)
+  SELECT p_workspace_id, s.model_family, s.screen_size, s.year,
+         array_agg(DISTINCT s.chip), array_agg(DISTINCT s.ram_gb), array_agg(DISTINCT s.storage_gb)
+  FROM (
+    SELECT model_family, screen_size, year, chip, ram_gb, storage_gb
+    FROM inventory_items WHERE workspace_id = p_workspace_id
+    UNION
+    SELECT model_family, screen_size, year, chip, ram_gb, storage_gb
+    FROM purchase_order_lines WHERE workspace_id = p_workspace_id
+  ) s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM models m
+    WHERE m.workspace_id = p_workspace_id
+      AND m.model_family = s.model_family
+      AND m.screen_size = s.screen_size
+      AND m.year = s.year
+      AND s.chip = ANY(m.chips)
+  )
+  GROUP BY s.model_family, s.screen_size, s.year;
+
+  -- When two models match, the one offering the RAM and storage wins
+  UPDATE inventory_items i
+  SET model_id = (
+    SELECT m.id FROM models m
+    WHERE m.workspace_id = i.workspace_id
+      AND m.model_family = i.model_family
+      AND m.screen_size = i.screen_size
+      AND m.year = i.year
+      AND i.chip = ANY(m.chips)
+    ORDER BY (i.ram_gb = ANY(m.ram_options) AND i.storage_gb = ANY(m.storage_options)) DESC, m.launch_price
+    LIMIT 1
+  )
+  WHERE i.workspace_id = p_workspace_id
+    AND i.model_id IS NULL;
+
+  UPDATE purchase_order_lines l
+  SET model_id = (
+    SELECT m.id FROM models m
+    WHERE m.workspace_id = l.workspace_id
+      AND m.model_family = l.model_family
+      AND m.screen_size = l.screen_size
+      AND m.year = l.year
+      AND l.chip = ANY(m.chips)
+    ORDER BY (l.ram_gb = ANY(m.ram_options) AND l.storage_gb = ANY(m.storage_options)) DESC, m.launch_price
+    LIMIT 1
+  )
+  WHERE l.workspace_id = p_workspace_id
+    AND l.model_id IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION seed_models(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,13 @@
+-- Lock Down Purchase Order Charge Allocation
+--
+-- Overview:
+-- allocate_po_charges() runs as its owner and rewrites the cost ledger of
+-- any order it is given, yet it was executable by every role over RPC. It
+-- is only meant to run from the reallocate_po_charges triggers.
+--
+-- Security:
+-- EXECUTE on allocate_po_charges() is revoked from PUBLIC, anon and
+-- authenticated. The trigger function is SECURITY DEFINER and keeps
+-- calling it.
+
+REVOKE EXECUTE ON FUNCTION allocate_po_charges(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,146 @@
+-- Validate Backup References on Restore
+--
+-- Overview:
+-- restore_workspace() moved every backup row into the target workspace but
+-- kept the ids it referenced as they were. A crafted backup could point
+-- cost lines, RMAs or reservations at another workspace's units; the rows
+-- are inserted as the function owner, so RLS did not stop it.
+--
+-- Modified Functions:
+-- - restore_workspace() checks each single-column foreign key of a table
+--   before inserting its rows. A referenced id must belong to a row of the
+--   target workspace, restored earlier or in the same table of the backup.
+--   Otherwise the whole restore fails.
+--
+-- Errors:
+--    - UF008 invalid_backup, also raised when a backup row references a row
+--      outside the workspace
+--
+-- Security:
+-- Only owners can restore, as before.
+
+CREATE OR REPLACE FUNCTION restore_workspace(p_workspace_id uuid, p_backup jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children
+  v_tables text[] := ARRAY[
+    'suppliers', 'customers', 'tax_rates', 'exchange_rates', 'models', 'markdown_rules',
+    'purchase_orders', 'purchase_order_lines', 'inventory_items', 'price_changes',
+    'po_charges', 'item_costs', 'sales', 'sale_taxes', 'sale_returns', 'reservations',
+    'warranty_claims', 'supplier_rmas', 'targets', 'target_periods'
+  ];
+  v_table text;
+  v_fk record;
+  v_outside integer;
+  v_columns text;
+  v_rows jsonb;
+  v_count integer;
+  v_restored jsonb := '{}'::jsonb;
+BEGIN
+  IF NOT has_workspace_role(p_workspace_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can restore a backup'
+      USING ERRCODE = 'UF005';
+  END IF;
+
+  IF jsonb_typeof(p_backup->'tables') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Not a workspace backup'
+      USING ERRCODE = 'UF008';
+  END IF;
+
+  PERFORM set_config('app.restoring', 'on', true);
+
+  FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+    EXECUTE format('DELETE FROM %I WHERE workspace_id = $1', v_tables[i]) USING p_workspace_id;
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- Generated columns cannot be inserted
+    SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = v_table::regclass
+      AND attnum > 0
+      AND NOT attisdropped
+      AND attgenerated = '';
+
+    SELECT COALESCE(jsonb_agg(e.value || jsonb_build_object('workspace_id', p_workspace_id)), '[]'::jsonb)
+    INTO v_rows
+    FROM jsonb_array_elements(COALESCE(p_backup->'tables'->v_table, '[]'::jsonb)) AS e(value)
+    WHERE v_table <> 'item_costs'
+       OR (e.value->>'claim_id' IS NULL AND e.value->>'po_charge_id' IS NULL);
+
+    -- Every reference must point inside the workspace: to a row restored
+    -- earlier or to another row of the same table in the backup
+    FOR v_fk IN
+      SELECT a.attname AS column_name, t.relname AS parent_table, pa.attname AS parent_column
+      FROM pg_constraint c
+      JOIN pg_class t ON t.oid = c.confrelid
+      JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+      JOIN pg_attribute pa ON pa.attrelid = c.confrelid AND pa.attnum = c.confkey[1]
+      WHERE c.conrelid = v_table::regclass
+        AND c.contype = 'f'
+        AND cardinality(c.conkey) = 1
+        AND a.attname <> 'workspace_id'
+        AND EXISTS (
+          SELECT 1 FROM pg_attribute w
+          WHERE w.attrelid = c.confrelid AND w.attname = 'workspace_id' AND NOT w.attisdropped
+        )
+    LOOP
+      EXECUTE format(
+        'SELECT count(*) FROM jsonb_populate_recordset(NULL::%1$I, $1) r
+         WHERE r.%2$I IS NOT NULL
+           AND NOT EXISTS (SELECT 1 FROM %3$I p WHERE p.%4$I = r.%2$I AND p.workspace_id = $2)
+           AND NOT (%3$L = %1$L AND EXISTS (
+             SELECT 1 FROM jsonb_populate_recordset(NULL::%1$I, $1) s WHERE s.%4$I = r.%2$I
+           ))',
+        v_table, v_fk.column_name, v_fk.parent_table, v_fk.parent_column
+      ) INTO v_outside USING v_rows, p_workspace_id;
+
+      IF v_outside > 0 THEN
+        RAISE EXCEPTION 'Backup rows of % reference % outside the workspace', v_table, v_fk.parent_table
+          USING ERRCODE = 'UF008';
+      END IF;
+    END LOOP;
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+      v_table, v_columns, v_columns, v_table
+    ) USING v_rows;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_restored := v_restored || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- Backups taken before the model catalog existed
+  IF NOT (p_backup->'tables' ? 'models') THEN
+    PERFORM seed_models(p_workspace_id);
+  END IF;
+
+  -- Every setting; those missing from an older backup keep their value
+  SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+  INTO v_columns
+  FROM pg_attribute
+  WHERE attrelid = 'workspaces'::regclass
+    AND attnum > 0
+    AND NOT attisdropped
+    AND attname NOT IN ('id', 'name', 'next_invoice_number', 'created_at');
+
+  EXECUTE format(
+    'UPDATE workspaces w SET (%s) = (SELECT %s FROM jsonb_populate_record(w, $1)) WHERE w.id = $2',
+    v_columns, v_columns
+  ) USING COALESCE(p_backup->'workspace', '{}'::jsonb), p_workspace_id;
+
+  UPDATE workspaces
+  SET next_invoice_number = GREATEST(
+        COALESCE((p_backup->'workspace'->>'next_invoice_number')::integer, 1),
+        (SELECT COALESCE(MAX(invoice_number), 0) + 1 FROM sales WHERE workspace_id = p_workspace_id)
+      )
+  WHERE id = p_workspace_id;
+
+  RETURN v_restored;
+END;
+$$;